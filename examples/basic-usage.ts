@@ -73,7 +73,10 @@ async function basicUsageExample() {
     // Authenticate user
     console.log('Authenticating user...');
     const authResult = await rbacService.authenticateUser('john_doe', 'password123');
-    if (authResult) {
+    if (authResult && 'mfaRequired' in authResult) {
+      // Finish with rbacService.completeMfaChallenge(authResult.challengeToken, code)
+      console.log('Second factor required');
+    } else if (authResult) {
       console.log('Authentication successful!');
       console.log('Token:', authResult.token);
       console.log('User roles:', authResult.roles.map(r => r.name));
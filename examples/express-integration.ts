@@ -11,8 +11,14 @@ const rbacClient = new RBACClient({
 });
 
 // Initialize RBAC middleware
+// With an RS256/ES256 RBAC server, tokens are verified offline against the cached JWKS;
+// claims older than 5 minutes are refreshed through the profile endpoint
 const rbacMiddleware = new RBACMiddleware({
-  rbacClient
+  rbacClient,
+  verification: {
+    mode: 'local',
+    maxClaimsAge: 300
+  }
 });
 
 // Public routes
@@ -24,7 +24,12 @@ const rbacClient = new RBACClient({
 
     // Login
     console.log('\nLogging in...');
-    const authResult = await rbacClient.login('jane_doe', 'password123');
+    const loginResult = await rbacClient.login('jane_doe', 'password123');
+    if ('mfaRequired' in loginResult) {
+      // Users with MFA finish the login with rbacClient.verifyMfa(loginResult.challengeToken, code)
+      throw new Error('Second factor required');
+    }
+    const authResult = loginResult;
     console.log('Login successful!');
     console.log('Token:', authResult.token);
     console.log('User roles:', authResult.roles.map(r => r.name));
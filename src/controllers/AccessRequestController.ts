@@ -0,0 +1,202 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { RBACService } from '../services/RBACService';
+import { AccessRequest } from '../types';
+import { auditContext } from '../utils/audit';
+
+const createAccessRequestSchema = Joi.object({
+  roleId: Joi.string().required(),
+  reason: Joi.string().min(3).max(1000).required(),
+  duration: Joi.string().max(50).required()
+});
+
+const listAccessRequestsSchema = Joi.object({
+  status: Joi.string().valid('pending', 'approved', 'rejected'),
+  userId: Joi.string(),
+  roleId: Joi.string(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10)
+});
+
+const decideAccessRequestSchema = Joi.object({
+  reason: Joi.string().max(1000)
+});
+
+export class AccessRequestController {
+  constructor(private rbacService: RBACService) {}
+
+  async createRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = createAccessRequestSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Within an organization the role is requested for that organization only
+      const request = await this.rbacService.requestAccess(userId, value.roleId, {
+        reason: value.reason,
+        duration: value.duration,
+        organizationId: req.tenantId
+      });
+
+      if (!request) {
+        res.status(400).json({ error: 'Erro ao solicitar acesso' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'access_request.create',
+        targetType: 'access_request',
+        targetId: request.id,
+        after: request
+      });
+
+      res.status(201).json({
+        message: 'Solicitação de acesso criada com sucesso',
+        data: request
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = listAccessRequestsSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const { page, limit, ...filters } = value;
+      const offset = (page - 1) * limit;
+
+      // Users who cannot approve only see their own requests
+      if (!(await this.rbacService.canApproveAccessRequests(userId, req.tenantId))) {
+        filters.userId = userId;
+      }
+
+      const scopedFilters = { ...filters, organizationId: req.tenantId };
+      const requests = await this.rbacService.listAccessRequests(scopedFilters, limit, offset);
+      const total = await this.rbacService.getAccessRequestsCount(scopedFilters);
+
+      res.json({
+        data: requests,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getRequestById(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const request = await this.findScopedRequest(req, res);
+      if (!request) {
+        return;
+      }
+
+      if (request.userId !== userId && !(await this.rbacService.canApproveAccessRequests(userId, req.tenantId))) {
+        res.status(404).json({ error: 'Solicitação de acesso não encontrada' });
+        return;
+      }
+
+      res.json({ data: request });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async approveRequest(req: Request, res: Response): Promise<void> {
+    await this.decideRequest(req, res, 'approve');
+  }
+
+  async rejectRequest(req: Request, res: Response): Promise<void> {
+    await this.decideRequest(req, res, 'reject');
+  }
+
+  private async decideRequest(req: Request, res: Response, decision: 'approve' | 'reject'): Promise<void> {
+    try {
+      const approverId = req.user?.userId;
+      if (!approverId) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = decideAccessRequestSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const request = await this.findScopedRequest(req, res);
+      if (!request) {
+        return;
+      }
+
+      const decided = decision === 'approve'
+        ? await this.rbacService.approveAccessRequest(request.id, approverId, value.reason)
+        : await this.rbacService.rejectAccessRequest(request.id, approverId, value.reason);
+
+      if (!decided) {
+        res.status(400).json({
+          error: decision === 'approve' ? 'Erro ao aprovar solicitação de acesso' : 'Erro ao rejeitar solicitação de acesso'
+        });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: `access_request.${decision}`,
+        targetType: 'access_request',
+        targetId: request.id,
+        before: request,
+        after: decided
+      });
+
+      res.json({
+        message: decision === 'approve' ? 'Solicitação de acesso aprovada com sucesso' : 'Solicitação de acesso rejeitada com sucesso',
+        data: decided
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  // Requests are only visible within the scope (organization or global) they were filed in
+  private async findScopedRequest(req: Request, res: Response): Promise<AccessRequest | null> {
+    const request = await this.rbacService.getAccessRequestById(req.params.id);
+
+    if (!request || request.organizationId !== req.tenantId) {
+      res.status(404).json({ error: 'Solicitação de acesso não encontrada' });
+      return null;
+    }
+
+    return request;
+  }
+}
@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { RBACService } from '../services/RBACService';
+
+const listAuditEventsSchema = Joi.object({
+  actorId: Joi.string(),
+  action: Joi.string().max(100),
+  targetType: Joi.string().max(50),
+  targetId: Joi.string().max(255),
+  from: Joi.date().iso(),
+  to: Joi.date().iso().min(Joi.ref('from')),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const recentDenialsSchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+export class AuditController {
+  constructor(private rbacService: RBACService) {}
+
+  async getAuditEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = listAuditEventsSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const { page, limit, ...filters } = value;
+      const offset = (page - 1) * limit;
+
+      // Within an organization only its own events are visible
+      const scopedFilters = { ...filters, organizationId: req.tenantId };
+      const events = await this.rbacService.listAuditEvents(scopedFilters, limit, offset);
+      const total = await this.rbacService.getAuditEventsCount(scopedFilters);
+
+      res.json({
+        data: events,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getRecentDenials(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = recentDenialsSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Within an organization only denials made in it are visible
+      const denials = await this.rbacService.getRecentDenials(req.params.userId, value.limit, req.tenantId);
+
+      if (!denials) {
+        res.status(501).json({ error: 'Log de decisões de autorização não está disponível para consulta' });
+        return;
+      }
+
+      res.json({ data: denials });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+}
@@ -1,19 +1,61 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
+import { LoginThrottledError } from '../services/LoginThrottle';
+import { PasswordPolicyError } from '../services/PasswordPolicy';
 import { RBACService } from '../services/RBACService';
+import { auditContext, userSnapshot } from '../utils/audit';
 
 /**
  * Joi validation schemas for authentication endpoints
  */
 const loginSchema = Joi.object({
   username: Joi.string().required(),
+  password: Joi.string().required(),
+  tenantId: Joi.string()
+});
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+const logoutSchema = Joi.object({
+  refreshToken: Joi.string()
+});
+
+const mfaCodeSchema = Joi.object({
+  code: Joi.string().max(20).required()
+});
+
+const mfaChallengeSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string().max(20).required()
+});
+
+const mfaChallengeEnrollmentSchema = Joi.object({
+  challengeToken: Joi.string().required()
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
   password: Joi.string().required()
 });
 
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const resendVerificationSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
 const registerSchema = Joi.object({
   username: Joi.string().min(3).max(50).required(),
   email: Joi.string().email().required(),
-  password: Joi.string().min(6).required()
+  password: Joi.string().required()
 });
 
 /**
@@ -40,18 +82,523 @@ export class AuthController {
         return;
       }
 
-      const { username, password } = value;
-      const authResult = await this.rbacService.authenticateUser(username, password);
+      const { username, password, tenantId } = value;
+      const authResult = await this.rbacService.authenticateUser(username, password, tenantId, req.ip);
 
       if (!authResult) {
+        // The attempted username is the only identity known for a failed login
+        await this.rbacService.recordAuditEvent({
+          ...auditContext(req),
+          organizationId: tenantId,
+          action: 'auth.login.failure',
+          targetType: 'user',
+          targetId: username
+        });
         res.status(401).json({ error: 'Credenciais inválidas' });
         return;
       }
 
+      // The password was right, but no tokens are issued until the second factor is verified
+      if ('mfaRequired' in authResult) {
+        await this.rbacService.recordAuditEvent({
+          ...auditContext(req),
+          organizationId: tenantId,
+          action: 'auth.login.mfa_required',
+          targetType: 'user',
+          targetId: username
+        });
+        res.json({
+          message: authResult.enrollmentRequired
+            ? 'Configure a autenticação em duas etapas para concluir o login'
+            : 'Informe o código de verificação para concluir o login',
+          data: authResult
+        });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        actorId: authResult.user.id,
+        organizationId: tenantId,
+        action: 'auth.login.success',
+        targetType: 'user',
+        targetId: authResult.user.id
+      });
+
       res.json({
         message: 'Login realizado com sucesso',
         data: authResult
       });
+    } catch (error) {
+      // The same response for every username, so lockouts do not reveal which ones exist
+      if (error instanceof LoginThrottledError) {
+        await this.rbacService.recordAuditEvent({
+          ...auditContext(req),
+          organizationId: req.body.tenantId,
+          action: 'auth.login.throttled',
+          targetType: 'user',
+          targetId: req.body.username
+        }).catch(auditError => console.error('Erro ao registrar evento de auditoria:', auditError));
+        res.set('Retry-After', String(error.retryAfter));
+        res.status(429).json({ error: 'Muitas tentativas de login. Tente novamente mais tarde', retryAfter: error.retryAfter });
+        return;
+      }
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Completes a login with the code of the second factor
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async verifyMfa(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = mfaChallengeSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const authResult = await this.rbacService.completeMfaChallenge(value.challengeToken, value.code, req.ip);
+
+      if (!authResult) {
+        await this.rbacService.recordAuditEvent({
+          ...auditContext(req),
+          action: 'auth.mfa.failure',
+          targetType: 'user'
+        });
+        res.status(401).json({ error: 'Código de verificação inválido ou desafio expirado' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        actorId: authResult.user.id,
+        organizationId: this.rbacService.verifyToken(authResult.token)?.tenantId,
+        action: 'auth.login.success',
+        targetType: 'user',
+        targetId: authResult.user.id
+      });
+
+      res.json({
+        message: 'Login realizado com sucesso',
+        data: authResult
+      });
+    } catch (error) {
+      if (error instanceof LoginThrottledError) {
+        await this.rbacService.recordAuditEvent({
+          ...auditContext(req),
+          action: 'auth.login.throttled',
+          targetType: 'user'
+        }).catch(auditError => console.error('Erro ao registrar evento de auditoria:', auditError));
+        res.set('Retry-After', String(error.retryAfter));
+        res.status(429).json({ error: 'Muitas tentativas de login. Tente novamente mais tarde', retryAfter: error.retryAfter });
+        return;
+      }
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Starts enrollment during a login that requires MFA from a user without an authenticator
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async enrollMfaChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = mfaChallengeEnrollmentSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const enrollment = await this.rbacService.beginChallengeEnrollment(value.challengeToken);
+      if (!enrollment) {
+        res.status(401).json({ error: 'Desafio inválido ou expirado' });
+        return;
+      }
+
+      res.json({ data: enrollment });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Starts TOTP enrollment for the current user
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async enrollMfa(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const enrollment = await this.rbacService.beginMfaEnrollment(req.user.userId);
+      if (!enrollment) {
+        res.status(409).json({ error: 'Autenticação em duas etapas já está ativada' });
+        return;
+      }
+
+      res.json({ data: enrollment });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Confirms the enrollment of the current user and returns the recovery codes
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async confirmMfa(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = mfaCodeSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const recoveryCodes = await this.rbacService.confirmMfaEnrollment(req.user.userId, value.code);
+      if (!recoveryCodes) {
+        res.status(400).json({ error: 'Código de verificação inválido' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.mfa.enable',
+        targetType: 'user',
+        targetId: req.user.userId
+      });
+
+      res.json({
+        message: 'Autenticação em duas etapas ativada com sucesso',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Disables MFA for the current user, unless a role they hold requires it
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async disableMfa(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = mfaCodeSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      if (await this.rbacService.isMfaRequired(req.user.userId, req.tenantId)) {
+        res.status(403).json({ error: 'Autenticação em duas etapas é obrigatória para as roles do usuário' });
+        return;
+      }
+
+      if (!(await this.rbacService.disableMfa(req.user.userId, value.code))) {
+        res.status(400).json({ error: 'Código de verificação inválido' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.mfa.disable',
+        targetType: 'user',
+        targetId: req.user.userId
+      });
+
+      res.json({ message: 'Autenticação em duas etapas desativada com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Replaces the recovery codes of the current user
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = mfaCodeSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const recoveryCodes = await this.rbacService.regenerateRecoveryCodes(req.user.userId, value.code);
+      if (!recoveryCodes) {
+        res.status(400).json({ error: 'Código de verificação inválido' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.mfa.recovery_codes.regenerate',
+        targetType: 'user',
+        targetId: req.user.userId
+      });
+
+      res.json({
+        message: 'Códigos de recuperação gerados com sucesso',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Emails a password reset token; the response is the same, and as fast, whether the address is registered or not
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.rbacService.isEmailEnabled()) {
+        res.status(501).json({ error: 'Envio de e-mails não configurado' });
+        return;
+      }
+
+      const { error, value } = forgotPasswordSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Not awaited: looking up the address and sending the email would make the response slower
+      // for registered addresses than for unknown ones
+      this.rbacService.requestPasswordReset(value.email)
+        .catch(error => console.error('Erro ao solicitar redefinição de senha:', error));
+
+      res.status(202).json({ message: 'Se o e-mail estiver cadastrado, enviaremos as instruções para redefinir a senha' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Sets a new password with a reset token
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = resetPasswordSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const user = await this.rbacService.resetPassword(value.token, value.password);
+      if (!user) {
+        res.status(400).json({ error: 'Token inválido ou expirado' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        actorId: user.id,
+        action: 'auth.password.reset',
+        targetType: 'user',
+        targetId: user.id
+      });
+
+      res.json({ message: 'Senha redefinida com sucesso' });
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        res.status(400).json({ error: error.message, violations: error.violations });
+        return;
+      }
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Verifies an email address with the token sent to it
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = verifyEmailSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const user = await this.rbacService.verifyEmail(value.token);
+      if (!user) {
+        res.status(400).json({ error: 'Token inválido ou expirado' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        actorId: user.id,
+        action: 'auth.email.verify',
+        targetType: 'user',
+        targetId: user.id
+      });
+
+      res.json({
+        message: 'E-mail verificado com sucesso',
+        data: {
+          id: user.id,
+          email: user.email,
+          emailVerifiedAt: user.emailVerifiedAt
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Emails a new verification token; the response is the same, and as fast, whether the address is registered or not
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async resendEmailVerification(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.rbacService.isEmailEnabled()) {
+        res.status(501).json({ error: 'Envio de e-mails não configurado' });
+        return;
+      }
+
+      const { error, value } = resendVerificationSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Not awaited, for the same reason as in forgotPassword
+      this.rbacService.resendEmailVerification(value.email)
+        .catch(error => console.error('Erro ao reenviar verificação de e-mail:', error));
+
+      res.status(202).json({ message: 'Se o e-mail estiver cadastrado e não verificado, enviaremos um novo link de verificação' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair (rotation)
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = refreshSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const authResult = await this.rbacService.refreshAuthentication(value.refreshToken);
+
+      if (!authResult) {
+        res.status(401).json({ error: 'Refresh token inválido ou expirado' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        actorId: authResult.user.id,
+        action: 'auth.token.refresh',
+        targetType: 'user',
+        targetId: authResult.user.id
+      });
+
+      res.json({
+        message: 'Token renovado com sucesso',
+        data: authResult
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Revokes the current access token and, if provided, the refresh token family
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = logoutSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      await this.rbacService.revokeToken(req.user);
+      if (value.refreshToken) {
+        await this.rbacService.revokeRefreshToken(value.refreshToken);
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.logout',
+        targetType: 'user',
+        targetId: req.user.userId
+      });
+
+      res.json({ message: 'Logout realizado com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Revokes every outstanding access and refresh token of the current user
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      await this.rbacService.revokeAllUserTokens(req.user.userId);
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.logout_all',
+        targetType: 'user',
+        targetId: req.user.userId
+      });
+
+      res.json({ message: 'Todas as sessões foram encerradas' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
@@ -86,6 +633,17 @@ export class AuthController {
         isActive: true
       });
 
+      await this.rbacService.sendEmailVerification(user.id);
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        actorId: user.id,
+        action: 'auth.register',
+        targetType: 'user',
+        targetId: user.id,
+        after: userSnapshot(user)
+      });
+
       res.status(201).json({
         message: 'Usuário criado com sucesso',
         data: {
@@ -97,6 +655,10 @@ export class AuthController {
         }
       });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        res.status(400).json({ error: error.message, violations: error.violations });
+        return;
+      }
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
@@ -114,8 +676,10 @@ export class AuthController {
         return;
       }
 
-      const roles = await this.rbacService.getUserRoles(req.user.userId);
-      const permissions = await this.rbacService.getUserPermissions(req.user.userId);
+      const roles = await this.rbacService.getEffectiveUserRoles(req.user.userId, req.tenantId);
+      const permissions = await this.rbacService.getUserPermissions(req.user.userId, req.tenantId);
+      const deniedPermissions = await this.rbacService.getUserDeniedPermissions(req.user.userId, req.tenantId);
+      const organizations = await this.rbacService.getUserOrganizations(req.user.userId);
 
       res.json({
         data: {
@@ -123,12 +687,16 @@ export class AuthController {
             id: user.id,
             username: user.username,
             email: user.email,
+            emailVerifiedAt: user.emailVerifiedAt,
             isActive: user.isActive,
             createdAt: user.createdAt,
             updatedAt: user.updatedAt
           },
+          tenantId: req.tenantId,
+          organizations,
           roles,
-          permissions
+          permissions,
+          deniedPermissions
         }
       });
     } catch (error) {
@@ -145,7 +713,7 @@ export class AuthController {
 
       const updateSchema = Joi.object({
         email: Joi.string().email(),
-        password: Joi.string().min(6)
+        password: Joi.string()
       });
 
       const { error, value } = updateSchema.validate(req.body);
@@ -154,12 +722,26 @@ export class AuthController {
         return;
       }
 
-      const updatedUser = await this.rbacService.updateUser(req.user.userId, value);
-      if (!updatedUser) {
+      const user = await this.rbacService.getUserById(req.user.userId);
+      const updatedUser = user && await this.rbacService.updateUser(req.user.userId, value);
+      if (!user || !updatedUser) {
         res.status(404).json({ error: 'Usuário não encontrado' });
         return;
       }
 
+      if (updatedUser.email !== user.email) {
+        await this.rbacService.sendEmailVerification(updatedUser.id);
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.profile.update',
+        targetType: 'user',
+        targetId: updatedUser.id,
+        before: userSnapshot(user),
+        after: userSnapshot(updatedUser)
+      });
+
       res.json({
         message: 'Perfil atualizado com sucesso',
         data: {
@@ -171,6 +753,10 @@ export class AuthController {
         }
       });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        res.status(400).json({ error: error.message, violations: error.violations });
+        return;
+      }
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
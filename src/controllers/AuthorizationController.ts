@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { RBACService } from '../services/RBACService';
+import { PermissionCheck } from '../types';
+import { formatPermissionCheck } from '../utils/permissions';
+
+const permissionCheckSchema = Joi.object({
+  resource: Joi.string().min(1).max(50).required(),
+  action: Joi.string().min(1).max(50).required(),
+  resourceId: Joi.string().max(255)
+});
+
+const authorizeSchema = Joi.object({
+  userId: Joi.string().required(),
+  resource: Joi.string().min(1).max(50).required(),
+  action: Joi.string().min(1).max(50).required(),
+  resourceId: Joi.string().max(255),
+  tenantId: Joi.string(),
+  context: Joi.object({
+    subject: Joi.object(),
+    resource: Joi.object(),
+    environment: Joi.object()
+  }).default({})
+});
+
+const explainSchema = Joi.object({
+  userId: Joi.string().required(),
+  resource: Joi.string().min(1).max(50).required(),
+  action: Joi.string().min(1).max(50).required(),
+  resourceId: Joi.string().max(255),
+  context: Joi.object({
+    subject: Joi.object(),
+    resource: Joi.object(),
+    environment: Joi.object()
+  }).default({})
+});
+
+const batchSchema = Joi.object({
+  checks: Joi.array().items(permissionCheckSchema).min(1).max(100).required(),
+  userIds: Joi.array().items(Joi.string()).min(1).max(50).unique()
+});
+
+export class AuthorizationController {
+  constructor(private rbacService: RBACService) {}
+
+  async authorize(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = authorizeSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Unknown and deactivated users are denied outright
+      const user = await this.rbacService.getUserById(value.userId);
+      const allowed = !!user && user.isActive && await this.rbacService.hasPermission(
+        value.userId,
+        { resource: value.resource, action: value.action, resourceId: value.resourceId },
+        { ...value.context, tenantId: value.tenantId }
+      );
+
+      res.json({ data: { allowed } });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async explain(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = explainSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Decisions are explained as they would be made within the caller's organization
+      const explanation = await this.rbacService.explain(
+        value.userId,
+        { resource: value.resource, action: value.action, resourceId: value.resourceId },
+        { ...value.context, tenantId: req.tenantId }
+      );
+
+      res.json({ data: explanation });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async batch(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = batchSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Anyone may check their own permissions; other users' require audit read permission
+      const userIds: string[] = value.userIds || [userId];
+      if (
+        userIds.some(id => id !== userId) &&
+        !(await this.rbacService.hasPermission(userId, { resource: 'audit', action: 'read' }, { tenantId: req.tenantId }))
+      ) {
+        res.status(403).json({ error: "Acesso negado. Permissão 'read' em 'audit' é necessária para consultar outros usuários" });
+        return;
+      }
+
+      const data: Record<string, Record<string, boolean>> = {};
+      for (const id of userIds) {
+        const decisions = await this.rbacService.hasPermissions(id, value.checks, { tenantId: req.tenantId });
+        data[id] = Object.fromEntries(value.checks.map((check: PermissionCheck, index: number) => [formatPermissionCheck(check), decisions[index]]));
+      }
+
+      res.json({ data });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { RBACService } from '../services/RBACService';
+import { auditContext } from '../utils/audit';
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const createOrganizationSchema = Joi.object({
+  name: Joi.string().min(2).max(100).required(),
+  slug: Joi.string().min(2).max(100).pattern(slugPattern).required(),
+  isActive: Joi.boolean().default(true)
+});
+
+const updateOrganizationSchema = Joi.object({
+  name: Joi.string().min(2).max(100),
+  slug: Joi.string().min(2).max(100).pattern(slugPattern),
+  isActive: Joi.boolean()
+});
+
+export class OrganizationController {
+  constructor(private rbacService: RBACService) {}
+
+  async createOrganization(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createOrganizationSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const existingOrganization = await this.rbacService.getOrganizationBySlug(value.slug);
+      if (existingOrganization) {
+        res.status(409).json({ error: 'Organização já existe' });
+        return;
+      }
+
+      const organization = await this.rbacService.createOrganization(value);
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'organization.create',
+        targetType: 'organization',
+        targetId: organization.id,
+        after: organization
+      });
+
+      res.status(201).json({
+        message: 'Organização criada com sucesso',
+        data: organization
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getOrganizations(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const offset = (page - 1) * limit;
+
+      // Within an organization only that organization is visible
+      if (req.tenantId) {
+        const organization = await this.rbacService.getOrganizationById(req.tenantId);
+        const organizations = organization && page === 1 ? [organization] : [];
+
+        res.json({
+          data: organizations,
+          pagination: { page, limit, total: organization ? 1 : 0, pages: organization ? 1 : 0 }
+        });
+        return;
+      }
+
+      const organizations = await this.rbacService.listOrganizations(limit, offset);
+      const total = await this.rbacService.getOrganizationsCount();
+
+      res.json({
+        data: organizations,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getOrganizationById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const organization = this.isInScope(req, id) ? await this.rbacService.getOrganizationById(id) : null;
+
+      if (!organization) {
+        res.status(404).json({ error: 'Organização não encontrada' });
+        return;
+      }
+
+      res.json({ data: organization });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async updateOrganization(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { error, value } = updateOrganizationSchema.validate(req.body);
+
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      if (value.slug) {
+        const existingOrganization = await this.rbacService.getOrganizationBySlug(value.slug);
+        if (existingOrganization && existingOrganization.id !== id) {
+          res.status(409).json({ error: 'Organização já existe' });
+          return;
+        }
+      }
+
+      const organization = this.isInScope(req, id) ? await this.rbacService.getOrganizationById(id) : null;
+      const updatedOrganization = organization && await this.rbacService.updateOrganization(id, value);
+      if (!organization || !updatedOrganization) {
+        res.status(404).json({ error: 'Organização não encontrada' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'organization.update',
+        targetType: 'organization',
+        targetId: id,
+        before: organization,
+        after: updatedOrganization
+      });
+
+      res.json({
+        message: 'Organização atualizada com sucesso',
+        data: updatedOrganization
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async deleteOrganization(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const organization = await this.rbacService.getOrganizationById(id);
+      const deleted = organization && await this.rbacService.deleteOrganization(id);
+
+      if (!organization || !deleted) {
+        res.status(404).json({ error: 'Organização não encontrada' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'organization.delete',
+        targetType: 'organization',
+        targetId: id,
+        before: organization
+      });
+
+      res.json({ message: 'Organização deletada com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const offset = (page - 1) * limit;
+
+      const organization = this.isInScope(req, id) ? await this.rbacService.getOrganizationById(id) : null;
+      if (!organization) {
+        res.status(404).json({ error: 'Organização não encontrada' });
+        return;
+      }
+
+      const members = await this.rbacService.listUsers(limit, offset, id);
+      const total = await this.rbacService.getUsersCount(id);
+
+      res.json({
+        data: members.map(user => ({
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          isActive: user.isActive,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async addMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      const organization = this.isInScope(req, id) ? await this.rbacService.getOrganizationById(id) : null;
+      if (!organization) {
+        res.status(404).json({ error: 'Organização não encontrada' });
+        return;
+      }
+
+      const success = await this.rbacService.addOrganizationMember(id, userId);
+      if (!success) {
+        res.status(400).json({ error: 'Erro ao adicionar membro à organização' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        organizationId: id,
+        action: 'organization.member.add',
+        targetType: 'organization',
+        targetId: id,
+        after: { userId }
+      });
+
+      res.json({ message: 'Membro adicionado com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async removeMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      const success = this.isInScope(req, id) && await this.rbacService.removeOrganizationMember(id, userId);
+
+      if (!success) {
+        res.status(400).json({ error: 'Erro ao remover membro da organização' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        organizationId: id,
+        action: 'organization.member.remove',
+        targetType: 'organization',
+        targetId: id,
+        before: { userId }
+      });
+
+      res.json({ message: 'Membro removido com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  // Within an organization, only that organization can be managed
+  private isInScope(req: Request, organizationId: string): boolean {
+    return !req.tenantId || req.tenantId === organizationId;
+  }
+}
@@ -1,18 +1,20 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
 import { RBACService } from '../services/RBACService';
+import { auditContext } from '../utils/audit';
 
+// '*' is accepted as a wildcard name, resource or action (e.g. 'users:*', '*:read', '*')
 const createPermissionSchema = Joi.object({
-  name: Joi.string().min(2).max(100).required(),
-  resource: Joi.string().min(2).max(100).required(),
-  action: Joi.string().min(2).max(50).required(),
+  name: Joi.string().min(2).max(100).allow('*').required(),
+  resource: Joi.string().min(2).max(100).allow('*').required(),
+  action: Joi.string().min(2).max(50).allow('*').required(),
   description: Joi.string().max(500)
 });
 
 const updatePermissionSchema = Joi.object({
-  name: Joi.string().min(2).max(100),
-  resource: Joi.string().min(2).max(100),
-  action: Joi.string().min(2).max(50),
+  name: Joi.string().min(2).max(100).allow('*'),
+  resource: Joi.string().min(2).max(100).allow('*'),
+  action: Joi.string().min(2).max(50).allow('*'),
   description: Joi.string().max(500)
 });
 
@@ -29,6 +31,14 @@ export class PermissionController {
 
       const permission = await this.rbacService.createPermission(value);
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'permission.create',
+        targetType: 'permission',
+        targetId: permission.id,
+        after: permission
+      });
+
       res.status(201).json({
         message: 'Permissão criada com sucesso',
         data: {
@@ -96,12 +106,22 @@ export class PermissionController {
         return;
       }
 
-      const updatedPermission = await this.rbacService.updatePermission(id, value);
-      if (!updatedPermission) {
+      const permission = await this.rbacService.getPermissionById(id);
+      const updatedPermission = permission && await this.rbacService.updatePermission(id, value);
+      if (!permission || !updatedPermission) {
         res.status(404).json({ error: 'Permissão não encontrada' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'permission.update',
+        targetType: 'permission',
+        targetId: id,
+        before: permission,
+        after: updatedPermission
+      });
+
       res.json({
         message: 'Permissão atualizada com sucesso',
         data: updatedPermission
@@ -114,13 +134,22 @@ export class PermissionController {
   async deletePermission(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const deleted = await this.rbacService.deletePermission(id);
+      const permission = await this.rbacService.getPermissionById(id);
+      const deleted = permission && await this.rbacService.deletePermission(id);
 
-      if (!deleted) {
+      if (!permission || !deleted) {
         res.status(404).json({ error: 'Permissão não encontrada' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'permission.delete',
+        targetType: 'permission',
+        targetId: id,
+        before: permission
+      });
+
       res.json({ message: 'Permissão deletada com sucesso' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
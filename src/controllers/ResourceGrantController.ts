@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { RBACService } from '../services/RBACService';
+import { auditContext } from '../utils/audit';
+
+const createResourceGrantSchema = Joi.object({
+  permissionId: Joi.string().required(),
+  resourceId: Joi.string().min(1).max(255).required(),
+  subjectType: Joi.string().valid('user', 'role').required(),
+  subjectId: Joi.string().required()
+});
+
+const listResourceGrantsSchema = Joi.object({
+  resourceId: Joi.string().min(1).max(255).required()
+});
+
+export class ResourceGrantController {
+  constructor(private rbacService: RBACService) {}
+
+  async createGrant(req: Request, res: Response): Promise<void> {
+    try {
+      const grantedBy = req.user?.userId;
+      if (!grantedBy) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      const { error, value } = createResourceGrantSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      // Grants created within an organization only apply there
+      const grant = await this.rbacService.grantResourcePermission({
+        ...value,
+        organizationId: req.tenantId,
+        grantedBy
+      });
+
+      if (!grant) {
+        res.status(400).json({ error: 'Erro ao conceder permissão no recurso' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'resource_grant.create',
+        targetType: 'resource_grant',
+        targetId: grant.id,
+        after: grant
+      });
+
+      res.status(201).json({
+        message: 'Permissão concedida no recurso com sucesso',
+        data: grant
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getGrants(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = listResourceGrantsSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const grants = await this.rbacService.getResourceGrants(value.resourceId, req.tenantId);
+
+      res.json({ data: grants });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async deleteGrant(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const grant = await this.rbacService.getResourceGrantById(id);
+
+      // Within an organization only its own grants can be revoked
+      if (!grant || (req.tenantId && grant.organizationId !== req.tenantId)) {
+        res.status(404).json({ error: 'Concessão não encontrada' });
+        return;
+      }
+
+      await this.rbacService.revokeResourcePermission(id);
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'resource_grant.delete',
+        targetType: 'resource_grant',
+        targetId: id,
+        before: grant
+      });
+
+      res.json({ message: 'Permissão revogada no recurso com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+}
@@ -1,17 +1,27 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
 import { RBACService } from '../services/RBACService';
+import { Role } from '../types';
+import { auditContext } from '../utils/audit';
+import { ConditionSyntaxError } from '../utils/conditions';
 
 const createRoleSchema = Joi.object({
   name: Joi.string().min(2).max(100).required(),
   description: Joi.string().max(500),
-  isActive: Joi.boolean().default(true)
+  isActive: Joi.boolean().default(true),
+  requiresMfa: Joi.boolean().default(false)
 });
 
 const updateRoleSchema = Joi.object({
   name: Joi.string().min(2).max(100),
   description: Joi.string().max(500),
-  isActive: Joi.boolean()
+  isActive: Joi.boolean(),
+  requiresMfa: Joi.boolean()
+});
+
+const assignPermissionSchema = Joi.object({
+  effect: Joi.string().valid('allow', 'deny').default('allow'),
+  condition: Joi.string().max(1000)
 });
 
 export class RoleController {
@@ -25,7 +35,22 @@ export class RoleController {
         return;
       }
 
-      const role = await this.rbacService.createRole(value);
+      // Roles created within an organization belong to it
+      const existingRole = await this.rbacService.getRoleByName(value.name, req.tenantId);
+      if (existingRole) {
+        res.status(409).json({ error: 'Role já existe' });
+        return;
+      }
+
+      const role = await this.rbacService.createRole({ ...value, organizationId: req.tenantId });
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.create',
+        targetType: 'role',
+        targetId: role.id,
+        after: role
+      });
 
       res.status(201).json({
         message: 'Role criada com sucesso',
@@ -34,6 +59,8 @@ export class RoleController {
           name: role.name,
           description: role.description,
           isActive: role.isActive,
+          organizationId: role.organizationId,
+          requiresMfa: role.requiresMfa,
           createdAt: role.createdAt
         }
       });
@@ -48,8 +75,8 @@ export class RoleController {
       const limit = parseInt(req.query.limit as string) || 10;
       const offset = (page - 1) * limit;
 
-      const roles = await this.rbacService.listRoles(limit, offset);
-      const total = await this.rbacService.getRolesCount();
+      const roles = await this.rbacService.listRoles(limit, offset, req.tenantId);
+      const total = await this.rbacService.getRolesCount(req.tenantId);
 
       res.json({
         data: roles,
@@ -68,19 +95,21 @@ export class RoleController {
   async getRoleById(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const role = await this.rbacService.getRoleById(id);
-
+      const role = await this.findScopedRole(req, res, id, 'read');
       if (!role) {
-        res.status(404).json({ error: 'Role não encontrada' });
         return;
       }
 
+      const parents = await this.rbacService.getParentRoles(id);
       const permissions = await this.rbacService.getRolePermissions(id);
+      const inheritedPermissions = await this.rbacService.getInheritedRolePermissions(id);
 
       res.json({
         data: {
           role,
-          permissions
+          parents,
+          permissions,
+          inheritedPermissions
         }
       });
     } catch (error) {
@@ -98,12 +127,34 @@ export class RoleController {
         return;
       }
 
+      const role = await this.findScopedRole(req, res, id, 'write');
+      if (!role) {
+        return;
+      }
+
+      if (value.name) {
+        const existingRole = await this.rbacService.getRoleByName(value.name, role.organizationId);
+        if (existingRole && existingRole.id !== id) {
+          res.status(409).json({ error: 'Role já existe' });
+          return;
+        }
+      }
+
       const updatedRole = await this.rbacService.updateRole(id, value);
       if (!updatedRole) {
         res.status(404).json({ error: 'Role não encontrada' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.update',
+        targetType: 'role',
+        targetId: id,
+        before: role,
+        after: updatedRole
+      });
+
       res.json({
         message: 'Role atualizada com sucesso',
         data: updatedRole
@@ -116,6 +167,11 @@ export class RoleController {
   async deleteRole(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
+      const role = await this.findScopedRole(req, res, id, 'write');
+      if (!role) {
+        return;
+      }
+
       const deleted = await this.rbacService.deleteRole(id);
 
       if (!deleted) {
@@ -123,6 +179,14 @@ export class RoleController {
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.delete',
+        targetType: 'role',
+        targetId: id,
+        before: role
+      });
+
       res.json({ message: 'Role deletada com sucesso' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
@@ -139,14 +203,44 @@ export class RoleController {
         return;
       }
 
-      const success = await this.rbacService.assignPermissionToRole(roleId, permissionId, assignedBy);
+      const { error, value } = assignPermissionSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      if (!(await this.findScopedRole(req, res, roleId, 'write'))) {
+        return;
+      }
+
+      const success = await this.rbacService.assignPermissionToRole(
+        roleId,
+        permissionId,
+        assignedBy,
+        value.effect,
+        value.condition
+      );
       if (!success) {
         res.status(400).json({ error: 'Erro ao atribuir permissão à role' });
         return;
       }
 
-      res.json({ message: 'Permissão atribuída com sucesso' });
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.permission.assign',
+        targetType: 'role',
+        targetId: roleId,
+        after: { permissionId, effect: value.effect, condition: value.condition }
+      });
+
+      res.json({
+        message: value.effect === 'deny' ? 'Permissão negada à role com sucesso' : 'Permissão atribuída com sucesso'
+      });
     } catch (error) {
+      if (error instanceof ConditionSyntaxError) {
+        res.status(400).json({ error: `Condição inválida: ${error.message}` });
+        return;
+      }
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
@@ -154,6 +248,10 @@ export class RoleController {
   async removePermission(req: Request, res: Response): Promise<void> {
     try {
       const { roleId, permissionId } = req.params;
+      if (!(await this.findScopedRole(req, res, roleId, 'write'))) {
+        return;
+      }
+
       const success = await this.rbacService.removePermissionFromRole(roleId, permissionId);
 
       if (!success) {
@@ -161,9 +259,104 @@ export class RoleController {
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.permission.remove',
+        targetType: 'role',
+        targetId: roleId,
+        before: { permissionId }
+      });
+
       res.json({ message: 'Permissão removida com sucesso' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
+
+  async addParentRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { roleId, parentRoleId } = req.params;
+      const assignedBy = req.user?.userId;
+
+      if (!assignedBy) {
+        res.status(401).json({ error: 'Usuário não autenticado' });
+        return;
+      }
+
+      if (!(await this.findScopedRole(req, res, roleId, 'write')) || !(await this.findScopedRole(req, res, parentRoleId, 'read'))) {
+        return;
+      }
+
+      if (await this.rbacService.wouldCreateRoleCycle(roleId, parentRoleId)) {
+        res.status(409).json({ error: 'A herança criaria um ciclo entre roles' });
+        return;
+      }
+
+      const success = await this.rbacService.addParentRole(roleId, parentRoleId, assignedBy);
+      if (!success) {
+        res.status(400).json({ error: 'Erro ao adicionar role pai' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.parent.add',
+        targetType: 'role',
+        targetId: roleId,
+        after: { parentRoleId }
+      });
+
+      res.json({ message: 'Role pai adicionada com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async removeParentRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { roleId, parentRoleId } = req.params;
+      if (!(await this.findScopedRole(req, res, roleId, 'write'))) {
+        return;
+      }
+
+      const success = await this.rbacService.removeParentRole(roleId, parentRoleId);
+
+      if (!success) {
+        res.status(400).json({ error: 'Erro ao remover role pai' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'role.parent.remove',
+        targetType: 'role',
+        targetId: roleId,
+        before: { parentRoleId }
+      });
+
+      res.json({ message: 'Role pai removida com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Finds a role within the request's tenant, sending the error response when it is not accessible
+   * Inside an organization, other organizations' roles are not found and global roles are read-only
+   */
+  private async findScopedRole(req: Request, res: Response, roleId: string, access: 'read' | 'write'): Promise<Role | null> {
+    const role = await this.rbacService.getRoleById(roleId);
+
+    if (!role || (req.tenantId && role.organizationId && role.organizationId !== req.tenantId)) {
+      res.status(404).json({ error: 'Role não encontrada' });
+      return null;
+    }
+
+    if (access === 'write' && req.tenantId && !role.organizationId) {
+      res.status(403).json({ error: 'Roles globais não podem ser alteradas dentro de uma organização' });
+      return null;
+    }
+
+    return role;
+  }
 }
@@ -1,21 +1,38 @@
 import { Request, Response } from 'express';
 import Joi from 'joi';
+import { PasswordPolicyError } from '../services/PasswordPolicy';
 import { RBACService } from '../services/RBACService';
+import { auditContext, userSnapshot } from '../utils/audit';
 
 const createUserSchema = Joi.object({
   username: Joi.string().min(3).max(50).required(),
   email: Joi.string().email().required(),
-  password: Joi.string().min(6).required(),
+  password: Joi.string().required(),
   isActive: Joi.boolean().default(true)
 });
 
 const updateUserSchema = Joi.object({
   username: Joi.string().min(3).max(50),
   email: Joi.string().email(),
-  password: Joi.string().min(6),
+  password: Joi.string(),
   isActive: Joi.boolean()
 });
 
+const listLockoutsSchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+const lockoutKeyTypeSchema = Joi.string().valid('username', 'ip').required();
+
+const assignRoleSchema = Joi.object({
+  validFrom: Joi.date().iso(),
+  validUntil: Joi.date().iso().greater('now').when('validFrom', {
+    is: Joi.exist(),
+    then: Joi.date().greater(Joi.ref('validFrom'))
+  })
+});
+
 export class UserController {
   constructor(private rbacService: RBACService) {}
 
@@ -36,6 +53,21 @@ export class UserController {
 
       const user = await this.rbacService.createUser(value);
 
+      // Users created within an organization join it
+      if (req.tenantId) {
+        await this.rbacService.addOrganizationMember(req.tenantId, user.id);
+      }
+
+      await this.rbacService.sendEmailVerification(user.id);
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'user.create',
+        targetType: 'user',
+        targetId: user.id,
+        after: userSnapshot(user)
+      });
+
       res.status(201).json({
         message: 'Usuário criado com sucesso',
         data: {
@@ -47,6 +79,10 @@ export class UserController {
         }
       });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        res.status(400).json({ error: error.message, violations: error.violations });
+        return;
+      }
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
@@ -57,8 +93,8 @@ export class UserController {
       const limit = parseInt(req.query.limit as string) || 10;
       const offset = (page - 1) * limit;
 
-      const users = await this.rbacService.listUsers(limit, offset);
-      const total = await this.rbacService.getUsersCount();
+      const users = await this.rbacService.listUsers(limit, offset, req.tenantId);
+      const total = await this.rbacService.getUsersCount(req.tenantId);
 
       res.json({
         data: users.map(user => ({
@@ -86,13 +122,14 @@ export class UserController {
       const { id } = req.params;
       const user = await this.rbacService.getUserById(id);
 
-      if (!user) {
+      if (!user || !(await this.isInTenant(req, id))) {
         res.status(404).json({ error: 'Usuário não encontrado' });
         return;
       }
 
-      const roles = await this.rbacService.getUserRoles(id);
-      const permissions = await this.rbacService.getUserPermissions(id);
+      const roles = await this.rbacService.getUserRoles(id, req.tenantId);
+      const permissions = await this.rbacService.getUserPermissions(id, req.tenantId);
+      const deniedPermissions = await this.rbacService.getUserDeniedPermissions(id, req.tenantId);
 
       res.json({
         data: {
@@ -105,7 +142,8 @@ export class UserController {
             updatedAt: user.updatedAt
           },
           roles,
-          permissions
+          permissions,
+          deniedPermissions
         }
       });
     } catch (error) {
@@ -123,12 +161,22 @@ export class UserController {
         return;
       }
 
-      const updatedUser = await this.rbacService.updateUser(id, value);
-      if (!updatedUser) {
+      const user = await this.rbacService.getUserById(id);
+      const updatedUser = user && await this.rbacService.updateUser(id, value);
+      if (!user || !updatedUser) {
         res.status(404).json({ error: 'Usuário não encontrado' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'user.update',
+        targetType: 'user',
+        targetId: id,
+        before: userSnapshot(user),
+        after: userSnapshot(updatedUser)
+      });
+
       res.json({
         message: 'Usuário atualizado com sucesso',
         data: {
@@ -140,6 +188,10 @@ export class UserController {
         }
       });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        res.status(400).json({ error: error.message, violations: error.violations });
+        return;
+      }
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
@@ -147,13 +199,22 @@ export class UserController {
   async deleteUser(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const deleted = await this.rbacService.deleteUser(id);
+      const user = await this.rbacService.getUserById(id);
+      const deleted = user && await this.rbacService.deleteUser(id);
 
-      if (!deleted) {
+      if (!user || !deleted) {
         res.status(404).json({ error: 'Usuário não encontrado' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: id,
+        before: userSnapshot(user)
+      });
+
       res.json({ message: 'Usuário deletado com sucesso' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
@@ -170,12 +231,36 @@ export class UserController {
         return;
       }
 
-      const success = await this.rbacService.assignRoleToUser(userId, roleId, assignedBy);
+      const { error, value } = assignRoleSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      if (!(await this.isInTenant(req, userId))) {
+        res.status(404).json({ error: 'Usuário não encontrado' });
+        return;
+      }
+
+      // Within an organization the assignment only applies to that organization
+      const success = await this.rbacService.assignRoleToUser(userId, roleId, assignedBy, {
+        organizationId: req.tenantId,
+        validFrom: value.validFrom,
+        validUntil: value.validUntil
+      });
       if (!success) {
         res.status(400).json({ error: 'Erro ao atribuir role ao usuário' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'user.role.assign',
+        targetType: 'user',
+        targetId: userId,
+        after: { roleId, validFrom: value.validFrom, validUntil: value.validUntil }
+      });
+
       res.json({ message: 'Role atribuída com sucesso' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
@@ -185,16 +270,83 @@ export class UserController {
   async removeRole(req: Request, res: Response): Promise<void> {
     try {
       const { userId, roleId } = req.params;
-      const success = await this.rbacService.removeRoleFromUser(userId, roleId);
+      const success = await this.rbacService.removeRoleFromUser(userId, roleId, req.tenantId);
 
       if (!success) {
         res.status(400).json({ error: 'Erro ao remover role do usuário' });
         return;
       }
 
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'user.role.remove',
+        targetType: 'user',
+        targetId: userId,
+        before: { roleId }
+      });
+
       res.json({ message: 'Role removida com sucesso' });
     } catch (error) {
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
+
+  async getLoginLockouts(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = listLockoutsSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const { page, limit } = value;
+      const lockouts = await this.rbacService.listLoginLockouts(limit, (page - 1) * limit);
+      const total = await this.rbacService.getLoginLockoutsCount();
+
+      res.json({
+        data: lockouts,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async clearLoginLockout(req: Request, res: Response): Promise<void> {
+    try {
+      const { keyType, key } = req.params;
+      const { error } = lockoutKeyTypeSchema.validate(keyType);
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const cleared = await this.rbacService.clearLoginLockout(keyType as 'username' | 'ip', key);
+      if (!cleared) {
+        res.status(404).json({ error: 'Bloqueio não encontrado' });
+        return;
+      }
+
+      await this.rbacService.recordAuditEvent({
+        ...auditContext(req),
+        action: 'auth.lockout.clear',
+        targetType: keyType,
+        targetId: key
+      });
+
+      res.json({ message: 'Bloqueio removido com sucesso' });
+    } catch (error) {
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  // Within an organization, only its members are visible
+  private async isInTenant(req: Request, userId: string): Promise<boolean> {
+    return !req.tenantId || this.rbacService.isOrganizationMember(req.tenantId, userId);
+  }
 }
@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('refresh_tokens', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('user_id').notNullable();
+    table.string('token_hash', 64).unique().notNullable();
+    table.uuid('family_id').notNullable();
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('used_at');
+    table.timestamp('revoked_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+
+    table.index(['user_id']);
+    table.index(['family_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('refresh_tokens');
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('revoked_tokens', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    // A null jti revokes every token of the user issued up to revoked_at
+    table.string('jti', 64).unique();
+    table.uuid('user_id').notNullable();
+    // Millisecond precision, as token issue times are compared against it
+    table.timestamp('revoked_at', { precision: 3 }).notNullable();
+    table.timestamp('expires_at').notNullable();
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+
+    table.index(['user_id']);
+    table.index(['expires_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('revoked_tokens');
+}
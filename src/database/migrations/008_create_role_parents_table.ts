@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('role_parents', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('role_id').notNullable();
+    table.uuid('parent_role_id').notNullable();
+    table.uuid('assigned_by').notNullable();
+    table.timestamp('assigned_at').defaultTo(knex.fn.now());
+    
+    table.foreign('role_id').references('id').inTable('roles').onDelete('CASCADE');
+    table.foreign('parent_role_id').references('id').inTable('roles').onDelete('CASCADE');
+    table.foreign('assigned_by').references('id').inTable('users').onDelete('CASCADE');
+    
+    table.unique(['role_id', 'parent_role_id']);
+    table.index(['role_id']);
+    table.index(['parent_role_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('role_parents');
+}
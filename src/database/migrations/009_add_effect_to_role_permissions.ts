@@ -0,0 +1,13 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('role_permissions', (table) => {
+    table.string('effect', 10).notNullable().defaultTo('allow');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('role_permissions', (table) => {
+    table.dropColumn('effect');
+  });
+}
@@ -0,0 +1,49 @@
+import { Knex } from 'knex';
+
+/**
+ * Scopes roles, role assignments and refresh tokens to an organization (tenant)
+ * A null organization_id means global: global roles can be assigned in any tenant,
+ * and global assignments apply in every tenant
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('roles', (table) => {
+    table.uuid('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.dropUnique(['name']);
+    table.unique(['name', 'organization_id']);
+    table.index(['organization_id']);
+  });
+
+  await knex.schema.alterTable('user_roles', (table) => {
+    table.uuid('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.dropUnique(['user_id', 'role_id']);
+    table.unique(['user_id', 'role_id', 'organization_id']);
+    table.index(['organization_id']);
+  });
+
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.uuid('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.dropForeign(['organization_id']);
+    table.dropColumn('organization_id');
+  });
+
+  await knex.schema.alterTable('user_roles', (table) => {
+    table.dropIndex(['organization_id']);
+    table.dropUnique(['user_id', 'role_id', 'organization_id']);
+    table.dropForeign(['organization_id']);
+    table.dropColumn('organization_id');
+    table.unique(['user_id', 'role_id']);
+  });
+
+  await knex.schema.alterTable('roles', (table) => {
+    table.dropIndex(['organization_id']);
+    table.dropUnique(['name', 'organization_id']);
+    table.dropForeign(['organization_id']);
+    table.dropColumn('organization_id');
+    table.unique(['name']);
+  });
+}
@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('resource_grants', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('permission_id').notNullable();
+    table.string('resource_id', 255).notNullable();
+    table.string('subject_type', 10).notNullable();
+    table.uuid('subject_id').notNullable();
+    table.uuid('organization_id');
+    table.uuid('granted_by').notNullable();
+    table.timestamp('granted_at').defaultTo(knex.fn.now());
+    
+    table.foreign('permission_id').references('id').inTable('permissions').onDelete('CASCADE');
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.foreign('granted_by').references('id').inTable('users').onDelete('CASCADE');
+    
+    table.unique(['permission_id', 'resource_id', 'subject_type', 'subject_id', 'organization_id']);
+    table.index(['resource_id']);
+    table.index(['subject_type', 'subject_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('resource_grants');
+}
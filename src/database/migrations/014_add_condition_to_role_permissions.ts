@@ -0,0 +1,13 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('role_permissions', (table) => {
+    table.text('condition');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('role_permissions', (table) => {
+    table.dropColumn('condition');
+  });
+}
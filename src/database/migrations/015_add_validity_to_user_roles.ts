@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+/**
+ * Adds an optional validity window to role assignments
+ * Assignments outside [valid_from, valid_until) are ignored; expired ones are removed by the
+ * assignment sweeper and, when archiving is enabled, moved to user_role_archive
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('user_roles', (table) => {
+    table.timestamp('valid_from');
+    table.timestamp('valid_until');
+    table.index(['valid_until']);
+  });
+
+  await knex.schema.createTable('user_role_archive', (table) => {
+    table.uuid('id').primary();
+    table.uuid('user_id').notNullable();
+    table.uuid('role_id').notNullable();
+    table.uuid('organization_id');
+    table.uuid('assigned_by').notNullable();
+    table.timestamp('assigned_at');
+    table.timestamp('valid_from');
+    table.timestamp('valid_until');
+    table.timestamp('expired_at').defaultTo(knex.fn.now());
+
+    table.index(['user_id']);
+    table.index(['role_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('user_role_archive');
+
+  await knex.schema.alterTable('user_roles', (table) => {
+    table.dropIndex(['valid_until']);
+    table.dropColumn('valid_from');
+    table.dropColumn('valid_until');
+  });
+}
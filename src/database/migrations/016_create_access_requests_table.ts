@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('access_requests', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('user_id').notNullable();
+    table.uuid('role_id').notNullable();
+    table.uuid('organization_id');
+    table.text('reason').notNullable();
+    table.string('duration', 50).notNullable();
+    table.string('status', 20).notNullable().defaultTo('pending');
+    table.uuid('decided_by');
+    table.text('decision_reason');
+    table.timestamp('decided_at');
+    table.timestamp('expires_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.foreign('role_id').references('id').inTable('roles').onDelete('CASCADE');
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.foreign('decided_by').references('id').inTable('users').onDelete('SET NULL');
+    
+    table.index(['user_id']);
+    table.index(['status']);
+    table.index(['organization_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('access_requests');
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+/**
+ * Append-only log of administrative changes and authentication events
+ * Rows are never updated or deleted by the application; actors and targets are kept
+ * as plain IDs so events survive the removal of what they refer to
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('audit_events', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('actor_id');
+    table.string('action', 100).notNullable();
+    table.string('target_type', 50).notNullable();
+    table.string('target_id', 255);
+    table.uuid('organization_id');
+    table.text('before');
+    table.text('after');
+    table.string('ip_address', 45);
+    table.string('user_agent', 500);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['actor_id']);
+    table.index(['target_type', 'target_id']);
+    table.index(['action']);
+    table.index(['created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('audit_events');
+}
@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('authorization_decisions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('user_id').notNullable();
+    table.uuid('organization_id');
+    table.string('kind', 20).notNullable();
+    table.string('check', 500).notNullable();
+    table.boolean('allowed').notNullable();
+    table.string('route', 500);
+    table.float('latency_ms').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'allowed', 'created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('authorization_decisions');
+}
@@ -0,0 +1,58 @@
+import { Knex } from 'knex';
+
+/**
+ * Adds TOTP multi-factor authentication
+ * user_mfa holds each user's authenticator secret (enabled once the first code is confirmed),
+ * mfa_recovery_codes the hashed one-time recovery codes, and mfa_challenges the pending
+ * second steps of logins; roles.requires_mfa makes the second factor mandatory for holders
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('roles', (table) => {
+    table.boolean('requires_mfa').notNullable().defaultTo(false);
+  });
+
+  await knex.schema.createTable('user_mfa', (table) => {
+    table.uuid('user_id').primary();
+    table.string('secret', 64).notNullable();
+    table.timestamp('enabled_at');
+    table.bigInteger('last_used_step');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+  });
+
+  await knex.schema.createTable('mfa_recovery_codes', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('user_id').notNullable();
+    table.string('code_hash', 64).notNullable();
+    table.timestamp('used_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index(['user_id', 'code_hash']);
+  });
+
+  await knex.schema.createTable('mfa_challenges', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('user_id').notNullable();
+    table.string('token_hash', 64).notNullable().unique();
+    table.uuid('organization_id');
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('used_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('mfa_challenges');
+  await knex.schema.dropTable('mfa_recovery_codes');
+  await knex.schema.dropTable('user_mfa');
+
+  await knex.schema.alterTable('roles', (table) => {
+    table.dropColumn('requires_mfa');
+  });
+}
@@ -0,0 +1,37 @@
+import { Knex } from 'knex';
+
+/**
+ * Adds email verification and single-use tokens sent by email
+ * user_tokens holds hashed password reset and email verification tokens; verification
+ * tokens remember the address they were sent to
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.timestamp('email_verified_at');
+  });
+
+  // Existing accounts are treated as verified so enabling verification does not lock them out
+  await knex('users').update({ email_verified_at: knex.ref('created_at') });
+
+  await knex.schema.createTable('user_tokens', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(2))) || \'-\' || lower(hex(randomblob(6))))'));
+    table.uuid('user_id').notNullable();
+    table.string('purpose', 30).notNullable();
+    table.string('token_hash', 64).notNullable().unique();
+    table.string('email', 255);
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('used_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index(['user_id', 'purpose']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('user_tokens');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('email_verified_at');
+  });
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+/**
+ * Tracks failed logins per username and per IP address
+ * locked_until holds both the progressive delay and the lockout; times are ISO-8601 strings
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('login_throttles', (table) => {
+    table.string('key_type', 20).notNullable();
+    table.string('key', 255).notNullable();
+    table.integer('failures').notNullable().defaultTo(0);
+    table.timestamp('last_failure_at').notNullable();
+    table.timestamp('locked_until');
+
+    table.primary(['key_type', 'key']);
+    table.index(['locked_until']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('login_throttles');
+}
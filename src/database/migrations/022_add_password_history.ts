@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+/**
+ * Adds password ageing and reuse history
+ * password_history keeps the hashes of the latest passwords of each user, newest with the highest id
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.timestamp('password_changed_at');
+  });
+
+  // Existing passwords are considered set when their account was created
+  await knex('users').update({ password_changed_at: knex.ref('created_at') });
+
+  await knex.schema.createTable('password_history', (table) => {
+    table.increments('id').primary();
+    table.uuid('user_id').notNullable();
+    table.string('password_hash', 255).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index(['user_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('password_history');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('password_changed_at');
+  });
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+/**
+ * Stores the JWT signing keys generated by key rotation, so restarts and replicas share them
+ * activates_at is when a key starts signing; times are ISO-8601 strings
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('signing_keys', (table) => {
+    table.string('kid', 64).primary();
+    table.string('algorithm', 10).notNullable();
+    table.text('private_key').notNullable();
+    table.text('public_key').notNullable();
+    table.timestamp('activates_at').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['activates_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('signing_keys');
+}
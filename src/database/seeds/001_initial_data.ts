@@ -2,10 +2,27 @@ import { Knex } from 'knex';
 
 export async function seed(knex: Knex): Promise<void> {
   // Deletes ALL existing entries
+  await knex('signing_keys').del();
+  await knex('password_history').del();
+  await knex('login_throttles').del();
+  await knex('user_tokens').del();
+  await knex('mfa_challenges').del();
+  await knex('mfa_recovery_codes').del();
+  await knex('user_mfa').del();
+  await knex('authorization_decisions').del();
+  await knex('audit_events').del();
+  await knex('access_requests').del();
+  await knex('revoked_tokens').del();
+  await knex('refresh_tokens').del();
+  await knex('resource_grants').del();
+  await knex('user_role_archive').del();
+  await knex('role_parents').del();
   await knex('role_permissions').del();
   await knex('user_roles').del();
   await knex('permissions').del();
   await knex('roles').del();
+  await knex('organization_members').del();
+  await knex('organizations').del();
   await knex('users').del();
 
   // Insert initial users
@@ -189,6 +206,33 @@ export async function seed(knex: Knex): Promise<void> {
       resource: 'content',
       action: 'delete',
       description: 'Deletar conteúdo'
+    },
+
+    // Organization permissions
+    {
+      id: 'perm-20',
+      name: 'organizations:manage',
+      resource: 'organizations',
+      action: 'manage',
+      description: 'Gerenciar organizações e seus membros'
+    },
+
+    // Access request permissions
+    {
+      id: 'perm-21',
+      name: 'access-requests:approve',
+      resource: 'access-requests',
+      action: 'approve',
+      description: 'Aprovar ou rejeitar solicitações de acesso temporário'
+    },
+
+    // Audit permissions
+    {
+      id: 'perm-22',
+      name: 'audit:read',
+      resource: 'audit',
+      action: 'read',
+      description: 'Consultar o log de auditoria'
     }
   ]).returning('*');
 
@@ -228,9 +272,16 @@ export async function seed(knex: Knex): Promise<void> {
     });
   }
 
-  // Assign manager permissions to manager role
+  // Manager inherits everything the user role has
+  await knex('role_parents').insert({
+    role_id: managerRole.id,
+    parent_role_id: userRole.id,
+    assigned_by: adminUser.id
+  });
+
+  // Assign manager-only permissions to manager role (content:read comes from the user role)
   const managerPermissions = permissions.filter(p => 
-    p.resource === 'content' || 
+    (p.resource === 'content' && p.action !== 'read') || 
     (p.resource === 'users' && p.action === 'read')
   );
   
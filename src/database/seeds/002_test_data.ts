@@ -9,10 +9,27 @@ export async function seed(knex: Knex): Promise<void> {
   }
 
   // Deletes ALL existing entries
+  await knex('signing_keys').del();
+  await knex('password_history').del();
+  await knex('login_throttles').del();
+  await knex('user_tokens').del();
+  await knex('mfa_challenges').del();
+  await knex('mfa_recovery_codes').del();
+  await knex('user_mfa').del();
+  await knex('authorization_decisions').del();
+  await knex('audit_events').del();
+  await knex('access_requests').del();
+  await knex('revoked_tokens').del();
+  await knex('refresh_tokens').del();
+  await knex('resource_grants').del();
+  await knex('user_role_archive').del();
+  await knex('role_parents').del();
   await knex('role_permissions').del();
   await knex('user_roles').del();
   await knex('permissions').del();
   await knex('roles').del();
+  await knex('organization_members').del();
+  await knex('organizations').del();
   await knex('users').del();
 
   // Insert test users
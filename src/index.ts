@@ -3,6 +3,17 @@ export { RBACService } from './services/RBACService';
 export { AuthMiddleware } from './middleware/auth';
 export { RBACClient } from './sdk/RBACClient';
 export { RBACMiddleware } from './sdk/middleware';
+export { LocalTokenVerifier } from './sdk/LocalTokenVerifier';
+export { parsePermissionName, permissionMatches, anyPermissionNameMatches, formatPermissionCheck } from './utils/permissions';
+export { evaluateCondition, validateCondition, ConditionSyntaxError, ConditionEvaluationError } from './utils/conditions';
+export { generateTotp, verifyTotp, buildOtpauthUri } from './utils/totp';
+export { DecisionLogger, FileDecisionSink } from './services/DecisionLogger';
+export { PermissionCache, LRUPermissionCacheAdapter } from './services/PermissionCache';
+export { InProcessInvalidationBus, PostgresInvalidationBus } from './services/InvalidationBus';
+export { ConsoleMailer, FileMailer } from './services/Mailer';
+export { LoginThrottle, LoginThrottledError } from './services/LoginThrottle';
+export { PasswordPolicy, PasswordPolicyError } from './services/PasswordPolicy';
+export { PasswordHashing, BcryptHasher, ScryptHasher, Argon2Hasher } from './services/PasswordHasher';
 export { DatabaseConnection } from './database/connection';
 
 // Type exports
@@ -10,17 +21,67 @@ export type {
   User,
   Role,
   Permission,
+  PermissionEffect,
+  GrantedPermission,
+  Organization,
   UserRole,
   RolePermission,
+  RoleParent,
+  ResourceGrant,
+  ResourceGrantSubjectType,
+  AccessRequest,
+  AccessRequestStatus,
+  AccessRequestFilters,
+  AuditEvent,
+  AuditEventFilters,
+  AuthorizationDecision,
+  AuthorizationDecisionKind,
+  AuthorizationExplanation,
+  RoleTrace,
+  RoleTraceStatus,
+  GrantTrace,
+  GrantTraceOutcome,
+  DecisionSink,
+  CachedUserAuthorization,
+  PermissionCacheAdapter,
+  PermissionCacheStats,
+  PermissionInvalidation,
+  InvalidationBus,
+  RefreshToken,
+  LoginThrottleEntry,
+  LoginThrottleKeyType,
+  PasswordPolicyViolation,
+  PasswordPolicyViolationCode,
+  PasswordHasher,
+  UserToken,
+  UserTokenPurpose,
+  MailMessage,
+  Mailer,
+  UserMfa,
+  MfaChallenge,
+  MfaChallengeResult,
+  MfaEnrollment,
   JWTPayload,
   AuthResult,
   PermissionCheck,
-  RBACConfig
+  AuthorizationContext,
+  ConditionAttributes,
+  ConditionContext,
+  RoleAssignmentOptions,
+  RBACConfig,
+  JWTAlgorithm,
+  JWTKeyConfig,
+  SigningKey
 } from './types';
 
+export type { PermissionRequirementOptions } from './middleware/auth';
+export type { TokenRevocationStore } from './services/TokenRevocationStore';
+export type { JSONWebKey, JSONWebKeySet } from './services/KeyManager';
+
 // SDK exports
 export type { RBACClientConfig } from './sdk/RBACClient';
-export type { RBACMiddlewareConfig } from './sdk/middleware';
+export type { RBACMiddlewareConfig, TokenVerificationConfig } from './sdk/middleware';
+export type { LocalVerificationOptions } from './sdk/LocalTokenVerifier';
 
 // Default export for easy importing
 export default {
@@ -1,6 +1,8 @@
 import { NextFunction, Request, Response } from 'express';
+import { performance } from 'perf_hooks';
 import { RBACService } from '../services/RBACService';
-import { JWTPayload, PermissionCheck } from '../types';
+import { AuthorizationDecisionKind, ConditionContext, JWTPayload, PermissionCheck } from '../types';
+import { formatPermissionCheck } from '../utils/permissions';
 
 /**
  * Extend Express Request interface to include user data
@@ -13,10 +15,25 @@ declare global {
       user?: JWTPayload;
       /** RBAC service instance for authorization checks */
       rbacService?: RBACService;
+      /** Organization the request is evaluated in (from the token or the tenant header) */
+      tenantId?: string;
     }
   }
 }
 
+/**
+ * Options for permission requirements
+ */
+export interface PermissionRequirementOptions {
+  /** Pulls the ID of the accessed resource instance from the request (e.g. `req => req.params.id`) */
+  resourceId?: (req: Request) => string | undefined;
+  /** Builds the subject/resource/environment attributes conditional grants are evaluated against */
+  context?: (req: Request) => ConditionContext | Promise<ConditionContext>;
+}
+
+/** Header used to select an organization when the token is not scoped to one */
+export const TENANT_HEADER = 'x-tenant-id';
+
 /**
  * Authentication and Authorization Middleware
  * Provides JWT token verification and role/permission-based access control
@@ -30,8 +47,10 @@ export class AuthMiddleware {
 
   /**
    * Middleware to verify JWT token
-   * Extracts and validates JWT token from Authorization header
+   * Extracts and validates JWT token from Authorization header, rejecting revoked tokens
    * Sets user data in request object for subsequent middleware/handlers
+   * The tenant is taken from the token's `tenantId` claim, or else from the `X-Tenant-ID` header
+   * when the user is a member of that organization
    */
   verifyToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -43,21 +62,53 @@ export class AuthMiddleware {
       }
 
       const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-      const payload = this.rbacService.verifyToken(token);
+      const payload = await this.rbacService.validateToken(token);
 
       if (!payload) {
         res.status(401).json({ error: 'Token inválido ou expirado' });
         return;
       }
 
+      const tenantHeader = req.headers[TENANT_HEADER] as string | undefined;
+      if (payload.tenantId && tenantHeader && tenantHeader !== payload.tenantId) {
+        res.status(403).json({ error: 'Token não pertence a esta organização' });
+        return;
+      }
+
+      if (!payload.tenantId && tenantHeader && !(await this.rbacService.canAccessOrganization(tenantHeader, payload.userId))) {
+        res.status(403).json({ error: 'Acesso negado à organização' });
+        return;
+      }
+
       req.user = payload;
       req.rbacService = this.rbacService;
+      req.tenantId = payload.tenantId || tenantHeader;
       next();
     } catch (error) {
       res.status(401).json({ error: 'Erro na verificação do token' });
     }
   };
 
+  /**
+   * Middleware to authenticate a service by its API key (see `serviceAuth` in the RBAC configuration)
+   * Service calls act on behalf of no user, so `req.user` is left unset
+   */
+  verifyServiceCredential = (req: Request, res: Response, next: NextFunction): void => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Credencial de serviço não fornecida' });
+      return;
+    }
+
+    if (!this.rbacService.isValidServiceKey(authHeader.substring(7))) {
+      res.status(401).json({ error: 'Credencial de serviço inválida' });
+      return;
+    }
+
+    next();
+  };
+
   /**
    * Middleware factory to check if user has a specific role
    * @param roleName - Name of the required role
@@ -71,7 +122,9 @@ export class AuthMiddleware {
           return;
         }
 
-        const hasRole = await this.rbacService.hasRole(req.user.userId, roleName);
+        const startedAt = performance.now();
+        const hasRole = await this.rbacService.hasRole(req.user.userId, roleName, { tenantId: req.tenantId });
+        this.recordDecision(req, 'role', roleName, hasRole, startedAt);
         
         if (!hasRole) {
           res.status(403).json({ error: `Acesso negado. Role '${roleName}' é necessária` });
@@ -86,11 +139,14 @@ export class AuthMiddleware {
   };
 
   /**
-   * Middleware factory to check if user has a specific permission
+   * Middleware factory to check if user has a specific permission within the request's tenant
+   * With a `resourceId` resolver, instance-level grants on the resolved resource are honored too
+   * With a `context` builder, conditional grants are evaluated against the attributes it returns
    * @param permissionCheck - Permission to check (resource and action)
+   * @param options - Permission requirement options
    * @returns Express middleware function
    */
-  requirePermission = (permissionCheck: PermissionCheck) => {
+  requirePermission = (permissionCheck: PermissionCheck, options: PermissionRequirementOptions = {}) => {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
       try {
         if (!req.user) {
@@ -98,10 +154,15 @@ export class AuthMiddleware {
           return;
         }
 
+        const resourceId = options.resourceId ? options.resourceId(req) : permissionCheck.resourceId;
+        const context = options.context ? await options.context(req) : {};
+        const startedAt = performance.now();
         const hasPermission = await this.rbacService.hasPermission(
           req.user.userId, 
-          permissionCheck
+          { ...permissionCheck, resourceId },
+          { ...context, tenantId: req.tenantId }
         );
+        this.recordDecision(req, 'permission', formatPermissionCheck({ ...permissionCheck, resourceId }), hasPermission, startedAt);
         
         if (!hasPermission) {
           res.status(403).json({ 
@@ -117,6 +178,19 @@ export class AuthMiddleware {
     };
   };
 
+  /**
+   * Middleware to reject requests evaluated within an organization
+   * Guards operations on data shared by every organization (permission catalog, user accounts, organizations)
+   */
+  requireGlobalScope = (req: Request, res: Response, next: NextFunction): void => {
+    if (req.tenantId) {
+      res.status(403).json({ error: 'Operação não permitida dentro de uma organização' });
+      return;
+    }
+
+    next();
+  };
+
   // Middleware to check if user has any of the specified roles
   requireAnyRole = (roleNames: string[]) => {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -126,11 +200,14 @@ export class AuthMiddleware {
           return;
         }
 
+        const startedAt = performance.now();
         const hasAnyRole = await Promise.all(
-          roleNames.map(roleName => this.rbacService.hasRole(req.user!.userId, roleName))
+          roleNames.map(roleName => this.rbacService.hasRole(req.user!.userId, roleName, { tenantId: req.tenantId }))
         );
+        const allowed = hasAnyRole.some(hasRole => hasRole);
+        this.recordDecision(req, 'any_role', roleNames.join(','), allowed, startedAt);
 
-        if (!hasAnyRole.some(hasRole => hasRole)) {
+        if (!allowed) {
           res.status(403).json({ 
             error: `Acesso negado. Uma das roles é necessária: ${roleNames.join(', ')}` 
           });
@@ -153,13 +230,12 @@ export class AuthMiddleware {
           return;
         }
 
-        const hasAnyPermission = await Promise.all(
-          permissionChecks.map(permissionCheck => 
-            this.rbacService.hasPermission(req.user!.userId, permissionCheck)
-          )
-        );
+        const startedAt = performance.now();
+        const hasAnyPermission = await this.rbacService.hasPermissions(req.user.userId, permissionChecks, { tenantId: req.tenantId });
+        const allowed = hasAnyPermission.some(hasPermission => hasPermission);
+        this.recordDecision(req, 'any_permission', permissionChecks.map(formatPermissionCheck).join(','), allowed, startedAt);
 
-        if (!hasAnyPermission.some(hasPermission => hasPermission)) {
+        if (!allowed) {
           res.status(403).json({ 
             error: 'Acesso negado. Pelo menos uma das permissões é necessária' 
           });
@@ -184,4 +260,37 @@ export class AuthMiddleware {
 
   // Middleware to check if user can manage permissions
   requirePermissionManagement = this.requirePermission({ resource: 'permissions', action: 'manage' });
+
+  // Middleware to check if user can manage organizations
+  requireOrganizationManagement = this.requirePermission({ resource: 'organizations', action: 'manage' });
+
+  // Middleware to check if user can read the audit log
+  requireAuditAccess = this.requirePermission({ resource: 'audit', action: 'read' });
+
+  // Middleware to check if user can decide access requests (permission set by `accessRequests.approverPermission`)
+  requireAccessApproval = (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    return this.requirePermission(this.rbacService.getAccessApproverPermission())(req, res, next);
+  };
+
+  // Hands the decision to the decision log without delaying the response
+  private recordDecision(
+    req: Request,
+    kind: AuthorizationDecisionKind,
+    check: string,
+    allowed: boolean,
+    startedAt: number
+  ): void {
+    void this.rbacService.recordAuthorizationDecision({
+      userId: req.user!.userId,
+      organizationId: req.tenantId,
+      kind,
+      check,
+      allowed,
+      // Route templates keep IDs out of the log (e.g. 'DELETE /api/users/:id')
+      route: req.method && `${req.method} ${req.baseUrl || ''}${req.route?.path ?? req.path ?? ''}`,
+      latencyMs: performance.now() - startedAt,
+      timestamp: new Date()
+    });
+  }
 }
+
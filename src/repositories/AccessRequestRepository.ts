@@ -0,0 +1,148 @@
+import { Knex } from 'knex';
+import { AccessRequest, AccessRequestFilters, AccessRequestStatus } from '../types';
+
+/**
+ * Repository for AccessRequest entity operations
+ * Handles just-in-time role elevation requests and their decisions
+ */
+export class AccessRequestRepository {
+  /**
+   * Creates a new AccessRequestRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Files a new pending request
+   * @param requestData - Requester, role, scope, reason and duration
+   * @returns Promise<AccessRequest> - The stored request
+   */
+  async create(requestData: Pick<AccessRequest, 'userId' | 'roleId' | 'organizationId' | 'reason' | 'duration'>): Promise<AccessRequest> {
+    const [request] = await this.knex('access_requests')
+      .insert({
+        user_id: requestData.userId,
+        role_id: requestData.roleId,
+        organization_id: requestData.organizationId || null,
+        reason: requestData.reason,
+        duration: requestData.duration,
+        status: 'pending',
+        // Written as ISO-8601 so history sorts correctly on every supported database
+        created_at: new Date().toISOString()
+      })
+      .returning('*');
+
+    return this.mapAccessRequest(request);
+  }
+
+  /**
+   * Finds a request by its ID
+   * @param id - The request's unique identifier
+   * @returns Promise<AccessRequest | null> - The request if found, null otherwise
+   */
+  async findById(id: string): Promise<AccessRequest | null> {
+    const request = await this.knex('access_requests')
+      .where({ id })
+      .first();
+
+    return request ? this.mapAccessRequest(request) : null;
+  }
+
+  /**
+   * Finds the pending request of a user for a role in a scope, if any
+   * @param userId - ID of the requester
+   * @param roleId - ID of the requested role
+   * @param organizationId - Organization of the request; global when omitted
+   * @returns Promise<AccessRequest | null> - The pending request if found, null otherwise
+   */
+  async findPending(userId: string, roleId: string, organizationId?: string): Promise<AccessRequest | null> {
+    const request = await this.knex('access_requests')
+      .where({ user_id: userId, role_id: roleId, organization_id: organizationId || null, status: 'pending' })
+      .first();
+
+    return request ? this.mapAccessRequest(request) : null;
+  }
+
+  /**
+   * Lists requests, newest first
+   * @param filters - Status, requester, role and organization filters
+   * @param limit - Maximum number of requests to return
+   * @param offset - Number of requests to skip
+   * @returns Promise<AccessRequest[]> - Matching requests
+   */
+  async list(filters: AccessRequestFilters = {}, limit: number = 50, offset: number = 0): Promise<AccessRequest[]> {
+    const requests = await this.filteredQuery(filters)
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .offset(offset);
+
+    return requests.map(request => this.mapAccessRequest(request));
+  }
+
+  /**
+   * Counts requests
+   * @param filters - Status, requester, role and organization filters
+   * @returns Promise<number> - Number of matching requests
+   */
+  async count(filters: AccessRequestFilters = {}): Promise<number> {
+    const result = await this.filteredQuery(filters).count('* as count').first();
+    return parseInt(result?.count as string) || 0;
+  }
+
+  /**
+   * Records the decision on a request that is still pending
+   * @param id - The request's unique identifier
+   * @param decision - Outcome, approver, justification and (for approvals) end of the granted assignment
+   * @returns Promise<AccessRequest | null> - The decided request, or null if it was not pending
+   */
+  async decide(
+    id: string,
+    decision: { status: Exclude<AccessRequestStatus, 'pending'>; decidedBy: string; decisionReason?: string; expiresAt?: Date }
+  ): Promise<AccessRequest | null> {
+    const [request] = await this.knex('access_requests')
+      .where({ id, status: 'pending' })
+      .update({
+        status: decision.status,
+        decided_by: decision.decidedBy,
+        decision_reason: decision.decisionReason || null,
+        // Written as ISO-8601 so they read back as the same instants on every supported database
+        decided_at: new Date().toISOString(),
+        expires_at: decision.expiresAt ? decision.expiresAt.toISOString() : null
+      })
+      .returning('*');
+
+    return request ? this.mapAccessRequest(request) : null;
+  }
+
+  private filteredQuery(filters: AccessRequestFilters) {
+    const query = this.knex('access_requests')
+      .where('organization_id', filters.organizationId || null);
+
+    if (filters.status) query.where('status', filters.status);
+    if (filters.userId) query.where('user_id', filters.userId);
+    if (filters.roleId) query.where('role_id', filters.roleId);
+
+    return query;
+  }
+
+  /**
+   * Maps database access request record to AccessRequest entity
+   * @param request - Raw database access request record
+   * @returns AccessRequest - Mapped AccessRequest entity
+   */
+  private mapAccessRequest(request: any): AccessRequest {
+    return {
+      id: request.id,
+      userId: request.user_id,
+      roleId: request.role_id,
+      organizationId: request.organization_id || undefined,
+      reason: request.reason,
+      duration: request.duration,
+      status: request.status,
+      decidedBy: request.decided_by || undefined,
+      decisionReason: request.decision_reason || undefined,
+      decidedAt: request.decided_at ? new Date(request.decided_at) : undefined,
+      expiresAt: request.expires_at ? new Date(request.expires_at) : undefined,
+      createdAt: request.created_at
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { Knex } from 'knex';
+import { AuditEvent, AuditEventFilters } from '../types';
+
+/**
+ * Repository for AuditEvent entity operations
+ * The audit log is append-only: events can be recorded and queried, never changed
+ */
+export class AuditEventRepository {
+  /**
+   * Creates a new AuditEventRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Appends an event to the log
+   * @param eventData - Event data without id and createdAt
+   * @returns Promise<AuditEvent> - The recorded event
+   */
+  async append(eventData: Omit<AuditEvent, 'id' | 'createdAt'>): Promise<AuditEvent> {
+    const [event] = await this.knex('audit_events')
+      .insert({
+        actor_id: eventData.actorId || null,
+        action: eventData.action,
+        target_type: eventData.targetType,
+        target_id: eventData.targetId || null,
+        organization_id: eventData.organizationId || null,
+        before: eventData.before ? JSON.stringify(eventData.before) : null,
+        after: eventData.after ? JSON.stringify(eventData.after) : null,
+        ip_address: eventData.ipAddress || null,
+        user_agent: eventData.userAgent || null,
+        // Written as ISO-8601 so time range filters compare correctly on every supported database
+        created_at: new Date().toISOString()
+      })
+      .returning('*');
+
+    return this.mapAuditEvent(event);
+  }
+
+  /**
+   * Lists events, newest first
+   * @param filters - Actor, action, target, organization and time range filters
+   * @param limit - Maximum number of events to return
+   * @param offset - Number of events to skip
+   * @returns Promise<AuditEvent[]> - Matching events
+   */
+  async list(filters: AuditEventFilters = {}, limit: number = 50, offset: number = 0): Promise<AuditEvent[]> {
+    const events = await this.filteredQuery(filters)
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .offset(offset);
+
+    return events.map(event => this.mapAuditEvent(event));
+  }
+
+  /**
+   * Counts events
+   * @param filters - Actor, action, target, organization and time range filters
+   * @returns Promise<number> - Number of matching events
+   */
+  async count(filters: AuditEventFilters = {}): Promise<number> {
+    const result = await this.filteredQuery(filters).count('* as count').first();
+    return parseInt(result?.count as string) || 0;
+  }
+
+  private filteredQuery(filters: AuditEventFilters) {
+    const query = this.knex('audit_events');
+
+    if (filters.actorId) query.where('actor_id', filters.actorId);
+    if (filters.action) query.where('action', filters.action);
+    if (filters.targetType) query.where('target_type', filters.targetType);
+    if (filters.targetId) query.where('target_id', filters.targetId);
+    if (filters.organizationId) query.where('organization_id', filters.organizationId);
+    if (filters.from) query.where('created_at', '>=', filters.from.toISOString());
+    if (filters.to) query.where('created_at', '<=', filters.to.toISOString());
+
+    return query;
+  }
+
+  /**
+   * Maps database audit event record to AuditEvent entity
+   * @param event - Raw database audit event record
+   * @returns AuditEvent - Mapped AuditEvent entity
+   */
+  private mapAuditEvent(event: any): AuditEvent {
+    return {
+      id: event.id,
+      actorId: event.actor_id || undefined,
+      action: event.action,
+      targetType: event.target_type,
+      targetId: event.target_id || undefined,
+      organizationId: event.organization_id || undefined,
+      before: event.before ? JSON.parse(event.before) : undefined,
+      after: event.after ? JSON.parse(event.after) : undefined,
+      ipAddress: event.ip_address || undefined,
+      userAgent: event.user_agent || undefined,
+      createdAt: new Date(event.created_at)
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { Knex } from 'knex';
+import { AuthorizationDecision, DecisionSink } from '../types';
+
+/**
+ * Database-backed authorization decision sink
+ * Decisions are queryable, which the recent denials route relies on
+ */
+export class AuthorizationDecisionRepository implements DecisionSink {
+  /**
+   * Creates a new AuthorizationDecisionRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  async write(decision: AuthorizationDecision): Promise<void> {
+    await this.knex('authorization_decisions').insert({
+      user_id: decision.userId,
+      organization_id: decision.organizationId || null,
+      kind: decision.kind,
+      check: decision.check,
+      allowed: decision.allowed,
+      route: decision.route || null,
+      latency_ms: decision.latencyMs,
+      created_at: decision.timestamp.toISOString()
+    });
+  }
+
+  async getRecentDenials(userId: string, limit: number, organizationId?: string): Promise<AuthorizationDecision[]> {
+    const query = this.knex('authorization_decisions')
+      .where({ user_id: userId, allowed: false })
+      .orderBy('created_at', 'desc')
+      .limit(limit);
+
+    if (organizationId) {
+      query.where('organization_id', organizationId);
+    }
+
+    const decisions = await query;
+    return decisions.map(decision => this.mapDecision(decision));
+  }
+
+  /**
+   * Maps database decision record to AuthorizationDecision entity
+   * @param decision - Raw database decision record
+   * @returns AuthorizationDecision - Mapped AuthorizationDecision entity
+   */
+  private mapDecision(decision: any): AuthorizationDecision {
+    return {
+      userId: decision.user_id,
+      organizationId: decision.organization_id || undefined,
+      kind: decision.kind,
+      check: decision.check,
+      allowed: Boolean(decision.allowed),
+      route: decision.route || undefined,
+      latencyMs: Number(decision.latency_ms),
+      timestamp: new Date(decision.created_at)
+    };
+  }
+}
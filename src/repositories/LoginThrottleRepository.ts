@@ -0,0 +1,132 @@
+import { Knex } from 'knex';
+import { LoginThrottleEntry, LoginThrottleKeyType } from '../types';
+
+/**
+ * Repository for LoginThrottleEntry entity operations
+ * Handles failed login counters per username and IP address
+ */
+export class LoginThrottleRepository {
+  /**
+   * Creates a new LoginThrottleRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Finds the entry of a username or IP address
+   * @param keyType - Whether the key is a username or an IP address
+   * @param key - Username (lowercased) or IP address
+   * @returns Promise<LoginThrottleEntry | null> - The entry if failures were recorded, null otherwise
+   */
+  async find(keyType: LoginThrottleKeyType, key: string): Promise<LoginThrottleEntry | null> {
+    const entry = await this.knex('login_throttles')
+      .where({ key_type: keyType, key })
+      .first();
+
+    return entry ? this.mapEntry(entry) : null;
+  }
+
+  /**
+   * Counts a failure of a username or IP address in a single statement, so concurrent failures are not lost
+   * @param keyType - Whether the key is a username or an IP address
+   * @param key - Username (lowercased) or IP address
+   * @param now - Time of the failure
+   * @param windowStart - Failures before this time are forgotten and counting starts over
+   * @returns Promise<number> - Number of failures including this one
+   */
+  async incrementFailures(keyType: LoginThrottleKeyType, key: string, now: Date, windowStart: Date): Promise<number> {
+    // Written as ISO-8601 so lockouts compare correctly on every supported database
+    await this.knex('login_throttles')
+      .insert({
+        key_type: keyType,
+        key,
+        failures: 1,
+        last_failure_at: now.toISOString(),
+        locked_until: null
+      })
+      .onConflict(['key_type', 'key'])
+      .merge({
+        failures: this.knex.raw(
+          'CASE WHEN login_throttles.last_failure_at >= ? THEN login_throttles.failures + 1 ELSE 1 END',
+          [windowStart.toISOString()]
+        ),
+        last_failure_at: now.toISOString()
+      });
+
+    const entry = await this.find(keyType, key);
+    return entry?.failures || 1;
+  }
+
+  /**
+   * Blocks a username or IP address until the given time, unless it is already blocked for longer
+   * @param keyType - Whether the key is a username or an IP address
+   * @param key - Username (lowercased) or IP address
+   * @param lockedUntil - End of the delay or lockout
+   */
+  async extendLock(keyType: LoginThrottleKeyType, key: string, lockedUntil: Date): Promise<void> {
+    await this.knex('login_throttles')
+      .where({ key_type: keyType, key })
+      .where(query => query.whereNull('locked_until').orWhere('locked_until', '<', lockedUntil.toISOString()))
+      .update({ locked_until: lockedUntil.toISOString() });
+  }
+
+  /**
+   * Deletes the entry of a username or IP address
+   * @param keyType - Whether the key is a username or an IP address
+   * @param key - Username (lowercased) or IP address
+   * @returns Promise<boolean> - True if an entry was deleted
+   */
+  async delete(keyType: LoginThrottleKeyType, key: string): Promise<boolean> {
+    const deleted = await this.knex('login_throttles')
+      .where({ key_type: keyType, key })
+      .del();
+
+    return deleted > 0;
+  }
+
+  /**
+   * Lists entries that currently block logins, latest lock first
+   * @param now - Current time
+   * @param limit - Maximum number of entries to return
+   * @param offset - Number of entries to skip
+   * @returns Promise<LoginThrottleEntry[]> - Blocking entries
+   */
+  async listLocked(now: Date, limit: number = 50, offset: number = 0): Promise<LoginThrottleEntry[]> {
+    const entries = await this.knex('login_throttles')
+      .where('locked_until', '>', now.toISOString())
+      .orderBy('locked_until', 'desc')
+      .limit(limit)
+      .offset(offset);
+
+    return entries.map(entry => this.mapEntry(entry));
+  }
+
+  /**
+   * Counts entries that currently block logins
+   * @param now - Current time
+   * @returns Promise<number> - Number of blocking entries
+   */
+  async countLocked(now: Date): Promise<number> {
+    const result = await this.knex('login_throttles')
+      .where('locked_until', '>', now.toISOString())
+      .count('* as count')
+      .first();
+
+    return parseInt(result?.count as string) || 0;
+  }
+
+  /**
+   * Maps database entry record to LoginThrottleEntry entity
+   * @param entry - Raw database login throttle record
+   * @returns LoginThrottleEntry - Mapped LoginThrottleEntry entity
+   */
+  private mapEntry(entry: any): LoginThrottleEntry {
+    return {
+      keyType: entry.key_type,
+      key: entry.key,
+      failures: Number(entry.failures),
+      lastFailureAt: new Date(entry.last_failure_at),
+      lockedUntil: entry.locked_until ? new Date(entry.locked_until) : undefined
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Knex } from 'knex';
+import { MfaChallenge } from '../types';
+
+/**
+ * Repository for MfaChallenge entity operations
+ * Handles the pending second steps of logins
+ */
+export class MfaChallengeRepository {
+  /**
+   * Creates a new MfaChallengeRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Stores a new challenge
+   * @param challengeData - Challenge data without id, attempts, usedAt and createdAt
+   * @returns Promise<MfaChallenge> - The stored challenge record
+   */
+  async create(challengeData: Pick<MfaChallenge, 'userId' | 'tokenHash' | 'organizationId' | 'expiresAt'>): Promise<MfaChallenge> {
+    const [challenge] = await this.knex('mfa_challenges')
+      .insert({
+        user_id: challengeData.userId,
+        token_hash: challengeData.tokenHash,
+        organization_id: challengeData.organizationId || null,
+        // Written as ISO-8601 so it reads back as the same instant on every supported database
+        expires_at: challengeData.expiresAt.toISOString(),
+        created_at: new Date()
+      })
+      .returning('*');
+
+    return this.mapChallenge(challenge);
+  }
+
+  /**
+   * Finds a challenge by the hash of its token
+   * @param tokenHash - SHA-256 hash of the opaque token
+   * @returns Promise<MfaChallenge | null> - The challenge record if found, null otherwise
+   */
+  async findByHash(tokenHash: string): Promise<MfaChallenge | null> {
+    const challenge = await this.knex('mfa_challenges')
+      .where({ token_hash: tokenHash })
+      .first();
+
+    return challenge ? this.mapChallenge(challenge) : null;
+  }
+
+  /**
+   * Counts a wrong code against a challenge
+   * @param id - The challenge record's unique identifier
+   */
+  async incrementAttempts(id: string): Promise<void> {
+    await this.knex('mfa_challenges')
+      .where({ id })
+      .increment('attempts', 1);
+  }
+
+  /**
+   * Marks a challenge as completed, only if it has not been completed yet
+   * @param id - The challenge record's unique identifier
+   * @returns Promise<boolean> - True if this call completed the challenge
+   */
+  async markUsed(id: string): Promise<boolean> {
+    const updated = await this.knex('mfa_challenges')
+      .where({ id })
+      .whereNull('used_at')
+      .update({ used_at: new Date() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Maps database challenge record to MfaChallenge entity
+   * @param challenge - Raw database challenge record
+   * @returns MfaChallenge - Mapped MfaChallenge entity
+   */
+  private mapChallenge(challenge: any): MfaChallenge {
+    return {
+      id: challenge.id,
+      userId: challenge.user_id,
+      tokenHash: challenge.token_hash,
+      organizationId: challenge.organization_id || undefined,
+      attempts: Number(challenge.attempts),
+      expiresAt: new Date(challenge.expires_at),
+      usedAt: challenge.used_at ? new Date(challenge.used_at) : undefined,
+      createdAt: challenge.created_at
+    };
+  }
+}
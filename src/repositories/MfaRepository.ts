@@ -0,0 +1,136 @@
+import { Knex } from 'knex';
+import { UserMfa } from '../types';
+
+/**
+ * Repository for UserMfa entity operations
+ * Handles TOTP secrets and the hashed recovery codes of users
+ */
+export class MfaRepository {
+  /**
+   * Creates a new MfaRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Finds the authenticator of a user
+   * @param userId - The user's unique identifier
+   * @returns Promise<UserMfa | null> - The authenticator if enrolled (or enrolling), null otherwise
+   */
+  async findByUserId(userId: string): Promise<UserMfa | null> {
+    const mfa = await this.knex('user_mfa')
+      .where({ user_id: userId })
+      .first();
+
+    return mfa ? this.mapUserMfa(mfa) : null;
+  }
+
+  /**
+   * Starts (or restarts) an enrollment with a new, not yet enabled secret
+   * @param userId - The user's unique identifier
+   * @param secret - Base32 TOTP secret
+   * @returns Promise<UserMfa> - The pending authenticator
+   */
+  async savePendingSecret(userId: string, secret: string): Promise<UserMfa> {
+    await this.knex('user_mfa').where({ user_id: userId }).del();
+
+    const [mfa] = await this.knex('user_mfa')
+      .insert({
+        user_id: userId,
+        secret,
+        created_at: new Date()
+      })
+      .returning('*');
+
+    return this.mapUserMfa(mfa);
+  }
+
+  /**
+   * Enables a pending authenticator
+   * @param userId - The user's unique identifier
+   * @returns Promise<boolean> - True if the authenticator was pending and is now enabled
+   */
+  async enable(userId: string): Promise<boolean> {
+    const updated = await this.knex('user_mfa')
+      .where({ user_id: userId })
+      .whereNull('enabled_at')
+      .update({ enabled_at: new Date() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Records the time step of an accepted code, only if it is later than the last one
+   * @param userId - The user's unique identifier
+   * @param step - Time step of the accepted code
+   * @returns Promise<boolean> - True if this call consumed the step, false if it was already used
+   */
+  async markStepUsed(userId: string, step: number): Promise<boolean> {
+    const updated = await this.knex('user_mfa')
+      .where({ user_id: userId })
+      .where(builder => {
+        builder.whereNull('last_used_step').orWhere('last_used_step', '<', step);
+      })
+      .update({ last_used_step: step });
+
+    return updated > 0;
+  }
+
+  /**
+   * Removes the authenticator and recovery codes of a user
+   * @param userId - The user's unique identifier
+   * @returns Promise<boolean> - True if an authenticator was removed
+   */
+  async delete(userId: string): Promise<boolean> {
+    await this.knex('mfa_recovery_codes').where({ user_id: userId }).del();
+    const deleted = await this.knex('user_mfa').where({ user_id: userId }).del();
+
+    return deleted > 0;
+  }
+
+  /**
+   * Replaces every recovery code of a user
+   * @param userId - The user's unique identifier
+   * @param codeHashes - SHA-256 hashes of the new codes
+   */
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.knex.transaction(async (trx) => {
+      await trx('mfa_recovery_codes').where({ user_id: userId }).del();
+      await trx('mfa_recovery_codes').insert(codeHashes.map(codeHash => ({
+        user_id: userId,
+        code_hash: codeHash,
+        created_at: new Date()
+      })));
+    });
+  }
+
+  /**
+   * Consumes a recovery code, only if it has not been used yet
+   * @param userId - The user's unique identifier
+   * @param codeHash - SHA-256 hash of the presented code
+   * @returns Promise<boolean> - True if this call consumed the code
+   */
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const updated = await this.knex('mfa_recovery_codes')
+      .where({ user_id: userId, code_hash: codeHash })
+      .whereNull('used_at')
+      .update({ used_at: new Date() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Maps database user MFA record to UserMfa entity
+   * @param mfa - Raw database user MFA record
+   * @returns UserMfa - Mapped UserMfa entity
+   */
+  private mapUserMfa(mfa: any): UserMfa {
+    return {
+      userId: mfa.user_id,
+      secret: mfa.secret,
+      enabledAt: mfa.enabled_at ? new Date(mfa.enabled_at) : undefined,
+      lastUsedStep: mfa.last_used_step !== null && mfa.last_used_step !== undefined ? Number(mfa.last_used_step) : undefined,
+      createdAt: mfa.created_at
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import { Knex } from 'knex';
+import { Organization, User } from '../types';
+
+export class OrganizationRepository {
+  constructor(private knex: Knex) {}
+
+  async create(organizationData: Omit<Organization, 'id' | 'createdAt' | 'updatedAt'>): Promise<Organization> {
+    const [organization] = await this.knex('organizations')
+      .insert({
+        name: organizationData.name,
+        slug: organizationData.slug,
+        is_active: organizationData.isActive,
+        created_at: new Date(),
+        updated_at: new Date()
+      })
+      .returning('*');
+
+    return this.mapOrganization(organization);
+  }
+
+  async findById(id: string): Promise<Organization | null> {
+    const organization = await this.knex('organizations')
+      .where({ id })
+      .first();
+
+    return organization ? this.mapOrganization(organization) : null;
+  }
+
+  async findBySlug(slug: string): Promise<Organization | null> {
+    const organization = await this.knex('organizations')
+      .where({ slug })
+      .first();
+
+    return organization ? this.mapOrganization(organization) : null;
+  }
+
+  async update(id: string, organizationData: Partial<Omit<Organization, 'id' | 'createdAt'>>): Promise<Organization | null> {
+    const updateData: any = {
+      updated_at: new Date()
+    };
+
+    if (organizationData.name) updateData.name = organizationData.name;
+    if (organizationData.slug) updateData.slug = organizationData.slug;
+    if (organizationData.isActive !== undefined) updateData.is_active = organizationData.isActive;
+
+    const [organization] = await this.knex('organizations')
+      .where({ id })
+      .update(updateData)
+      .returning('*');
+
+    return organization ? this.mapOrganization(organization) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.knex('organizations')
+      .where({ id })
+      .del();
+
+    return deleted > 0;
+  }
+
+  async list(limit: number = 10, offset: number = 0): Promise<Organization[]> {
+    const organizations = await this.knex('organizations')
+      .limit(limit)
+      .offset(offset)
+      .orderBy('created_at', 'desc');
+
+    return organizations.map(organization => this.mapOrganization(organization));
+  }
+
+  async count(): Promise<number> {
+    const result = await this.knex('organizations').count('* as count').first();
+    return parseInt(result?.count as string) || 0;
+  }
+
+  async addMember(organizationId: string, userId: string): Promise<boolean> {
+    try {
+      await this.knex('organization_members')
+        .insert({
+          organization_id: organizationId,
+          user_id: userId,
+          joined_at: new Date()
+        });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    const deleted = await this.knex('organization_members')
+      .where({ organization_id: organizationId, user_id: userId })
+      .del();
+
+    return deleted > 0;
+  }
+
+  async isMember(organizationId: string, userId: string): Promise<boolean> {
+    const result = await this.knex('organization_members')
+      .where({ organization_id: organizationId, user_id: userId })
+      .first();
+
+    return !!result;
+  }
+
+  async listMembers(organizationId: string, limit: number = 10, offset: number = 0): Promise<User[]> {
+    const users = await this.knex('organization_members as om')
+      .join('users as u', 'om.user_id', 'u.id')
+      .where('om.organization_id', organizationId)
+      .select('u.*')
+      .limit(limit)
+      .offset(offset)
+      .orderBy('u.created_at', 'desc');
+
+    return users.map(user => ({
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      password: user.password,
+      isActive: Boolean(user.is_active),
+      createdAt: user.created_at,
+      updatedAt: user.updated_at
+    }));
+  }
+
+  async countMembers(organizationId: string): Promise<number> {
+    const result = await this.knex('organization_members')
+      .where('organization_id', organizationId)
+      .count('* as count')
+      .first();
+    return parseInt(result?.count as string) || 0;
+  }
+
+  async getUserOrganizations(userId: string): Promise<Organization[]> {
+    const organizations = await this.knex('organization_members as om')
+      .join('organizations as o', 'om.organization_id', 'o.id')
+      .where('om.user_id', userId)
+      .select('o.*');
+
+    return organizations.map(organization => this.mapOrganization(organization));
+  }
+
+  private mapOrganization(organization: any): Organization {
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      isActive: Boolean(organization.is_active),
+      createdAt: organization.created_at,
+      updatedAt: organization.updated_at
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Knex } from 'knex';
+
+/**
+ * Repository for password history operations
+ * Keeps the hashes of the latest passwords of each user to prevent reuse
+ */
+export class PasswordHistoryRepository {
+  /**
+   * Creates a new PasswordHistoryRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Gets the hashes of a user's latest passwords, newest first
+   * @param userId - The user's unique identifier
+   * @param limit - Maximum number of hashes to return
+   * @returns Promise<string[]> - Password hashes
+   */
+  async getRecentHashes(userId: string, limit: number): Promise<string[]> {
+    const rows = await this.knex('password_history')
+      .where({ user_id: userId })
+      .orderBy('id', 'desc')
+      .limit(limit)
+      .select('password_hash');
+
+    return rows.map(row => row.password_hash);
+  }
+
+  /**
+   * Records a new password and forgets the ones beyond the history size
+   * @param userId - The user's unique identifier
+   * @param passwordHash - Hash of the new password
+   * @param keep - Number of latest hashes to keep
+   */
+  async add(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await this.knex.transaction(async (trx) => {
+      await trx('password_history').insert({
+        user_id: userId,
+        password_hash: passwordHash,
+        created_at: new Date()
+      });
+
+      const kept = await trx('password_history')
+        .where({ user_id: userId })
+        .orderBy('id', 'desc')
+        .limit(keep)
+        .pluck('id');
+      await trx('password_history')
+        .where({ user_id: userId })
+        .whereNotIn('id', kept)
+        .del();
+    });
+  }
+}
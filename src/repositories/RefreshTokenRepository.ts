@@ -0,0 +1,105 @@
+import { Knex } from 'knex';
+import { RefreshToken } from '../types';
+
+/**
+ * Repository for RefreshToken entity operations
+ * Handles persistence of hashed refresh tokens and their rotation state
+ */
+export class RefreshTokenRepository {
+  /**
+   * Creates a new RefreshTokenRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Stores a new refresh token
+   * @param tokenData - Token data without id, createdAt and rotation state
+   * @returns Promise<RefreshToken> - The stored token record
+   */
+  async create(tokenData: Pick<RefreshToken, 'userId' | 'tokenHash' | 'familyId' | 'organizationId' | 'expiresAt'>): Promise<RefreshToken> {
+    const [token] = await this.knex('refresh_tokens')
+      .insert({
+        user_id: tokenData.userId,
+        token_hash: tokenData.tokenHash,
+        family_id: tokenData.familyId,
+        organization_id: tokenData.organizationId || null,
+        // Written as ISO-8601 so it reads back as the same instant on every supported database
+        expires_at: tokenData.expiresAt.toISOString(),
+        created_at: new Date().toISOString()
+      })
+      .returning('*');
+
+    return this.mapRefreshToken(token);
+  }
+
+  /**
+   * Finds a refresh token by the hash of its value
+   * @param tokenHash - SHA-256 hash of the opaque token
+   * @returns Promise<RefreshToken | null> - The token record if found, null otherwise
+   */
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const token = await this.knex('refresh_tokens')
+      .where({ token_hash: tokenHash })
+      .first();
+
+    return token ? this.mapRefreshToken(token) : null;
+  }
+
+  /**
+   * Marks a token as used, only if it has not been used yet
+   * @param id - The token record's unique identifier
+   * @returns Promise<boolean> - True if this call consumed the token, false if it was already used
+   */
+  async markUsed(id: string): Promise<boolean> {
+    const updated = await this.knex('refresh_tokens')
+      .where({ id })
+      .whereNull('used_at')
+      .update({ used_at: new Date().toISOString() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Revokes every token belonging to a rotation family
+   * @param familyId - The family identifier
+   * @returns Promise<number> - Number of tokens revoked
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    return this.knex('refresh_tokens')
+      .where({ family_id: familyId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: new Date().toISOString() });
+  }
+
+  /**
+   * Revokes every outstanding token of a user
+   * @param userId - The user's unique identifier
+   * @returns Promise<number> - Number of tokens revoked
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    return this.knex('refresh_tokens')
+      .where({ user_id: userId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: new Date().toISOString() });
+  }
+
+  /**
+   * Maps database refresh token record to RefreshToken entity
+   * @param token - Raw database refresh token record
+   * @returns RefreshToken - Mapped RefreshToken entity
+   */
+  private mapRefreshToken(token: any): RefreshToken {
+    return {
+      id: token.id,
+      userId: token.user_id,
+      tokenHash: token.token_hash,
+      familyId: token.family_id,
+      organizationId: token.organization_id || undefined,
+      expiresAt: new Date(token.expires_at),
+      usedAt: token.used_at ? new Date(token.used_at) : undefined,
+      revokedAt: token.revoked_at ? new Date(token.revoked_at) : undefined,
+      createdAt: token.created_at
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { Knex } from 'knex';
+import { GrantedPermission, ResourceGrant, ResourceGrantSubjectType } from '../types';
+
+/**
+ * Repository for ResourceGrant entity operations
+ * Handles instance-level permission grants to users and roles
+ */
+export class ResourceGrantRepository {
+  /**
+   * Creates a new ResourceGrantRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Stores a new instance-level grant
+   * @param grantData - Grant data without id and grantedAt
+   * @returns Promise<ResourceGrant | null> - The stored grant, or null if it already exists
+   */
+  async create(grantData: Omit<ResourceGrant, 'id' | 'grantedAt'>): Promise<ResourceGrant | null> {
+    // Unique constraints treat NULLs as distinct, so global duplicates are checked here
+    const existing = await this.knex('resource_grants')
+      .where({
+        permission_id: grantData.permissionId,
+        resource_id: grantData.resourceId,
+        subject_type: grantData.subjectType,
+        subject_id: grantData.subjectId,
+        organization_id: grantData.organizationId || null
+      })
+      .first();
+    if (existing) {
+      return null;
+    }
+
+    const [grant] = await this.knex('resource_grants')
+      .insert({
+        permission_id: grantData.permissionId,
+        resource_id: grantData.resourceId,
+        subject_type: grantData.subjectType,
+        subject_id: grantData.subjectId,
+        organization_id: grantData.organizationId || null,
+        granted_by: grantData.grantedBy,
+        granted_at: new Date()
+      })
+      .returning('*');
+
+    return this.mapResourceGrant(grant);
+  }
+
+  /**
+   * Finds a grant by its ID
+   * @param id - The grant's unique identifier
+   * @returns Promise<ResourceGrant | null> - The grant if found, null otherwise
+   */
+  async findById(id: string): Promise<ResourceGrant | null> {
+    const grant = await this.knex('resource_grants')
+      .where({ id })
+      .first();
+
+    return grant ? this.mapResourceGrant(grant) : null;
+  }
+
+  /**
+   * Deletes a grant
+   * @param id - The grant's unique identifier
+   * @returns Promise<boolean> - True if the grant was deleted
+   */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.knex('resource_grants')
+      .where({ id })
+      .del();
+
+    return deleted > 0;
+  }
+
+  /**
+   * Deletes every grant given to a user or role
+   * @param subjectType - Kind of subject
+   * @param subjectId - ID of the user or role
+   * @returns Promise<number> - Number of grants deleted
+   */
+  async deleteForSubject(subjectType: ResourceGrantSubjectType, subjectId: string): Promise<number> {
+    return this.knex('resource_grants')
+      .where({ subject_type: subjectType, subject_id: subjectId })
+      .del();
+  }
+
+  /**
+   * Lists the grants on a resource instance
+   * @param resourceId - ID of the resource instance
+   * @param organizationId - When set, only global grants and grants of this organization are listed
+   * @returns Promise<ResourceGrant[]> - Grants on the instance
+   */
+  async listForResource(resourceId: string, organizationId?: string): Promise<ResourceGrant[]> {
+    const grants = await this.knex('resource_grants')
+      .where('resource_id', resourceId)
+      .where(builder => {
+        if (organizationId) {
+          builder.whereNull('organization_id').orWhere('organization_id', organizationId);
+        }
+      })
+      .orderBy('granted_at', 'desc');
+
+    return grants.map(grant => this.mapResourceGrant(grant));
+  }
+
+  /**
+   * Gets the permissions granted on a resource instance to a user, directly or through any of the given roles
+   * @param resourceId - ID of the resource instance
+   * @param userId - ID of the user
+   * @param roleIds - IDs of the user's effective roles
+   * @param organizationId - Organization to evaluate in; only global grants count when omitted
+   * @returns Promise<GrantedPermission[]> - Permissions granted on the instance (always 'allow')
+   */
+  async getSubjectPermissions(
+    resourceId: string,
+    userId: string,
+    roleIds: string[],
+    organizationId?: string
+  ): Promise<GrantedPermission[]> {
+    const permissions = await this.knex('resource_grants as rg')
+      .join('permissions as p', 'rg.permission_id', 'p.id')
+      .where('rg.resource_id', resourceId)
+      .where(builder => {
+        builder.where({ 'rg.subject_type': 'user', 'rg.subject_id': userId });
+        if (roleIds.length > 0) {
+          builder.orWhere(roleBuilder => roleBuilder.where('rg.subject_type', 'role').whereIn('rg.subject_id', roleIds));
+        }
+      })
+      .where(builder => {
+        builder.whereNull('rg.organization_id');
+        if (organizationId) {
+          builder.orWhere('rg.organization_id', organizationId);
+        }
+      })
+      .distinct('p.*');
+
+    return permissions.map(permission => ({
+      id: permission.id,
+      name: permission.name,
+      resource: permission.resource,
+      action: permission.action,
+      description: permission.description,
+      effect: 'allow' as const,
+      createdAt: permission.created_at,
+      updatedAt: permission.updated_at
+    }));
+  }
+
+  /**
+   * Maps database resource grant record to ResourceGrant entity
+   * @param grant - Raw database resource grant record
+   * @returns ResourceGrant - Mapped ResourceGrant entity
+   */
+  private mapResourceGrant(grant: any): ResourceGrant {
+    return {
+      id: grant.id,
+      permissionId: grant.permission_id,
+      resourceId: grant.resource_id,
+      subjectType: grant.subject_type,
+      subjectId: grant.subject_id,
+      organizationId: grant.organization_id || undefined,
+      grantedAt: grant.granted_at,
+      grantedBy: grant.granted_by
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { Knex } from 'knex';
+import { TokenRevocationStore } from '../services/TokenRevocationStore';
+
+/**
+ * Database-backed token revocation store
+ * Individual revocations are keyed by `jti`; user-wide revocations are stored with a null `jti`
+ */
+export class RevokedTokenRepository implements TokenRevocationStore {
+  /**
+   * Creates a new RevokedTokenRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  async revokeToken(jti: string, userId: string, expiresAt: Date): Promise<void> {
+    const existing = await this.knex('revoked_tokens').where({ jti }).first();
+    if (existing) {
+      return;
+    }
+
+    await this.knex('revoked_tokens').insert({
+      jti,
+      user_id: userId,
+      // Written as ISO-8601 so revocations compare correctly on every supported database
+      revoked_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString()
+    });
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: Date, expiresAt: Date): Promise<void> {
+    await this.knex('revoked_tokens').insert({
+      jti: null,
+      user_id: userId,
+      revoked_at: revokedAt.toISOString(),
+      expires_at: expiresAt.toISOString()
+    });
+  }
+
+  async isRevoked(jti: string | undefined, userId: string, issuedAt: Date): Promise<boolean> {
+    const result = await this.knex('revoked_tokens')
+      .where(builder => {
+        if (jti) {
+          builder.where({ jti });
+        }
+        builder.orWhere(userBuilder => {
+          userBuilder
+            .where({ user_id: userId })
+            .whereNull('jti')
+            .where('revoked_at', '>=', issuedAt.toISOString());
+        });
+      })
+      .first();
+
+    return !!result;
+  }
+
+  async purgeExpired(): Promise<number> {
+    return this.knex('revoked_tokens')
+      .where('expires_at', '<=', new Date().toISOString())
+      .del();
+  }
+}
@@ -0,0 +1,64 @@
+import { Knex } from 'knex';
+import { Role, RoleParent } from '../types';
+
+export class RoleParentRepository {
+  constructor(private knex: Knex) {}
+
+  async addParent(roleId: string, parentRoleId: string, assignedBy: string): Promise<boolean> {
+    try {
+      await this.knex('role_parents')
+        .insert({
+          role_id: roleId,
+          parent_role_id: parentRoleId,
+          assigned_by: assignedBy,
+          assigned_at: new Date()
+        });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async removeParent(roleId: string, parentRoleId: string): Promise<boolean> {
+    const deleted = await this.knex('role_parents')
+      .where({ role_id: roleId, parent_role_id: parentRoleId })
+      .del();
+
+    return deleted > 0;
+  }
+
+  async getParentRoles(roleId: string): Promise<Role[]> {
+    const roles = await this.knex('role_parents as rp')
+      .join('roles as r', 'rp.parent_role_id', 'r.id')
+      .where('rp.role_id', roleId)
+      .select('r.*');
+
+    return roles.map(role => ({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      isActive: Boolean(role.is_active),
+      organizationId: role.organization_id || undefined,
+      requiresMfa: Boolean(role.requires_mfa),
+      createdAt: role.created_at,
+      updatedAt: role.updated_at
+    }));
+  }
+
+  // The whole hierarchy is small enough to be walked in memory
+  async getAllEdges(): Promise<RoleParent[]> {
+    const edges = await this.knex('role_parents');
+
+    return edges.map(edge => this.mapRoleParent(edge));
+  }
+
+  private mapRoleParent(roleParent: any): RoleParent {
+    return {
+      id: roleParent.id,
+      roleId: roleParent.role_id,
+      parentRoleId: roleParent.parent_role_id,
+      assignedAt: roleParent.assigned_at,
+      assignedBy: roleParent.assigned_by
+    };
+  }
+}
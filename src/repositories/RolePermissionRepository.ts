@@ -1,15 +1,23 @@
 import { Knex } from 'knex';
-import { Permission, Role, RolePermission } from '../types';
+import { GrantedPermission, PermissionEffect, Role, RolePermission } from '../types';
 
 export class RolePermissionRepository {
   constructor(private knex: Knex) {}
 
-  async assignPermission(roleId: string, permissionId: string, assignedBy: string): Promise<boolean> {
+  async assignPermission(
+    roleId: string,
+    permissionId: string,
+    assignedBy: string,
+    effect: PermissionEffect = 'allow',
+    condition?: string
+  ): Promise<boolean> {
     try {
       await this.knex('role_permissions')
         .insert({
           role_id: roleId,
           permission_id: permissionId,
+          effect,
+          condition: condition || null,
           assigned_by: assignedBy,
           assigned_at: new Date()
         });
@@ -27,11 +35,11 @@ export class RolePermissionRepository {
     return deleted > 0;
   }
 
-  async getRolePermissions(roleId: string): Promise<Permission[]> {
+  async getRolePermissions(roleId: string): Promise<GrantedPermission[]> {
     const permissions = await this.knex('role_permissions as rp')
       .join('permissions as p', 'rp.permission_id', 'p.id')
       .where('rp.role_id', roleId)
-      .select('p.*');
+      .select('p.*', 'rp.effect', 'rp.condition');
 
     return permissions.map(permission => ({
       id: permission.id,
@@ -39,11 +47,22 @@ export class RolePermissionRepository {
       resource: permission.resource,
       action: permission.action,
       description: permission.description,
+      effect: permission.effect || 'allow',
+      condition: permission.condition || undefined,
       createdAt: permission.created_at,
       updatedAt: permission.updated_at
     }));
   }
 
+  // Inactive roles included, unlike getPermissionRoles
+  async getRoleIdsByPermission(permissionId: string): Promise<string[]> {
+    const rows = await this.knex('role_permissions')
+      .where('permission_id', permissionId)
+      .distinct('role_id');
+
+    return rows.map(row => row.role_id);
+  }
+
   async getPermissionRoles(permissionId: string): Promise<Role[]> {
     const roles = await this.knex('role_permissions as rp')
       .join('roles as r', 'rp.role_id', 'r.id')
@@ -56,6 +75,8 @@ export class RolePermissionRepository {
       name: role.name,
       description: role.description,
       isActive: role.is_active,
+      organizationId: role.organization_id || undefined,
+      requiresMfa: Boolean(role.requires_mfa),
       createdAt: role.created_at,
       updatedAt: role.updated_at
     }));
@@ -83,6 +104,8 @@ export class RolePermissionRepository {
       id: rolePermission.id,
       roleId: rolePermission.role_id,
       permissionId: rolePermission.permission_id,
+      effect: rolePermission.effect || 'allow',
+      condition: rolePermission.condition || undefined,
       assignedAt: rolePermission.assigned_at,
       assignedBy: rolePermission.assigned_by
     };
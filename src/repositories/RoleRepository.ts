@@ -5,11 +5,18 @@ export class RoleRepository {
   constructor(private knex: Knex) {}
 
   async create(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt'>): Promise<Role> {
+    // Unique constraints treat NULLs as distinct, so duplicate global names are checked here
+    if (await this.findByName(roleData.name, roleData.organizationId)) {
+      throw new Error(`Role já existe: '${roleData.name}'`);
+    }
+
     const [role] = await this.knex('roles')
       .insert({
         name: roleData.name,
         description: roleData.description,
         is_active: roleData.isActive,
+        organization_id: roleData.organizationId || null,
+        requires_mfa: roleData.requiresMfa || false,
         created_at: new Date(),
         updated_at: new Date()
       })
@@ -26,22 +33,41 @@ export class RoleRepository {
     return role ? this.mapRole(role) : null;
   }
 
-  async findByName(name: string): Promise<Role | null> {
+  async findByName(name: string, organizationId?: string): Promise<Role | null> {
     const role = await this.knex('roles')
-      .where({ name })
+      .where({ name, organization_id: organizationId || null })
       .first();
 
     return role ? this.mapRole(role) : null;
   }
 
+  async findByIds(ids: string[]): Promise<Role[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const roles = await this.knex('roles')
+      .whereIn('id', ids);
+
+    return roles.map(role => this.mapRole(role));
+  }
+
   async update(id: string, roleData: Partial<Omit<Role, 'id' | 'createdAt'>>): Promise<Role | null> {
     const updateData: any = {
       updated_at: new Date()
     };
     
-    if (roleData.name) updateData.name = roleData.name;
+    if (roleData.name) {
+      const current = await this.knex('roles').where({ id }).first();
+      const existing = current && await this.findByName(roleData.name, current.organization_id || undefined);
+      if (existing && existing.id !== id) {
+        throw new Error(`Role já existe: '${roleData.name}'`);
+      }
+      updateData.name = roleData.name;
+    }
     if (roleData.description !== undefined) updateData.description = roleData.description;
     if (roleData.isActive !== undefined) updateData.is_active = roleData.isActive;
+    if (roleData.requiresMfa !== undefined) updateData.requires_mfa = roleData.requiresMfa;
 
     const [role] = await this.knex('roles')
       .where({ id })
@@ -59,8 +85,12 @@ export class RoleRepository {
     return deleted > 0;
   }
 
-  async list(limit: number = 10, offset: number = 0): Promise<Role[]> {
-    const roles = await this.knex('roles')
+  /**
+   * Lists roles visible in an organization: global roles plus the organization's own roles
+   * Every role is listed when no organization is given
+   */
+  async list(limit: number = 10, offset: number = 0, organizationId?: string): Promise<Role[]> {
+    const roles = await this.scopedQuery(organizationId)
       .limit(limit)
       .offset(offset)
       .orderBy('created_at', 'desc');
@@ -68,17 +98,27 @@ export class RoleRepository {
     return roles.map(role => this.mapRole(role));
   }
 
-  async count(): Promise<number> {
-    const result = await this.knex('roles').count('* as count').first();
+  async count(organizationId?: string): Promise<number> {
+    const result = await this.scopedQuery(organizationId).count('* as count').first();
     return parseInt(result?.count as string) || 0;
   }
 
+  private scopedQuery(organizationId?: string) {
+    const query = this.knex('roles');
+    if (organizationId) {
+      query.where(builder => builder.whereNull('organization_id').orWhere('organization_id', organizationId));
+    }
+    return query;
+  }
+
   private mapRole(role: any): Role {
     return {
       id: role.id,
       name: role.name,
       description: role.description,
       isActive: Boolean(role.is_active),
+      organizationId: role.organization_id || undefined,
+      requiresMfa: Boolean(role.requires_mfa),
       createdAt: role.created_at,
       updatedAt: role.updated_at
     };
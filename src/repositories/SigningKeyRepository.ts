@@ -0,0 +1,72 @@
+import { Knex } from 'knex';
+import { SigningKey } from '../types';
+
+/**
+ * Repository for SigningKey entity operations
+ * Handles the JWT signing keys generated by key rotation
+ */
+export class SigningKeyRepository {
+  /**
+   * Creates a new SigningKeyRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Lists every stored key, in activation order
+   * @returns Promise<SigningKey[]> - Stored keys, oldest activation first
+   */
+  async findAll(): Promise<SigningKey[]> {
+    const keys = await this.knex('signing_keys')
+      .orderBy('activates_at', 'asc')
+      .orderBy('kid', 'asc');
+
+    return keys.map(key => this.mapSigningKey(key));
+  }
+
+  /**
+   * Stores a new key
+   * @param key - Key to store
+   */
+  async create(key: SigningKey): Promise<void> {
+    await this.knex('signing_keys').insert({
+      kid: key.kid,
+      algorithm: key.algorithm,
+      private_key: key.privateKey,
+      public_key: key.publicKey,
+      // Written as ISO-8601 so activations compare correctly on every supported database
+      activates_at: key.activatesAt.toISOString(),
+      created_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Deletes keys by id
+   * @param kids - Key ids to delete
+   * @returns Promise<number> - Number of keys deleted
+   */
+  async deleteMany(kids: string[]): Promise<number> {
+    if (kids.length === 0) {
+      return 0;
+    }
+
+    return this.knex('signing_keys')
+      .whereIn('kid', kids)
+      .del();
+  }
+
+  /**
+   * Maps database key record to SigningKey entity
+   * @param key - Raw database key record
+   * @returns SigningKey - Mapped SigningKey entity
+   */
+  private mapSigningKey(key: any): SigningKey {
+    return {
+      kid: key.kid,
+      algorithm: key.algorithm,
+      privateKey: key.private_key,
+      publicKey: key.public_key,
+      activatesAt: new Date(key.activates_at)
+    };
+  }
+}
@@ -24,6 +24,7 @@ export class UserRepository {
         email: userData.email,
         password: userData.password,
         is_active: userData.isActive,
+        password_changed_at: new Date().toISOString(),
         created_at: new Date(),
         updated_at: new Date()
       })
@@ -84,7 +85,10 @@ export class UserRepository {
     
     if (userData.username) updateData.username = userData.username;
     if (userData.email) updateData.email = userData.email;
-    if (userData.password) updateData.password = userData.password;
+    if (userData.password) {
+      updateData.password = userData.password;
+      updateData.password_changed_at = new Date().toISOString();
+    }
     if (userData.isActive !== undefined) updateData.is_active = userData.isActive;
 
     const [user] = await this.knex('users')
@@ -95,6 +99,34 @@ export class UserRepository {
     return user ? this.mapUser(user) : null;
   }
 
+  /**
+   * Replaces a password hash with a new hash of the same password, leaving its age untouched
+   * @param id - The user's unique identifier
+   * @param passwordHash - New hash
+   * @returns Promise<boolean> - True if the user was found
+   */
+  async updatePasswordHash(id: string, passwordHash: string): Promise<boolean> {
+    const updated = await this.knex('users')
+      .where({ id })
+      .update({ password: passwordHash });
+
+    return updated > 0;
+  }
+
+  /**
+   * Sets or clears the verification timestamp of a user's email address
+   * @param id - The user's unique identifier
+   * @param verifiedAt - When the address was verified, or null when it has to be verified again
+   * @returns Promise<boolean> - True if the user was found
+   */
+  async setEmailVerifiedAt(id: string, verifiedAt: Date | null): Promise<boolean> {
+    const updated = await this.knex('users')
+      .where({ id })
+      .update({ email_verified_at: verifiedAt ? verifiedAt.toISOString() : null });
+
+    return updated > 0;
+  }
+
   /**
    * Deletes a user from the database
    * @param id - The user's unique identifier
@@ -145,6 +177,8 @@ export class UserRepository {
       email: user.email,
       password: user.password,
       isActive: Boolean(user.is_active),
+      emailVerifiedAt: user.email_verified_at ? new Date(user.email_verified_at) : undefined,
+      passwordChangedAt: user.password_changed_at ? new Date(user.password_changed_at) : undefined,
       createdAt: user.created_at,
       updatedAt: user.updated_at
     };
@@ -1,17 +1,34 @@
 import { Knex } from 'knex';
-import { Role, User, UserRole } from '../types';
+import { GrantedPermission, Role, RoleAssignmentOptions, User, UserRole } from '../types';
 
 export class UserRoleRepository {
   constructor(private knex: Knex) {}
 
-  async assignRole(userId: string, roleId: string, assignedBy: string): Promise<boolean> {
+  async assignRole(userId: string, roleId: string, assignedBy: string, options: RoleAssignmentOptions = {}): Promise<boolean> {
     try {
+      const { organizationId, validFrom, validUntil } = options;
+
+      // Unique constraints treat NULLs as distinct, so global duplicates are checked here
+      const existing = await this.knex('user_roles')
+        .where({ user_id: userId, role_id: roleId, organization_id: organizationId || null })
+        .first();
+      if (existing) {
+        // An expired assignment that has not been swept yet does not block a new one
+        if (!existing.valid_until || new Date(existing.valid_until) > new Date()) {
+          return false;
+        }
+        await this.knex('user_roles').where('id', existing.id).del();
+      }
+
       await this.knex('user_roles')
         .insert({
           user_id: userId,
           role_id: roleId,
+          organization_id: organizationId || null,
           assigned_by: assignedBy,
-          assigned_at: new Date()
+          assigned_at: new Date(),
+          valid_from: validFrom ? validFrom.toISOString() : null,
+          valid_until: validUntil ? validUntil.toISOString() : null
         });
       return true;
     } catch (error) {
@@ -19,36 +36,108 @@ export class UserRoleRepository {
     }
   }
 
-  async removeRole(userId: string, roleId: string): Promise<boolean> {
+  async removeRole(userId: string, roleId: string, organizationId?: string): Promise<boolean> {
     const deleted = await this.knex('user_roles')
-      .where({ user_id: userId, role_id: roleId })
+      .where({ user_id: userId, role_id: roleId, organization_id: organizationId || null })
       .del();
 
     return deleted > 0;
   }
 
-  async getUserRoles(userId: string): Promise<Role[]> {
+  async removeOrganizationRoles(userId: string, organizationId: string): Promise<number> {
+    return this.knex('user_roles')
+      .where({ user_id: userId, organization_id: organizationId })
+      .del();
+  }
+
+  /**
+   * Gets the active roles assigned to a user globally or in the given organization
+   * Without an organization only global assignments are returned; assignments outside
+   * their validity window are ignored
+   */
+  async getUserRoles(userId: string, organizationId?: string): Promise<Role[]> {
     const roles = await this.knex('user_roles as ur')
       .join('roles as r', 'ur.role_id', 'r.id')
       .where('ur.user_id', userId)
       .where('r.is_active', true)
-      .select('r.*');
+      .where(builder => this.whereCurrentlyValid(builder))
+      .where(builder => {
+        builder.whereNull('ur.organization_id');
+        if (organizationId) {
+          builder.orWhere('ur.organization_id', organizationId);
+        }
+      })
+      .distinct('r.*');
 
     return roles.map(role => ({
       id: role.id,
       name: role.name,
       description: role.description,
       isActive: role.is_active,
+      organizationId: role.organization_id || undefined,
+      requiresMfa: Boolean(role.requires_mfa),
       createdAt: role.created_at,
       updatedAt: role.updated_at
     }));
   }
 
+  /**
+   * Gets every permission grant a user holds through their roles, in a single query
+   * Roles are resolved with a recursive CTE over the hierarchy: currently valid assignments in scope,
+   * then their ancestors; inactive roles contribute nothing and inheritance does not flow through them
+   * @param userId - The user's unique identifier
+   * @param organizationId - Organization to resolve in; only global assignments count when omitted
+   * @returns Promise<GrantedPermission[]> - One entry per distinct permission, effect and condition
+   */
+  async getEffectivePermissionGrants(userId: string, organizationId?: string): Promise<GrantedPermission[]> {
+    const permissions = await this.knex
+      .withRecursive('effective_roles', ['role_id'], query => {
+        query
+          .select('ur.role_id')
+          .from('user_roles as ur')
+          .join('roles as r', 'ur.role_id', 'r.id')
+          .where('ur.user_id', userId)
+          .where('r.is_active', true)
+          .where(builder => this.whereCurrentlyValid(builder))
+          .where(builder => {
+            builder.whereNull('ur.organization_id');
+            if (organizationId) {
+              builder.orWhere('ur.organization_id', organizationId);
+            }
+          })
+          .union(parents => {
+            parents
+              .select('rh.parent_role_id')
+              .from('role_parents as rh')
+              .join('effective_roles as er', 'rh.role_id', 'er.role_id')
+              .join('roles as pr', 'rh.parent_role_id', 'pr.id')
+              .where('pr.is_active', true);
+          });
+      })
+      .from('effective_roles as er')
+      .join('role_permissions as rp', 'rp.role_id', 'er.role_id')
+      .join('permissions as p', 'rp.permission_id', 'p.id')
+      .distinct('p.*', 'rp.effect', 'rp.condition');
+
+    return permissions.map(permission => ({
+      id: permission.id,
+      name: permission.name,
+      resource: permission.resource,
+      action: permission.action,
+      description: permission.description,
+      effect: permission.effect || 'allow',
+      condition: permission.condition || undefined,
+      createdAt: permission.created_at,
+      updatedAt: permission.updated_at
+    }));
+  }
+
   async getRoleUsers(roleId: string): Promise<User[]> {
     const users = await this.knex('user_roles as ur')
       .join('users as u', 'ur.user_id', 'u.id')
       .where('ur.role_id', roleId)
       .where('u.is_active', true)
+      .where(builder => this.whereCurrentlyValid(builder))
       .select('u.*');
 
     return users.map(user => ({
@@ -68,11 +157,25 @@ export class UserRoleRepository {
       .where('ur.user_id', userId)
       .where('r.name', roleName)
       .where('r.is_active', true)
+      .where(builder => this.whereCurrentlyValid(builder))
       .first();
 
     return !!result;
   }
 
+  // Every assignment counts, whatever its validity window or scope
+  async getUserIdsByRoles(roleIds: string[]): Promise<string[]> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.knex('user_roles')
+      .whereIn('role_id', roleIds)
+      .distinct('user_id');
+
+    return rows.map(row => row.user_id);
+  }
+
   async getUserRoleAssignments(userId: string): Promise<UserRole[]> {
     const userRoles = await this.knex('user_roles')
       .where('user_id', userId);
@@ -80,13 +183,60 @@ export class UserRoleRepository {
     return userRoles.map(ur => this.mapUserRole(ur));
   }
 
+  /**
+   * Removes every assignment whose validity window ended before the given time
+   * @param before - Assignments with valid_until at or before this time are removed
+   * @param archive - Copy the assignments to user_role_archive before removing them
+   * @returns Promise<UserRole[]> - The removed assignments
+   */
+  async removeExpired(before: Date, archive: boolean): Promise<UserRole[]> {
+    return this.knex.transaction(async trx => {
+      const expired = await trx('user_roles')
+        .whereNotNull('valid_until')
+        .where('valid_until', '<=', before.toISOString());
+
+      if (expired.length === 0) {
+        return [];
+      }
+
+      const ids = expired.map(userRole => userRole.id);
+      if (archive) {
+        await trx('user_role_archive').insert(expired.map(userRole => ({
+          id: userRole.id,
+          user_id: userRole.user_id,
+          role_id: userRole.role_id,
+          organization_id: userRole.organization_id,
+          assigned_by: userRole.assigned_by,
+          assigned_at: userRole.assigned_at,
+          valid_from: userRole.valid_from,
+          valid_until: userRole.valid_until,
+          expired_at: new Date().toISOString()
+        })));
+      }
+      await trx('user_roles').whereIn('id', ids).del();
+
+      return expired.map(userRole => this.mapUserRole(userRole));
+    });
+  }
+
+  // Validity bounds are written and compared as ISO-8601 strings, which order correctly on every supported database
+  private whereCurrentlyValid(builder: Knex.QueryBuilder): void {
+    const now = new Date().toISOString();
+    builder
+      .where(from => from.whereNull('ur.valid_from').orWhere('ur.valid_from', '<=', now))
+      .where(until => until.whereNull('ur.valid_until').orWhere('ur.valid_until', '>', now));
+  }
+
   private mapUserRole(userRole: any): UserRole {
     return {
       id: userRole.id,
       userId: userRole.user_id,
       roleId: userRole.role_id,
+      organizationId: userRole.organization_id || undefined,
       assignedAt: userRole.assigned_at,
-      assignedBy: userRole.assigned_by
+      assignedBy: userRole.assigned_by,
+      validFrom: userRole.valid_from ? new Date(userRole.valid_from) : undefined,
+      validUntil: userRole.valid_until ? new Date(userRole.valid_until) : undefined
     };
   }
 }
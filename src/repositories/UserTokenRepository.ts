@@ -0,0 +1,93 @@
+import { Knex } from 'knex';
+import { UserToken, UserTokenPurpose } from '../types';
+
+/**
+ * Repository for UserToken entity operations
+ * Handles hashed single-use tokens sent by email (password reset, email verification)
+ */
+export class UserTokenRepository {
+  /**
+   * Creates a new UserTokenRepository instance
+   * @param knex - Knex database connection instance
+   */
+  constructor(private knex: Knex) {}
+
+  /**
+   * Stores a new token
+   * @param tokenData - Token data without id, usedAt and createdAt
+   * @returns Promise<UserToken> - The stored token record
+   */
+  async create(tokenData: Pick<UserToken, 'userId' | 'purpose' | 'tokenHash' | 'email' | 'expiresAt'>): Promise<UserToken> {
+    const [token] = await this.knex('user_tokens')
+      .insert({
+        user_id: tokenData.userId,
+        purpose: tokenData.purpose,
+        token_hash: tokenData.tokenHash,
+        email: tokenData.email || null,
+        // Written as ISO-8601 so it reads back as the same instant on every supported database
+        expires_at: tokenData.expiresAt.toISOString(),
+        created_at: new Date()
+      })
+      .returning('*');
+
+    return this.mapUserToken(token);
+  }
+
+  /**
+   * Finds a token by the hash of its value
+   * @param purpose - What the token must be usable for
+   * @param tokenHash - SHA-256 hash of the opaque token
+   * @returns Promise<UserToken | null> - The token record if found, null otherwise
+   */
+  async findByHash(purpose: UserTokenPurpose, tokenHash: string): Promise<UserToken | null> {
+    const token = await this.knex('user_tokens')
+      .where({ purpose, token_hash: tokenHash })
+      .first();
+
+    return token ? this.mapUserToken(token) : null;
+  }
+
+  /**
+   * Marks a token as used, only if it has not been used yet
+   * @param id - The token record's unique identifier
+   * @returns Promise<boolean> - True if this call consumed the token
+   */
+  async markUsed(id: string): Promise<boolean> {
+    const updated = await this.knex('user_tokens')
+      .where({ id })
+      .whereNull('used_at')
+      .update({ used_at: new Date() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Deletes every token of a user issued for a purpose
+   * @param userId - The user's unique identifier
+   * @param purpose - Purpose of the tokens to delete
+   * @returns Promise<number> - Number of tokens deleted
+   */
+  async deleteForUser(userId: string, purpose: UserTokenPurpose): Promise<number> {
+    return this.knex('user_tokens')
+      .where({ user_id: userId, purpose })
+      .del();
+  }
+
+  /**
+   * Maps database token record to UserToken entity
+   * @param token - Raw database token record
+   * @returns UserToken - Mapped UserToken entity
+   */
+  private mapUserToken(token: any): UserToken {
+    return {
+      id: token.id,
+      userId: token.user_id,
+      purpose: token.purpose,
+      tokenHash: token.token_hash,
+      email: token.email || undefined,
+      expiresAt: new Date(token.expires_at),
+      usedAt: token.used_at ? new Date(token.used_at) : undefined,
+      createdAt: token.created_at
+    };
+  }
+}
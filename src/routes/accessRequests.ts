@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { AccessRequestController } from '../controllers/AccessRequestController';
+import { AuthMiddleware } from '../middleware/auth';
+
+export function createAccessRequestRoutes(accessRequestController: AccessRequestController, authMiddleware: AuthMiddleware) {
+  const router = Router();
+
+  // All access request routes require authentication
+  router.use(authMiddleware.verifyToken);
+
+  // Any user can file requests and follow their own
+  router.post('/', accessRequestController.createRequest.bind(accessRequestController));
+  router.get('/', accessRequestController.getRequests.bind(accessRequestController));
+  router.get('/:id', accessRequestController.getRequestById.bind(accessRequestController));
+
+  // Decisions (require the approver permission)
+  router.post('/:id/approve', authMiddleware.requireAccessApproval, accessRequestController.approveRequest.bind(accessRequestController));
+  router.post('/:id/reject', authMiddleware.requireAccessApproval, accessRequestController.rejectRequest.bind(accessRequestController));
+
+  return router;
+}
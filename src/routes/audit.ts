@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/AuditController';
+import { AuthMiddleware } from '../middleware/auth';
+
+export function createAuditRoutes(auditController: AuditController, authMiddleware: AuthMiddleware) {
+  const router = Router();
+
+  // All audit routes require authentication
+  router.use(authMiddleware.verifyToken);
+
+  // Audit log queries (require audit read permission)
+  router.get('/', authMiddleware.requireAuditAccess, auditController.getAuditEvents.bind(auditController));
+
+  // Recent authorization denials of a user, to debug 403 responses (require audit read permission)
+  router.get('/denials/:userId', authMiddleware.requireAuditAccess, auditController.getRecentDenials.bind(auditController));
+
+  return router;
+}
@@ -8,10 +8,23 @@ export function createAuthRoutes(authController: AuthController, authMiddleware:
   // Public routes
   router.post('/login', authController.login.bind(authController));
   router.post('/register', authController.register.bind(authController));
+  router.post('/refresh', authController.refresh.bind(authController));
+  router.post('/password/forgot', authController.forgotPassword.bind(authController));
+  router.post('/password/reset', authController.resetPassword.bind(authController));
+  router.post('/email/verify', authController.verifyEmail.bind(authController));
+  router.post('/email/resend', authController.resendEmailVerification.bind(authController));
+  router.post('/mfa/verify', authController.verifyMfa.bind(authController));
+  router.post('/mfa/challenge/enroll', authController.enrollMfaChallenge.bind(authController));
 
   // Protected routes
   router.get('/profile', authMiddleware.verifyToken, authController.getProfile.bind(authController));
   router.put('/profile', authMiddleware.verifyToken, authController.updateProfile.bind(authController));
+  router.post('/logout', authMiddleware.verifyToken, authController.logout.bind(authController));
+  router.post('/logout-all', authMiddleware.verifyToken, authController.logoutAll.bind(authController));
+  router.post('/mfa/enroll', authMiddleware.verifyToken, authController.enrollMfa.bind(authController));
+  router.post('/mfa/confirm', authMiddleware.verifyToken, authController.confirmMfa.bind(authController));
+  router.post('/mfa/disable', authMiddleware.verifyToken, authController.disableMfa.bind(authController));
+  router.post('/mfa/recovery-codes', authMiddleware.verifyToken, authController.regenerateRecoveryCodes.bind(authController));
 
   return router;
 }
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { AuthorizationController } from '../controllers/AuthorizationController';
+import { AuthMiddleware } from '../middleware/auth';
+
+export function createAuthorizeRoutes(authorizationController: AuthorizationController, authMiddleware: AuthMiddleware) {
+  const router = Router();
+
+  // Allow/deny for any user, for services authenticated by API key
+  router.post('/', authMiddleware.verifyServiceCredential, authorizationController.authorize.bind(authorizationController));
+
+  // Every other authorization route requires user authentication
+  router.use(authMiddleware.verifyToken);
+
+  // Decision trace for a user and permission, to debug 403 responses (require audit read permission)
+  router.post('/explain', authMiddleware.requireAuditAccess, authorizationController.explain.bind(authorizationController));
+
+  // Decision map for many permission checks, for the caller or (with audit read permission) other users
+  router.post('/batch', authorizationController.batch.bind(authorizationController));
+
+  return router;
+}
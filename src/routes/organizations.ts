@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { OrganizationController } from '../controllers/OrganizationController';
+import { AuthMiddleware } from '../middleware/auth';
+
+export function createOrganizationRoutes(organizationController: OrganizationController, authMiddleware: AuthMiddleware) {
+  const router = Router();
+
+  // All organization routes require authentication
+  router.use(authMiddleware.verifyToken);
+
+  // Organization management routes (require organization management permission)
+  // Creating and deleting organizations requires a global scope
+  router.post('/', authMiddleware.requireGlobalScope, authMiddleware.requireOrganizationManagement, organizationController.createOrganization.bind(organizationController));
+  router.get('/', authMiddleware.requireOrganizationManagement, organizationController.getOrganizations.bind(organizationController));
+  router.get('/:id', authMiddleware.requireOrganizationManagement, organizationController.getOrganizationById.bind(organizationController));
+  router.put('/:id', authMiddleware.requireOrganizationManagement, organizationController.updateOrganization.bind(organizationController));
+  router.delete('/:id', authMiddleware.requireGlobalScope, authMiddleware.requireOrganizationManagement, organizationController.deleteOrganization.bind(organizationController));
+
+  // Membership routes (require organization management permission)
+  router.get('/:id/members', authMiddleware.requireOrganizationManagement, organizationController.getMembers.bind(organizationController));
+  // Adding members requires a global scope: otherwise a tenant admin could pull in any user and read their profile
+  router.post('/:id/members/:userId', authMiddleware.requireGlobalScope, authMiddleware.requireOrganizationManagement, organizationController.addMember.bind(organizationController));
+  router.delete('/:id/members/:userId', authMiddleware.requireOrganizationManagement, organizationController.removeMember.bind(organizationController));
+
+  return router;
+}
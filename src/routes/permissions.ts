@@ -9,11 +9,12 @@ export function createPermissionRoutes(permissionController: PermissionControlle
   router.use(authMiddleware.verifyToken);
 
   // Permission management routes (require permission management permission)
-  router.post('/', authMiddleware.requirePermissionManagement, permissionController.createPermission.bind(permissionController));
+  // The permission catalog is shared by every organization, so changes require a global scope
+  router.post('/', authMiddleware.requireGlobalScope, authMiddleware.requirePermissionManagement, permissionController.createPermission.bind(permissionController));
   router.get('/', authMiddleware.requirePermissionManagement, permissionController.getPermissions.bind(permissionController));
   router.get('/:id', authMiddleware.requirePermissionManagement, permissionController.getPermissionById.bind(permissionController));
-  router.put('/:id', authMiddleware.requirePermissionManagement, permissionController.updatePermission.bind(permissionController));
-  router.delete('/:id', authMiddleware.requirePermissionManagement, permissionController.deletePermission.bind(permissionController));
+  router.put('/:id', authMiddleware.requireGlobalScope, authMiddleware.requirePermissionManagement, permissionController.updatePermission.bind(permissionController));
+  router.delete('/:id', authMiddleware.requireGlobalScope, authMiddleware.requirePermissionManagement, permissionController.deletePermission.bind(permissionController));
 
   return router;
 }
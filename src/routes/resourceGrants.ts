@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ResourceGrantController } from '../controllers/ResourceGrantController';
+import { AuthMiddleware } from '../middleware/auth';
+
+export function createResourceGrantRoutes(resourceGrantController: ResourceGrantController, authMiddleware: AuthMiddleware) {
+  const router = Router();
+
+  // All resource grant routes require authentication
+  router.use(authMiddleware.verifyToken);
+
+  // Instance-level grant routes (require permission management permission)
+  router.post('/', authMiddleware.requirePermissionManagement, resourceGrantController.createGrant.bind(resourceGrantController));
+  router.get('/', authMiddleware.requirePermissionManagement, resourceGrantController.getGrants.bind(resourceGrantController));
+  router.delete('/:id', authMiddleware.requirePermissionManagement, resourceGrantController.deleteGrant.bind(resourceGrantController));
+
+  return router;
+}
@@ -19,5 +19,9 @@ export function createRoleRoutes(roleController: RoleController, authMiddleware:
   router.post('/:roleId/permissions/:permissionId', authMiddleware.requirePermissionManagement, roleController.assignPermission.bind(roleController));
   router.delete('/:roleId/permissions/:permissionId', authMiddleware.requirePermissionManagement, roleController.removePermission.bind(roleController));
 
+  // Role inheritance routes (require role management permission)
+  router.post('/:roleId/parents/:parentRoleId', authMiddleware.requireRoleManagement, roleController.addParentRole.bind(roleController));
+  router.delete('/:roleId/parents/:parentRoleId', authMiddleware.requireRoleManagement, roleController.removeParentRole.bind(roleController));
+
   return router;
 }
@@ -9,11 +9,17 @@ export function createUserRoutes(userController: UserController, authMiddleware:
   router.use(authMiddleware.verifyToken);
 
   // User management routes (require user management permission)
+  // Within an organization only its members are visible; accounts can only be changed globally
   router.post('/', authMiddleware.requireUserManagement, userController.createUser.bind(userController));
+
+  // Login lockouts are global, like accounts (require user management permission)
+  router.get('/lockouts', authMiddleware.requireGlobalScope, authMiddleware.requireUserManagement, userController.getLoginLockouts.bind(userController));
+  router.delete('/lockouts/:keyType/:key', authMiddleware.requireGlobalScope, authMiddleware.requireUserManagement, userController.clearLoginLockout.bind(userController));
+
   router.get('/', authMiddleware.requireUserManagement, userController.getUsers.bind(userController));
   router.get('/:id', authMiddleware.requireUserManagement, userController.getUserById.bind(userController));
-  router.put('/:id', authMiddleware.requireUserManagement, userController.updateUser.bind(userController));
-  router.delete('/:id', authMiddleware.requireUserManagement, userController.deleteUser.bind(userController));
+  router.put('/:id', authMiddleware.requireGlobalScope, authMiddleware.requireUserManagement, userController.updateUser.bind(userController));
+  router.delete('/:id', authMiddleware.requireGlobalScope, authMiddleware.requireUserManagement, userController.deleteUser.bind(userController));
 
   // Role assignment routes (require role management permission)
   router.post('/:userId/roles/:roleId', authMiddleware.requireRoleManagement, userController.assignRole.bind(userController));
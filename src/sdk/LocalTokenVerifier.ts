@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JSONWebKeySet } from '../services/KeyManager';
+import { JWTPayload } from '../types';
+
+/**
+ * Options for verifying RBAC tokens locally, without calling the RBAC service
+ */
+export interface LocalVerificationOptions {
+  /** PEM public key to verify with; when set, the JWKS is never fetched */
+  publicKey?: string;
+  /** Accepted signing algorithms (default: ['RS256', 'ES256']) */
+  algorithms?: jwt.Algorithm[];
+  /** How long the fetched JWKS is cached, in milliseconds (default: 600000) */
+  jwksCacheTtl?: number;
+  /** Minimum delay between JWKS refetches triggered by an unknown `kid`, in milliseconds (default: 30000) */
+  jwksRefetchInterval?: number;
+}
+
+/**
+ * Verifies JWT tokens against a configured public key or a cached JWKS
+ * Unknown `kid` values trigger a (rate-limited) refetch so rotated keys are picked up
+ */
+export class LocalTokenVerifier {
+  private keys = new Map<string, crypto.KeyObject>();
+  private fetchedAt = 0;
+  private pendingFetch?: Promise<void>;
+
+  /**
+   * Creates a new LocalTokenVerifier instance
+   * @param options - Local verification options
+   * @param fetchJWKS - Function that retrieves the JWKS from the RBAC service
+   */
+  constructor(
+    private readonly options: LocalVerificationOptions,
+    private readonly fetchJWKS: () => Promise<JSONWebKeySet>
+  ) {}
+
+  /**
+   * Verifies a token signature and expiration
+   * @param token - JWT token to verify
+   * @returns Promise<JWTPayload> - Decoded token claims
+   * @throws Error if the token is invalid, expired or signed by an unknown key
+   */
+  async verify(token: string): Promise<JWTPayload> {
+    const algorithms = this.options.algorithms || ['RS256', 'ES256'];
+
+    if (this.options.publicKey) {
+      return jwt.verify(token, this.options.publicKey, { algorithms }) as JWTPayload;
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || !decoded.header.kid) {
+      throw new Error('Token sem identificador de chave (kid)');
+    }
+
+    const key = await this.getKey(decoded.header.kid);
+    if (!key) {
+      throw new Error(`Chave de assinatura desconhecida: ${decoded.header.kid}`);
+    }
+
+    return jwt.verify(token, key, { algorithms }) as JWTPayload;
+  }
+
+  private async getKey(kid: string): Promise<crypto.KeyObject | undefined> {
+    const now = Date.now();
+    const cacheExpired = now - this.fetchedAt > (this.options.jwksCacheTtl ?? 10 * 60 * 1000);
+    const canRefetch = now - this.fetchedAt > (this.options.jwksRefetchInterval ?? 30 * 1000);
+
+    if (cacheExpired || (!this.keys.has(kid) && canRefetch)) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid);
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.pendingFetch) {
+      this.pendingFetch = this.fetchJWKS()
+        .then(jwks => {
+          const keys = new Map<string, crypto.KeyObject>();
+          for (const jwk of jwks.keys) {
+            keys.set(jwk.kid, crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' }));
+          }
+          this.keys = keys;
+          this.fetchedAt = Date.now();
+        })
+        .finally(() => {
+          this.pendingFetch = undefined;
+        });
+    }
+
+    return this.pendingFetch;
+  }
+}
@@ -1,4 +1,5 @@
-import { Permission, Role, User } from '../types';
+import { JSONWebKeySet } from '../services/KeyManager';
+import { AccessRequest, AccessRequestStatus, AuditEvent, AuthorizationDecision, AuthorizationExplanation, ConditionContext, GrantedPermission, LoginThrottleEntry, LoginThrottleKeyType, MfaChallengeResult, MfaEnrollment, Organization, Permission, PermissionEffect, ResourceGrant, ResourceGrantSubjectType, Role, User } from '../types';
 
 /**
  * Configuration interface for RBAC Client
@@ -6,7 +7,7 @@ import { Permission, Role, User } from '../types';
 export interface RBACClientConfig {
   /** Base URL of the RBAC service */
   baseUrl: string;
-  /** Optional API key for authentication */
+  /** Optional API key, sent by calls that are not given a user token (e.g., a service key for `can`) */
   apiKey?: string;
   /** Request timeout in milliseconds (default: 5000) */
   timeout?: number;
@@ -20,10 +21,18 @@ export interface AuthResult {
   user: Omit<User, 'password'>;
   /** JWT token for subsequent requests */
   token: string;
+  /** Opaque refresh token used to obtain a new access token */
+  refreshToken: string;
   /** User's assigned roles */
   roles: Role[];
   /** User's assigned permissions */
   permissions: Permission[];
+  /** Permissions explicitly denied to the user */
+  deniedPermissions: Permission[];
+  /** One-time recovery codes, only present when the login also completed MFA enrollment */
+  recoveryCodes?: string[];
+  /** Present when the password is older than the maximum age; the tokens are not restricted, so ask the user for a new password */
+  passwordExpired?: boolean;
 }
 
 /**
@@ -55,15 +64,13 @@ export class RBACClient {
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${this.config.baseUrl}${endpoint}`;
+    // The API key is only the default credential: calls made on behalf of a user send their token instead
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...options.headers
+      ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+      ...(options.headers as Record<string, string>)
     };
 
-    if (this.config.apiKey) {
-      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-    }
-
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
@@ -77,14 +84,14 @@ export class RBACClient {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
+        const errorData = await response.json().catch(() => ({})) as { error?: string };
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
-      return await response.json();
+      return await response.json() as T;
     } catch (error) {
       clearTimeout(timeoutId);
-      if (error.name === 'AbortError') {
+      if ((error as Error).name === 'AbortError') {
         throw new Error('Request timeout');
       }
       throw error;
@@ -92,14 +99,84 @@ export class RBACClient {
   }
 
   // Authentication methods
-  async login(username: string, password: string): Promise<AuthResult> {
-    const response = await this.makeRequest<{ data: AuthResult }>('/api/auth/login', {
+  // Returns an MFA challenge instead of tokens when the user must verify a second factor (see verifyMfa)
+  async login(username: string, password: string, tenantId?: string): Promise<AuthResult | MfaChallengeResult> {
+    const response = await this.makeRequest<{ data: AuthResult | MfaChallengeResult }>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(tenantId ? { username, password, tenantId } : { username, password })
+    });
+    return response.data;
+  }
+
+  async verifyMfa(challengeToken: string, code: string): Promise<AuthResult> {
+    const response = await this.makeRequest<{ data: AuthResult }>('/api/auth/mfa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, code })
+    });
+    return response.data;
+  }
+
+  async enrollMfaChallenge(challengeToken: string): Promise<MfaEnrollment> {
+    const response = await this.makeRequest<{ data: MfaEnrollment }>('/api/auth/mfa/challenge/enroll', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken })
+    });
+    return response.data;
+  }
+
+  // Password reset and email verification methods
+  async forgotPassword(email: string): Promise<void> {
+    await this.makeRequest('/api/auth/password/forgot', {
+      method: 'POST',
+      body: JSON.stringify({ email })
+    });
+  }
+
+  async resetPassword(resetToken: string, password: string): Promise<void> {
+    await this.makeRequest('/api/auth/password/reset', {
+      method: 'POST',
+      body: JSON.stringify({ token: resetToken, password })
+    });
+  }
+
+  async verifyEmail(verificationToken: string): Promise<{ id: string; email: string; emailVerifiedAt: Date }> {
+    const response = await this.makeRequest<{ data: { id: string; email: string; emailVerifiedAt: Date } }>('/api/auth/email/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token: verificationToken })
+    });
+    return response.data;
+  }
+
+  async resendEmailVerification(email: string): Promise<void> {
+    await this.makeRequest('/api/auth/email/resend', {
+      method: 'POST',
+      body: JSON.stringify({ email })
+    });
+  }
+
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const response = await this.makeRequest<{ data: AuthResult }>('/api/auth/refresh', {
       method: 'POST',
-      body: JSON.stringify({ username, password })
+      body: JSON.stringify({ refreshToken })
     });
     return response.data;
   }
 
+  async logout(token: string, refreshToken?: string): Promise<void> {
+    await this.makeRequest('/api/auth/logout', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {})
+    });
+  }
+
+  async logoutAll(token: string): Promise<void> {
+    await this.makeRequest('/api/auth/logout-all', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
   async register(userData: { username: string; email: string; password: string }): Promise<{ id: string; username: string; email: string; isActive: boolean; createdAt: Date }> {
     const response = await this.makeRequest<{ data: { id: string; username: string; email: string; isActive: boolean; createdAt: Date } }>('/api/auth/register', {
       method: 'POST',
@@ -108,8 +185,8 @@ export class RBACClient {
     return response.data;
   }
 
-  async getProfile(token: string): Promise<{ user: Omit<User, 'password'>; roles: Role[]; permissions: Permission[] }> {
-    const response = await this.makeRequest<{ data: { user: Omit<User, 'password'>; roles: Role[]; permissions: Permission[] } }>('/api/auth/profile', {
+  async getProfile(token: string): Promise<{ user: Omit<User, 'password'>; tenantId?: string; organizations: Organization[]; roles: Role[]; permissions: GrantedPermission[]; deniedPermissions: GrantedPermission[] }> {
+    const response = await this.makeRequest<{ data: { user: Omit<User, 'password'>; tenantId?: string; organizations: Organization[]; roles: Role[]; permissions: GrantedPermission[]; deniedPermissions: GrantedPermission[] } }>('/api/auth/profile', {
       method: 'GET',
       headers: { Authorization: `Bearer ${token}` }
     });
@@ -125,6 +202,41 @@ export class RBACClient {
     return response.data;
   }
 
+  // Multi-factor authentication methods
+  async enrollMfa(token: string): Promise<MfaEnrollment> {
+    const response = await this.makeRequest<{ data: MfaEnrollment }>('/api/auth/mfa/enroll', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  async confirmMfa(token: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const response = await this.makeRequest<{ data: { recoveryCodes: string[] } }>('/api/auth/mfa/confirm', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ code })
+    });
+    return response.data;
+  }
+
+  async disableMfa(token: string, code: string): Promise<void> {
+    await this.makeRequest('/api/auth/mfa/disable', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ code })
+    });
+  }
+
+  async regenerateRecoveryCodes(token: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const response = await this.makeRequest<{ data: { recoveryCodes: string[] } }>('/api/auth/mfa/recovery-codes', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ code })
+    });
+    return response.data;
+  }
+
   // User management methods
   async createUser(token: string, userData: { username: string; email: string; password: string; isActive?: boolean }): Promise<{ id: string; username: string; email: string; isActive: boolean; createdAt: Date }> {
     const response = await this.makeRequest<{ data: { id: string; username: string; email: string; isActive: boolean; createdAt: Date } }>('/api/users', {
@@ -143,8 +255,8 @@ export class RBACClient {
     return response;
   }
 
-  async getUserById(token: string, userId: string): Promise<{ user: Omit<User, 'password'>; roles: Role[]; permissions: Permission[] }> {
-    const response = await this.makeRequest<{ data: { user: Omit<User, 'password'>; roles: Role[]; permissions: Permission[] } }>(`/api/users/${userId}`, {
+  async getUserById(token: string, userId: string): Promise<{ user: Omit<User, 'password'>; roles: Role[]; permissions: Permission[]; deniedPermissions: Permission[] }> {
+    const response = await this.makeRequest<{ data: { user: Omit<User, 'password'>; roles: Role[]; permissions: Permission[]; deniedPermissions: Permission[] } }>(`/api/users/${userId}`, {
       method: 'GET',
       headers: { Authorization: `Bearer ${token}` }
     });
@@ -167,10 +279,31 @@ export class RBACClient {
     });
   }
 
-  async assignRoleToUser(token: string, userId: string, roleId: string): Promise<void> {
+  async getLoginLockouts(token: string, page: number = 1, limit: number = 50): Promise<{ data: LoginThrottleEntry[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const response = await this.makeRequest<{ data: LoginThrottleEntry[]; pagination: { page: number; limit: number; total: number; pages: number } }>(`/api/users/lockouts?page=${page}&limit=${limit}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response;
+  }
+
+  async clearLoginLockout(token: string, keyType: LoginThrottleKeyType, key: string): Promise<void> {
+    await this.makeRequest(`/api/users/lockouts/${keyType}/${encodeURIComponent(key)}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  async assignRoleToUser(
+    token: string,
+    userId: string,
+    roleId: string,
+    validity: { validFrom?: Date; validUntil?: Date } = {}
+  ): Promise<void> {
     await this.makeRequest(`/api/users/${userId}/roles/${roleId}`, {
       method: 'POST',
-      headers: { Authorization: `Bearer ${token}` }
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(validity)
     });
   }
 
@@ -182,7 +315,7 @@ export class RBACClient {
   }
 
   // Role management methods
-  async createRole(token: string, roleData: { name: string; description?: string; isActive?: boolean }): Promise<{ id: string; name: string; description?: string; isActive: boolean; createdAt: Date }> {
+  async createRole(token: string, roleData: { name: string; description?: string; isActive?: boolean; requiresMfa?: boolean }): Promise<{ id: string; name: string; description?: string; isActive: boolean; createdAt: Date }> {
     const response = await this.makeRequest<{ data: { id: string; name: string; description?: string; isActive: boolean; createdAt: Date } }>('/api/roles', {
       method: 'POST',
       headers: { Authorization: `Bearer ${token}` },
@@ -199,15 +332,15 @@ export class RBACClient {
     return response;
   }
 
-  async getRoleById(token: string, roleId: string): Promise<{ role: Role; permissions: Permission[] }> {
-    const response = await this.makeRequest<{ data: { role: Role; permissions: Permission[] } }>(`/api/roles/${roleId}`, {
+  async getRoleById(token: string, roleId: string): Promise<{ role: Role; parents: Role[]; permissions: GrantedPermission[]; inheritedPermissions: GrantedPermission[] }> {
+    const response = await this.makeRequest<{ data: { role: Role; parents: Role[]; permissions: GrantedPermission[]; inheritedPermissions: GrantedPermission[] } }>(`/api/roles/${roleId}`, {
       method: 'GET',
       headers: { Authorization: `Bearer ${token}` }
     });
     return response.data;
   }
 
-  async updateRole(token: string, roleId: string, roleData: { name?: string; description?: string; isActive?: boolean }): Promise<Role> {
+  async updateRole(token: string, roleId: string, roleData: { name?: string; description?: string; isActive?: boolean; requiresMfa?: boolean }): Promise<Role> {
     const response = await this.makeRequest<{ data: Role }>(`/api/roles/${roleId}`, {
       method: 'PUT',
       headers: { Authorization: `Bearer ${token}` },
@@ -223,10 +356,17 @@ export class RBACClient {
     });
   }
 
-  async assignPermissionToRole(token: string, roleId: string, permissionId: string): Promise<void> {
+  async assignPermissionToRole(
+    token: string,
+    roleId: string,
+    permissionId: string,
+    effect: PermissionEffect = 'allow',
+    condition?: string
+  ): Promise<void> {
     await this.makeRequest(`/api/roles/${roleId}/permissions/${permissionId}`, {
       method: 'POST',
-      headers: { Authorization: `Bearer ${token}` }
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ effect, condition })
     });
   }
 
@@ -237,6 +377,20 @@ export class RBACClient {
     });
   }
 
+  async addParentRole(token: string, roleId: string, parentRoleId: string): Promise<void> {
+    await this.makeRequest(`/api/roles/${roleId}/parents/${parentRoleId}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  async removeParentRole(token: string, roleId: string, parentRoleId: string): Promise<void> {
+    await this.makeRequest(`/api/roles/${roleId}/parents/${parentRoleId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
   // Permission management methods
   async createPermission(token: string, permissionData: { name: string; resource: string; action: string; description?: string }): Promise<{ id: string; name: string; resource: string; action: string; description?: string; createdAt: Date }> {
     const response = await this.makeRequest<{ data: { id: string; name: string; resource: string; action: string; description?: string; createdAt: Date } }>('/api/permissions', {
@@ -279,8 +433,224 @@ export class RBACClient {
     });
   }
 
+  // Resource instance grant methods
+  async grantResourcePermission(token: string, grantData: { permissionId: string; resourceId: string; subjectType: ResourceGrantSubjectType; subjectId: string }): Promise<ResourceGrant> {
+    const response = await this.makeRequest<{ data: ResourceGrant }>('/api/resource-grants', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(grantData)
+    });
+    return response.data;
+  }
+
+  async getResourceGrants(token: string, resourceId: string): Promise<ResourceGrant[]> {
+    const response = await this.makeRequest<{ data: ResourceGrant[] }>(`/api/resource-grants?resourceId=${encodeURIComponent(resourceId)}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  async revokeResourcePermission(token: string, grantId: string): Promise<void> {
+    await this.makeRequest(`/api/resource-grants/${grantId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  // Organization management methods
+  async createOrganization(token: string, organizationData: { name: string; slug: string; isActive?: boolean }): Promise<Organization> {
+    const response = await this.makeRequest<{ data: Organization }>('/api/organizations', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(organizationData)
+    });
+    return response.data;
+  }
+
+  async getOrganizations(token: string, page: number = 1, limit: number = 10): Promise<{ data: Organization[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const response = await this.makeRequest<{ data: Organization[]; pagination: { page: number; limit: number; total: number; pages: number } }>(`/api/organizations?page=${page}&limit=${limit}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response;
+  }
+
+  async getOrganizationById(token: string, organizationId: string): Promise<Organization> {
+    const response = await this.makeRequest<{ data: Organization }>(`/api/organizations/${organizationId}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  async updateOrganization(token: string, organizationId: string, organizationData: { name?: string; slug?: string; isActive?: boolean }): Promise<Organization> {
+    const response = await this.makeRequest<{ data: Organization }>(`/api/organizations/${organizationId}`, {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(organizationData)
+    });
+    return response.data;
+  }
+
+  async deleteOrganization(token: string, organizationId: string): Promise<void> {
+    await this.makeRequest(`/api/organizations/${organizationId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  async getOrganizationMembers(token: string, organizationId: string, page: number = 1, limit: number = 10): Promise<{ data: Omit<User, 'password'>[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const response = await this.makeRequest<{ data: Omit<User, 'password'>[]; pagination: { page: number; limit: number; total: number; pages: number } }>(`/api/organizations/${organizationId}/members?page=${page}&limit=${limit}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response;
+  }
+
+  async addOrganizationMember(token: string, organizationId: string, userId: string): Promise<void> {
+    await this.makeRequest(`/api/organizations/${organizationId}/members/${userId}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  async removeOrganizationMember(token: string, organizationId: string, userId: string): Promise<void> {
+    await this.makeRequest(`/api/organizations/${organizationId}/members/${userId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  // Access request methods
+  async requestAccess(token: string, requestData: { roleId: string; reason: string; duration: string }): Promise<AccessRequest> {
+    const response = await this.makeRequest<{ data: AccessRequest }>('/api/access-requests', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(requestData)
+    });
+    return response.data;
+  }
+
+  async getAccessRequests(
+    token: string,
+    filters: { status?: AccessRequestStatus; userId?: string; roleId?: string } = {},
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ data: AccessRequest[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const query = new URLSearchParams({ ...filters, page: String(page), limit: String(limit) });
+    const response = await this.makeRequest<{ data: AccessRequest[]; pagination: { page: number; limit: number; total: number; pages: number } }>(`/api/access-requests?${query}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response;
+  }
+
+  async getAccessRequestById(token: string, requestId: string): Promise<AccessRequest> {
+    const response = await this.makeRequest<{ data: AccessRequest }>(`/api/access-requests/${requestId}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  async approveAccessRequest(token: string, requestId: string, reason?: string): Promise<AccessRequest> {
+    const response = await this.makeRequest<{ data: AccessRequest }>(`/api/access-requests/${requestId}/approve`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(reason ? { reason } : {})
+    });
+    return response.data;
+  }
+
+  async rejectAccessRequest(token: string, requestId: string, reason?: string): Promise<AccessRequest> {
+    const response = await this.makeRequest<{ data: AccessRequest }>(`/api/access-requests/${requestId}/reject`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(reason ? { reason } : {})
+    });
+    return response.data;
+  }
+
+  // Audit methods
+  async getAuditEvents(
+    token: string,
+    filters: { actorId?: string; action?: string; targetType?: string; targetId?: string; from?: Date; to?: Date } = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ data: AuditEvent[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const { from, to, ...rest } = filters;
+    const query = new URLSearchParams({
+      ...rest,
+      ...(from && { from: from.toISOString() }),
+      ...(to && { to: to.toISOString() }),
+      page: String(page),
+      limit: String(limit)
+    });
+    const response = await this.makeRequest<{ data: AuditEvent[]; pagination: { page: number; limit: number; total: number; pages: number } }>(`/api/audit?${query}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response;
+  }
+
+  async getRecentDenials(token: string, userId: string, limit: number = 20): Promise<AuthorizationDecision[]> {
+    const response = await this.makeRequest<{ data: AuthorizationDecision[] }>(`/api/audit/denials/${userId}?limit=${limit}`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  // Authorization methods
+  async explainAuthorization(
+    token: string,
+    userId: string,
+    resource: string,
+    action: string,
+    options: { resourceId?: string; context?: ConditionContext } = {}
+  ): Promise<AuthorizationExplanation> {
+    const response = await this.makeRequest<{ data: AuthorizationExplanation }>('/api/authorize/explain', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ userId, resource, action, ...options })
+    });
+    return response.data;
+  }
+
+  // Asks the RBAC service for a decision; requires `apiKey` to be a service key accepted by the service
+  async can(
+    userId: string,
+    check: { resource: string; action: string; resourceId?: string },
+    options: { tenantId?: string; context?: ConditionContext } = {}
+  ): Promise<boolean> {
+    const response = await this.makeRequest<{ data: { allowed: boolean } }>('/api/authorize', {
+      method: 'POST',
+      body: JSON.stringify({ userId, ...check, ...options })
+    });
+    return response.data.allowed;
+  }
+
+  // Decisions per user ID, keyed by 'resource:action' ('resource:action#resourceId' for instance checks)
+  async checkMany(
+    token: string,
+    checks: Array<{ resource: string; action: string; resourceId?: string }>,
+    userIds?: string[]
+  ): Promise<Record<string, Record<string, boolean>>> {
+    const response = await this.makeRequest<{ data: Record<string, Record<string, boolean>> }>('/api/authorize/batch', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(userIds ? { checks, userIds } : { checks })
+    });
+    return response.data;
+  }
+
   // Utility methods
   async healthCheck(): Promise<{ status: string; timestamp: string; service: string }> {
     return this.makeRequest('/health');
   }
+
+  async getJWKS(): Promise<JSONWebKeySet> {
+    return this.makeRequest<JSONWebKeySet>('/.well-known/jwks.json');
+  }
 }
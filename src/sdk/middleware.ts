@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { RBACClient } from './RBACClient';
+import { LocalTokenVerifier, LocalVerificationOptions } from './LocalTokenVerifier';
 import { JWTPayload, PermissionCheck } from '../types';
+import { anyPermissionNameMatches } from '../utils/permissions';
 
 // Extend Express Request interface
 declare global {
@@ -12,15 +14,40 @@ declare global {
   }
 }
 
+export interface TokenVerificationConfig extends LocalVerificationOptions {
+  /**
+   * 'remote' fetches the profile from the RBAC service on every request (default);
+   * 'local' verifies the JWT signature offline and trusts its roles/permissions claims
+   */
+  mode: 'remote' | 'local';
+  /** Age in seconds after which local claims are considered stale */
+  maxClaimsAge?: number;
+  /** Fetch the profile remotely when claims are stale instead of rejecting the token (default: true) */
+  fallbackToRemote?: boolean;
+}
+
 export interface RBACMiddlewareConfig {
   rbacClient: RBACClient;
   adminToken?: string; // Token for admin operations
+  verification?: TokenVerificationConfig;
+  /**
+   * 'claims' decides permissions from the verified token or profile (default);
+   * 'remote' asks the RBAC service for every check, so conditional and instance grants are honored
+   * and changes apply immediately. Requires the client's `apiKey` to be a service key
+   */
+  permissionChecks?: 'claims' | 'remote';
 }
 
 export class RBACMiddleware {
-  constructor(private config: RBACMiddlewareConfig) {}
+  private readonly localVerifier?: LocalTokenVerifier;
+
+  constructor(private config: RBACMiddlewareConfig) {
+    if (config.verification?.mode === 'local') {
+      this.localVerifier = new LocalTokenVerifier(config.verification, () => config.rbacClient.getJWKS());
+    }
+  }
 
-  // Middleware to verify JWT token using RBAC service
+  // Middleware to verify JWT token, remotely or against the signing keys depending on config
   verifyToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const authHeader = req.headers.authorization;
@@ -31,24 +58,15 @@ export class RBACMiddleware {
       }
 
       const token = authHeader.substring(7);
+      const payload = this.localVerifier
+        ? await this.verifyLocally(token)
+        : await this.fetchRemotePayload(token);
       
-      // Get user profile from RBAC service
-      const profile = await this.config.rbacClient.getProfile(token);
-      
-      if (!profile) {
+      if (!payload) {
         res.status(401).json({ error: 'Token inválido ou expirado' });
         return;
       }
 
-      // Create JWT payload from profile
-      const payload: JWTPayload = {
-        userId: profile.user.id,
-        username: profile.user.username,
-        email: profile.user.email,
-        roles: profile.roles.map(role => role.name),
-        permissions: profile.permissions.map(permission => permission.name)
-      };
-
       req.user = payload;
       req.rbacClient = this.config.rbacClient;
       next();
@@ -57,6 +75,55 @@ export class RBACMiddleware {
     }
   };
 
+  // Verifies the token offline; stale claims are refreshed from the RBAC service if allowed
+  private async verifyLocally(token: string): Promise<JWTPayload | null> {
+    const payload = await this.localVerifier!.verify(token);
+    const { maxClaimsAge, fallbackToRemote = true } = this.config.verification!;
+
+    const claimsAge = Math.floor(Date.now() / 1000) - (payload.iat || 0);
+    if (maxClaimsAge === undefined || claimsAge <= maxClaimsAge) {
+      return payload;
+    }
+
+    return fallbackToRemote ? this.fetchRemotePayload(token) : null;
+  }
+
+  // Gets the user profile from the RBAC service and builds the payload from it
+  private async fetchRemotePayload(token: string): Promise<JWTPayload | null> {
+    const profile = await this.config.rbacClient.getProfile(token);
+    
+    if (!profile) {
+      return null;
+    }
+
+    return {
+      userId: profile.user.id,
+      username: profile.user.username,
+      email: profile.user.email,
+      roles: profile.roles.map(role => role.name),
+      // Conditions are evaluated by the RBAC service only, so conditional allows are not trusted here
+      permissions: profile.permissions
+        .filter(permission => !permission.condition)
+        .map(permission => permission.name),
+      deniedPermissions: profile.deniedPermissions.map(permission => permission.name),
+      tenantId: profile.tenantId
+    };
+  }
+
+  // Remote mode asks the RBAC service; otherwise deny overrides: a matching denied permission wins over any granted one
+  private async isPermitted(user: JWTPayload, permissionCheck: PermissionCheck): Promise<boolean> {
+    if (this.config.permissionChecks === 'remote') {
+      return this.config.rbacClient.can(user.userId, permissionCheck, { tenantId: user.tenantId });
+    }
+
+    if (user.deniedPermissions && anyPermissionNameMatches(user.deniedPermissions, permissionCheck)) {
+      return false;
+    }
+
+    // Permission names in the claims may contain wildcards ('users:*', '*:read', '*')
+    return anyPermissionNameMatches(user.permissions, permissionCheck);
+  }
+
   // Middleware to check if user has specific role
   requireRole = (roleName: string) => {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -89,13 +156,7 @@ export class RBACMiddleware {
           return;
         }
 
-        // Check if user has the specific permission
-        const hasPermission = req.user.permissions.some(permission => {
-          // This is a simplified check - in a real implementation,
-          // you might want to parse the permission name to extract resource and action
-          return permission === `${permissionCheck.resource}:${permissionCheck.action}` ||
-                 permission === `${permissionCheck.resource}.${permissionCheck.action}`;
-        });
+        const hasPermission = await this.isPermitted(req.user, permissionCheck);
         
         if (!hasPermission) {
           res.status(403).json({ 
@@ -145,14 +206,11 @@ export class RBACMiddleware {
           return;
         }
 
-        const hasAnyPermission = permissionChecks.some(permissionCheck => {
-          return req.user!.permissions.some(permission => {
-            return permission === `${permissionCheck.resource}:${permissionCheck.action}` ||
-                   permission === `${permissionCheck.resource}.${permissionCheck.action}`;
-          });
-        });
+        const hasAnyPermission = await Promise.all(
+          permissionChecks.map(permissionCheck => this.isPermitted(req.user!, permissionCheck))
+        );
 
-        if (!hasAnyPermission) {
+        if (!hasAnyPermission.some(hasPermission => hasPermission)) {
           res.status(403).json({ 
             error: 'Acesso negado. Pelo menos uma das permissões é necessária' 
           });
@@ -182,10 +240,7 @@ export class RBACMiddleware {
         }
 
         const isAdmin = req.user.roles.includes('admin');
-        const hasPermission = req.user.permissions.some(permission => {
-          return permission === `${permissionCheck.resource}:${permissionCheck.action}` ||
-                 permission === `${permissionCheck.resource}.${permissionCheck.action}`;
-        });
+        const hasPermission = isAdmin || await this.isPermitted(req.user, permissionCheck);
 
         if (!isAdmin && !hasPermission) {
           res.status(403).json({ 
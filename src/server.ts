@@ -1,19 +1,30 @@
 import cors from 'cors';
 import dotenv from 'dotenv';
 import express from 'express';
+import fs from 'fs';
 import helmet from 'helmet';
+import { AccessRequestController } from './controllers/AccessRequestController';
+import { AuditController } from './controllers/AuditController';
+import { AuthorizationController } from './controllers/AuthorizationController';
 import { AuthController } from './controllers/AuthController';
+import { OrganizationController } from './controllers/OrganizationController';
 import { PermissionController } from './controllers/PermissionController';
+import { ResourceGrantController } from './controllers/ResourceGrantController';
 import { RoleController } from './controllers/RoleController';
 import { UserController } from './controllers/UserController';
 import { DatabaseConnection } from './database/connection';
 import { AuthMiddleware } from './middleware/auth';
+import { createAccessRequestRoutes } from './routes/accessRequests';
+import { createAuditRoutes } from './routes/audit';
+import { createAuthorizeRoutes } from './routes/authorize';
 import { createAuthRoutes } from './routes/auth';
+import { createOrganizationRoutes } from './routes/organizations';
 import { createPermissionRoutes } from './routes/permissions';
+import { createResourceGrantRoutes } from './routes/resourceGrants';
 import { createRoleRoutes } from './routes/roles';
 import { createUserRoutes } from './routes/users';
 import { RBACService } from './services/RBACService';
-import { RBACConfig } from './types';
+import { JWTAlgorithm, RBACConfig } from './types';
 
 // Load environment variables
 dotenv.config();
@@ -34,8 +45,98 @@ const config: RBACConfig = {
   },
   jwt: {
     secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production',
-    expiresIn: process.env.JWT_EXPIRES_IN || '24h'
-  }
+    algorithm: (process.env.JWT_ALGORITHM as JWTAlgorithm) || 'HS256',
+    keys: process.env.JWT_PUBLIC_KEY_PATH
+      ? [{
+        kid: process.env.JWT_KEY_ID,
+        privateKey: process.env.JWT_PRIVATE_KEY_PATH ? fs.readFileSync(process.env.JWT_PRIVATE_KEY_PATH, 'utf8') : undefined,
+        publicKey: fs.readFileSync(process.env.JWT_PUBLIC_KEY_PATH, 'utf8')
+      }]
+      : undefined,
+    rotation: process.env.JWT_ROTATION_INTERVAL
+      ? {
+        interval: process.env.JWT_ROTATION_INTERVAL,
+        gracePeriod: process.env.JWT_ROTATION_GRACE_PERIOD || '1d'
+      }
+      : undefined,
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d'
+  },
+  revocation: {
+    store: (process.env.TOKEN_REVOCATION_STORE as 'database' | 'memory') || 'database'
+  },
+  accessRequests: {
+    approverPermission: process.env.ACCESS_REQUEST_APPROVER_PERMISSION || 'access-requests:approve',
+    maxDuration: process.env.ACCESS_REQUEST_MAX_DURATION || '8h'
+  },
+  passwordHashing: {
+    algorithm: (process.env.PASSWORD_HASH_ALGORITHM as 'bcrypt' | 'scrypt' | 'argon2') || 'bcrypt',
+    bcrypt: { rounds: Number(process.env.BCRYPT_ROUNDS || 10) },
+    scrypt: { cost: Number(process.env.SCRYPT_COST || 16384) },
+    argon2: {
+      memoryCost: Number(process.env.ARGON2_MEMORY_COST || 19456),
+      timeCost: Number(process.env.ARGON2_TIME_COST || 2)
+    }
+  },
+  passwordPolicy: {
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH || 6),
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE === 'true',
+    requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE === 'true',
+    requireDigit: process.env.PASSWORD_REQUIRE_DIGIT === 'true',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+    disallowUserInfo: process.env.PASSWORD_DISALLOW_USER_INFO === 'true',
+    maxAge: process.env.PASSWORD_MAX_AGE,
+    historySize: Number(process.env.PASSWORD_HISTORY_SIZE || 0),
+    breachedPasswordsFile: process.env.BREACHED_PASSWORDS_FILE
+  },
+  loginThrottling: {
+    maxAttempts: Number(process.env.LOGIN_MAX_ATTEMPTS || 5),
+    ipMaxAttempts: Number(process.env.LOGIN_IP_MAX_ATTEMPTS || 20),
+    lockoutDuration: process.env.LOGIN_LOCKOUT_DURATION || '15m',
+    window: process.env.LOGIN_FAILURE_WINDOW || '15m'
+  },
+  email: process.env.MAILER
+    ? {
+      mailer: process.env.MAILER as 'console' | 'file',
+      filePath: process.env.MAILER_FILE,
+      from: process.env.MAIL_FROM,
+      appUrl: process.env.APP_URL,
+      passwordResetExpiresIn: process.env.PASSWORD_RESET_EXPIRES_IN || '1h',
+      verificationExpiresIn: process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h',
+      requireVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true'
+    }
+    : undefined,
+  mfa: {
+    issuer: process.env.MFA_ISSUER || 'RBAC System',
+    challengeExpiresIn: process.env.MFA_CHALLENGE_EXPIRES_IN || '5m'
+  },
+  roleAssignments: {
+    sweepInterval: process.env.ROLE_ASSIGNMENT_SWEEP_INTERVAL || '1m',
+    onExpiry: (process.env.ROLE_ASSIGNMENT_ON_EXPIRY as 'delete' | 'archive') || 'delete'
+  },
+  invalidationBus: process.env.PERMISSION_INVALIDATION_BUS === 'postgres'
+    ? {
+      bus: 'postgres',
+      channel: process.env.PERMISSION_INVALIDATION_CHANNEL
+    }
+    : undefined,
+  serviceAuth: {
+    apiKeys: (process.env.SERVICE_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean)
+  },
+  permissionCache: process.env.PERMISSION_CACHE === 'true'
+    ? {
+      maxEntries: Number(process.env.PERMISSION_CACHE_MAX_ENTRIES || 10000),
+      ttl: process.env.PERMISSION_CACHE_TTL || '1m'
+    }
+    : undefined,
+  decisionLog: process.env.DECISION_LOG_SINK
+    ? {
+      sink: process.env.DECISION_LOG_SINK as 'database' | 'file',
+      filePath: process.env.DECISION_LOG_FILE,
+      recordDenies: process.env.DECISION_LOG_RECORD_DENIES !== 'false',
+      allowSampleRate: Number(process.env.DECISION_LOG_ALLOW_SAMPLE_RATE || 0)
+    }
+    : undefined
 };
 
 // Initialize database connection
@@ -45,12 +146,26 @@ const knex = dbConnection.getKnex();
 // Initialize services
 const rbacService = new RBACService(knex, config);
 const authMiddleware = new AuthMiddleware(rbacService);
+rbacService.onRoleAssignmentsExpired(assignments => {
+  console.log(`⏰ ${assignments.length} atribuição(ões) de role expirada(s)`);
+});
+rbacService.startAssignmentSweeper();
 
 // Initialize controllers
 const authController = new AuthController(rbacService);
 const userController = new UserController(rbacService);
 const roleController = new RoleController(rbacService);
 const permissionController = new PermissionController(rbacService);
+const organizationController = new OrganizationController(rbacService);
+const resourceGrantController = new ResourceGrantController(rbacService);
+const accessRequestController = new AccessRequestController(rbacService);
+const auditController = new AuditController(rbacService);
+const authorizationController = new AuthorizationController(rbacService);
+
+// Behind a reverse proxy, client addresses (used to throttle logins) come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
 
 // Middleware
 app.use(helmet());
@@ -67,11 +182,22 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Public keys for offline token verification
+app.get('/.well-known/jwks.json', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(rbacService.getJWKS());
+});
+
 // API routes
 app.use('/api/auth', createAuthRoutes(authController, authMiddleware));
 app.use('/api/users', createUserRoutes(userController, authMiddleware));
 app.use('/api/roles', createRoleRoutes(roleController, authMiddleware));
 app.use('/api/permissions', createPermissionRoutes(permissionController, authMiddleware));
+app.use('/api/organizations', createOrganizationRoutes(organizationController, authMiddleware));
+app.use('/api/resource-grants', createResourceGrantRoutes(resourceGrantController, authMiddleware));
+app.use('/api/access-requests', createAccessRequestRoutes(accessRequestController, authMiddleware));
+app.use('/api/audit', createAuditRoutes(auditController, authMiddleware));
+app.use('/api/authorize', createAuthorizeRoutes(authorizationController, authMiddleware));
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -84,23 +210,32 @@ app.use('*', (req, res) => {
   res.status(404).json({ error: 'Endpoint não encontrado' });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Servidor RBAC rodando na porta ${PORT}`);
-  console.log(`📊 Ambiente: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🗄️  Banco de dados: ${config.database.type}`);
-  console.log(`🔗 Health check: http://localhost:${PORT}/health`);
-});
+// Start server once the signing keys shared with other instances are loaded
+rbacService.startKeyRotation()
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`🚀 Servidor RBAC rodando na porta ${PORT}`);
+      console.log(`📊 Ambiente: ${process.env.NODE_ENV || 'development'}`);
+      console.log(`🗄️  Banco de dados: ${config.database.type}`);
+      console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+    });
+  })
+  .catch(error => {
+    console.error('Erro ao carregar as chaves de assinatura:', error);
+    process.exit(1);
+  });
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Encerrando servidor...');
+  await rbacService.closeInvalidationBus();
   await dbConnection.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Encerrando servidor...');
+  await rbacService.closeInvalidationBus();
   await dbConnection.close();
   process.exit(0);
 });
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { AuthorizationDecision, DecisionSink, RBACConfig } from '../types';
+
+/**
+ * Decision sink appending one JSON object per line to a file
+ * Suited for shipping to a log pipeline; it cannot be queried back
+ */
+export class FileDecisionSink implements DecisionSink {
+  /**
+   * Creates a new FileDecisionSink instance
+   * @param filePath - File decisions are appended to; created if missing
+   */
+  constructor(private readonly filePath: string) {}
+
+  async write(decision: AuthorizationDecision): Promise<void> {
+    await fs.appendFile(this.filePath, `${JSON.stringify(decision)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Samples authorization decisions and forwards the retained ones to a sink
+ * Denies are kept unless `recordDenies` is false; allows are kept with probability `allowSampleRate`
+ */
+export class DecisionLogger {
+  /**
+   * Creates a new DecisionLogger instance
+   * @param sink - Destination of retained decisions
+   * @param config - Decision log section of the RBAC system configuration
+   * @param random - Source of randomness for sampling (returns a number in [0, 1))
+   */
+  constructor(
+    private readonly sink: DecisionSink,
+    private readonly config: Pick<NonNullable<RBACConfig['decisionLog']>, 'recordDenies' | 'allowSampleRate'> = {},
+    private readonly random: () => number = Math.random
+  ) {}
+
+  /**
+   * Checks whether a decision with the given outcome should be recorded
+   * @param allowed - Outcome of the decision
+   */
+  shouldRecord(allowed: boolean): boolean {
+    if (!allowed) {
+      return this.config.recordDenies !== false;
+    }
+    return this.random() < (this.config.allowSampleRate || 0);
+  }
+
+  /**
+   * Records a decision if it is sampled; sink failures are logged, never thrown,
+   * so decision logging cannot break authorization
+   * @param decision - Decision to record
+   */
+  async record(decision: AuthorizationDecision): Promise<void> {
+    if (!this.shouldRecord(decision.allowed)) {
+      return;
+    }
+
+    try {
+      await this.sink.write(decision);
+    } catch (error) {
+      console.error('Erro ao registrar decisão de autorização:', error);
+    }
+  }
+
+  /**
+   * Gets the most recent denials of a user
+   * @returns Promise<AuthorizationDecision[] | null> - The denials, or null if the sink cannot be queried
+   */
+  async getRecentDenials(userId: string, limit: number, organizationId?: string): Promise<AuthorizationDecision[] | null> {
+    if (!this.sink.getRecentDenials) {
+      return null;
+    }
+    return this.sink.getRecentDenials(userId, limit, organizationId);
+  }
+}
@@ -0,0 +1,140 @@
+import { EventEmitter } from 'events';
+import { Knex } from 'knex';
+import { Client as PgClient, Notification } from 'pg';
+import { InvalidationBus, PermissionInvalidation } from '../types';
+
+/** Default Postgres notification channel */
+export const DEFAULT_INVALIDATION_CHANNEL = 'rbac_invalidation';
+
+/** Postgres rejects NOTIFY payloads of 8000 bytes or more */
+const MAX_PAYLOAD_BYTES = 7900;
+
+/** Delay before re-listening after the listening connection is lost */
+const RECONNECT_DELAY_MS = 1000;
+
+const INVALIDATION_EVENT = 'invalidation';
+
+/**
+ * Bus connecting RBAC instances within one process
+ * Share one instance between the services (e.g. tests, workers in a single process)
+ */
+export class InProcessInvalidationBus implements InvalidationBus {
+  private readonly emitter = new EventEmitter();
+
+  async publish(invalidation: PermissionInvalidation): Promise<void> {
+    this.emitter.emit(INVALIDATION_EVENT, invalidation);
+  }
+
+  async subscribe(listener: (invalidation: PermissionInvalidation) => void): Promise<void> {
+    this.emitter.on(INVALIDATION_EVENT, listener);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners(INVALIDATION_EVENT);
+  }
+}
+
+/**
+ * Bus over Postgres LISTEN/NOTIFY, for replicas sharing a database
+ * Listening uses a dedicated connection outside the pool; when it is lost the bus reconnects
+ * and tells listeners to drop everything, since invalidations may have been missed meanwhile
+ */
+export class PostgresInvalidationBus implements InvalidationBus {
+  private readonly listeners: Array<(invalidation: PermissionInvalidation) => void> = [];
+  private connection?: PgClient;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  /**
+   * Creates a new PostgresInvalidationBus instance
+   * @param knex - Knex instance connected to Postgres
+   * @param channel - Notification channel (a plain SQL identifier)
+   */
+  constructor(private readonly knex: Knex, private readonly channel: string = DEFAULT_INVALIDATION_CHANNEL) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+      throw new Error(`Canal de invalidação inválido: '${channel}'`);
+    }
+  }
+
+  async publish(invalidation: PermissionInvalidation): Promise<void> {
+    let payload = JSON.stringify(invalidation);
+    // Too many users for one notification: invalidate everyone instead
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      payload = JSON.stringify({ origin: invalidation.origin });
+    }
+
+    await this.knex.raw('select pg_notify(?, ?)', [this.channel, payload]);
+  }
+
+  async subscribe(listener: (invalidation: PermissionInvalidation) => void): Promise<void> {
+    this.listeners.push(listener);
+    if (!this.connection && !this.reconnectTimer) {
+      await this.listen();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+
+    const connection = this.connection;
+    this.connection = undefined;
+    if (connection) {
+      await this.knex.client.destroyRawConnection(connection);
+    }
+  }
+
+  private async listen(): Promise<void> {
+    const connection: PgClient = await this.knex.client.acquireRawConnection();
+
+    connection.on('notification', (message: Notification) => {
+      if (message.channel !== this.channel || !message.payload) {
+        return;
+      }
+
+      try {
+        this.dispatch(JSON.parse(message.payload));
+      } catch (error) {
+        console.error('Notificação de invalidação malformada:', error);
+      }
+    });
+    connection.on('error', () => this.reconnect(connection));
+    connection.on('end', () => this.reconnect(connection));
+
+    try {
+      await connection.query(`LISTEN ${this.channel}`);
+    } catch (error) {
+      await this.knex.client.destroyRawConnection(connection).catch(() => undefined);
+      throw error;
+    }
+    this.connection = connection;
+  }
+
+  private reconnect(lost: PgClient): void {
+    if (this.closed || this.reconnectTimer || (this.connection && this.connection !== lost)) {
+      return;
+    }
+
+    this.connection = undefined;
+    this.knex.client.destroyRawConnection(lost).catch(() => undefined);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      try {
+        await this.listen();
+        this.dispatch({});
+      } catch (error) {
+        console.error('Erro ao reconectar ao canal de invalidação:', error);
+        this.reconnect(lost);
+      }
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+
+  private dispatch(invalidation: PermissionInvalidation): void {
+    for (const listener of this.listeners) {
+      listener(invalidation);
+    }
+  }
+}
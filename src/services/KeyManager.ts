@@ -0,0 +1,396 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SigningKeyRepository } from '../repositories/SigningKeyRepository';
+import { JWTAlgorithm, RBACConfig, SigningKey } from '../types';
+import { parseDuration } from '../utils/duration';
+
+/** Longest delay Node timers support; longer ones overflow and fire right away */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** How often keys rotated by other instances are picked up from the database */
+const KEY_SYNC_INTERVAL_MS = 60 * 1000;
+
+/** Time between storing a scheduled key and signing with it, so every instance has picked it up by then */
+const KEY_ACTIVATION_DELAY_MS = 2 * KEY_SYNC_INTERVAL_MS;
+
+/**
+ * Public key in JSON Web Key format
+ */
+export interface JSONWebKey {
+  kid: string;
+  kty: string;
+  alg: string;
+  use: 'sig';
+  [parameter: string]: unknown;
+}
+
+/**
+ * JSON Web Key Set served at `/.well-known/jwks.json`
+ */
+export interface JSONWebKeySet {
+  keys: JSONWebKey[];
+}
+
+/**
+ * Key held by the KeyManager
+ */
+interface ManagedKey {
+  kid: string;
+  algorithm: JWTAlgorithm;
+  /** Private key or shared secret; absent for verification-only keys */
+  signingKey?: string;
+  /** Public key or shared secret */
+  verificationKey: string;
+  /** Instant the key starts signing (set for keys generated by rotation) */
+  activatesAt?: Date;
+  /** Instant after which the key is no longer accepted (set when rotated out) */
+  expiresAt?: Date;
+}
+
+/**
+ * Manages the keys used to sign and verify JWT tokens
+ * Supports a shared HS256 secret or RS256/ES256 key pairs identified by `kid`,
+ * with optional scheduled rotation that keeps replaced keys valid for a grace period.
+ * With a key repository, rotated keys are stored in the database and picked up by every instance,
+ * so restarts and replicas keep accepting each other's tokens
+ */
+export class KeyManager {
+  private readonly keys = new Map<string, ManagedKey>();
+  private readonly createdAt = Date.now();
+  private rotationTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates a new KeyManager instance
+   * @param config - JWT section of the RBAC system configuration
+   * @param keyRepository - Repository sharing rotated keys between instances (keys stay in memory when omitted)
+   * @throws Error if no usable signing key is configured
+   */
+  constructor(private readonly config: RBACConfig['jwt'], private readonly keyRepository?: SigningKeyRepository) {
+    const algorithm = config.algorithm || config.keys?.[0]?.algorithm || 'HS256';
+
+    if (algorithm === 'HS256') {
+      if (!config.secret) {
+        throw new Error('jwt.secret is required for HS256 signing');
+      }
+      if (config.rotation) {
+        throw new Error('jwt.rotation requires an asymmetric algorithm (RS256 or ES256)');
+      }
+
+      this.addKey({ kid: 'default', algorithm, signingKey: config.secret, verificationKey: config.secret });
+      return;
+    }
+
+    for (const keyConfig of config.keys || []) {
+      this.addKey({
+        kid: keyConfig.kid || this.computeKid(keyConfig.publicKey),
+        algorithm: keyConfig.algorithm || algorithm,
+        signingKey: keyConfig.privateKey,
+        verificationKey: keyConfig.publicKey
+      });
+    }
+
+    if (!Array.from(this.keys.values()).some(key => key.signingKey)) {
+      if (!config.rotation) {
+        throw new Error('jwt.keys must contain a private key for asymmetric signing');
+      }
+      // Replaced by the stored keys, if there are any, when rotation starts
+      this.addKey({ ...this.generateKey(algorithm), activatesAt: new Date() });
+    }
+  }
+
+  /**
+   * Signs a payload with the active key, setting the `kid` header
+   * @param payload - Claims to sign
+   * @param options - Additional sign options (expiration, jwtid...)
+   * @returns string - Signed JWT token
+   */
+  sign(payload: object, options: jwt.SignOptions = {}): string {
+    const key = this.getSigningKey();
+    return jwt.sign(payload, key.signingKey!, {
+      ...options,
+      algorithm: key.algorithm,
+      keyid: key.kid
+    });
+  }
+
+  /**
+   * Verifies a token against the key named in its `kid` header
+   * Tokens without `kid` (issued before key ids were introduced) are checked against the active key
+   * @param token - JWT token to verify
+   * @returns object - Decoded payload
+   * @throws Error if the token is malformed, expired, or signed with an unknown or expired key
+   */
+  verify(token: string): jwt.JwtPayload {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new Error('Malformed token');
+    }
+
+    const key = decoded.header.kid ? this.keys.get(decoded.header.kid) : this.getSigningKey();
+    if (!key || (key.expiresAt && key.expiresAt.getTime() <= Date.now())) {
+      throw new Error('Unknown signing key');
+    }
+
+    return jwt.verify(token, key.verificationKey, { algorithms: [key.algorithm] }) as jwt.JwtPayload;
+  }
+
+  /**
+   * Returns the public keys that currently verify tokens, including scheduled keys not signing yet
+   * Shared secrets are never published, so the set is empty for HS256
+   * @returns JSONWebKeySet - Key set for offline verification by other services
+   */
+  getJWKS(): JSONWebKeySet {
+    this.purgeExpiredKeys();
+
+    const keys = Array.from(this.keys.values())
+      .filter(key => key.algorithm !== 'HS256')
+      .map(key => ({
+        ...(crypto.createPublicKey(key.verificationKey).export({ format: 'jwk' }) as Record<string, unknown>),
+        kid: key.kid,
+        kty: key.algorithm === 'RS256' ? 'RSA' : 'EC',
+        alg: key.algorithm,
+        use: 'sig' as const
+      }));
+
+    return { keys };
+  }
+
+  /**
+   * Generates a new signing key, used right away, and keeps the previous one for the grace period
+   * Other instances sharing the key repository accept the new key once they pick it up, within a minute
+   * @returns Promise<string> - Key id of the new signing key
+   * @throws Error if rotation is not configured
+   */
+  async rotate(): Promise<string> {
+    if (!this.config.rotation) {
+      throw new Error('jwt.rotation is not configured');
+    }
+
+    return (await this.addRotatedKey(new Date())).kid;
+  }
+
+  /**
+   * Starts rotating the signing key every `jwt.rotation.interval`
+   * With a key repository, the stored keys are loaded first and checked for changes every minute.
+   * The timer does not keep the process alive
+   */
+  async startRotation(): Promise<void> {
+    if (!this.config.rotation || this.rotationTimer) {
+      return;
+    }
+
+    if (this.keyRepository) {
+      await this.syncKeys();
+    }
+    this.scheduleRotationCheck(0);
+  }
+
+  /**
+   * Stops scheduled key rotation
+   */
+  stopRotation(): void {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = undefined;
+    }
+  }
+
+  /**
+   * Returns the key id currently used for signing
+   */
+  getActiveKid(): string {
+    return this.getSigningKey().kid;
+  }
+
+  /**
+   * Waits for the next rotation or key sync, whichever comes first
+   * Chained timeouts instead of an interval, since rotation intervals can exceed what Node timers support
+   * @param minDelay - Shortest wait, to space out retries after a failure
+   */
+  private scheduleRotationCheck(minDelay: number): void {
+    const untilRotation = this.getNextRotationAt() - Date.now();
+    const delay = Math.min(
+      Math.max(untilRotation, minDelay),
+      this.keyRepository ? KEY_SYNC_INTERVAL_MS : MAX_TIMER_DELAY_MS
+    );
+
+    this.rotationTimer = setTimeout(async () => {
+      let retryDelay = 0;
+      try {
+        await this.checkRotation();
+      } catch (error) {
+        console.error('Erro na rotação da chave de assinatura:', error);
+        retryDelay = KEY_SYNC_INTERVAL_MS;
+      }
+
+      // Not rescheduled if rotation was stopped meanwhile
+      if (this.rotationTimer) {
+        this.scheduleRotationCheck(retryDelay);
+      }
+    }, delay);
+    this.rotationTimer.unref();
+  }
+
+  private async checkRotation(): Promise<void> {
+    if (this.keyRepository) {
+      await this.syncKeys();
+    }
+
+    if (Date.now() >= this.getNextRotationAt()) {
+      // A shared key is stored ahead of use, so every instance can verify its tokens by the time it signs
+      await this.addRotatedKey(new Date(Date.now() + (this.keyRepository ? KEY_ACTIVATION_DELAY_MS : 0)));
+    }
+  }
+
+  /**
+   * Rotation is due an interval after the latest generated key activated, or after startup
+   * when signing with configured keys
+   */
+  private getNextRotationAt(): number {
+    const activations = Array.from(this.keys.values())
+      .filter(key => key.signingKey && key.activatesAt)
+      .map(key => key.activatesAt!.getTime());
+    const latest = activations.length > 0 ? Math.max(...activations) : this.createdAt;
+
+    return latest + parseDuration(this.config.rotation!.interval);
+  }
+
+  private async addRotatedKey(activatesAt: Date): Promise<ManagedKey> {
+    const previous = this.getSigningKey();
+    const next: ManagedKey = { ...this.generateKey(previous.algorithm), activatesAt };
+
+    await this.keyRepository?.create(this.toSigningKey(next));
+    this.addKey(next);
+    previous.expiresAt = new Date(activatesAt.getTime() + parseDuration(this.config.rotation!.gracePeriod));
+    this.purgeExpiredKeys();
+
+    return next;
+  }
+
+  /**
+   * Loads the keys stored by every instance; each one expires a grace period after the next one activates
+   */
+  private async syncKeys(): Promise<void> {
+    const stored = await this.keyRepository!.findAll();
+    if (stored.length === 0) {
+      // First instance to rotate: share the key generated at startup
+      for (const key of this.keys.values()) {
+        if (key.signingKey && key.activatesAt) {
+          await this.keyRepository!.create(this.toSigningKey(key));
+        }
+      }
+      return;
+    }
+
+    const now = Date.now();
+    const gracePeriod = parseDuration(this.config.rotation!.gracePeriod);
+    const storedKids = new Set(stored.map(key => key.kid));
+    for (const key of this.keys.values()) {
+      if (storedKids.has(key.kid) || !key.signingKey || key.expiresAt) {
+        continue;
+      }
+      if (key.activatesAt) {
+        // Generated at startup and never shared: it stops signing, and its tokens stay valid for the grace period
+        key.signingKey = undefined;
+        key.expiresAt = new Date(now + gracePeriod);
+      } else {
+        key.expiresAt = new Date(stored[0].activatesAt.getTime() + gracePeriod);
+      }
+    }
+
+    const expiredKids: string[] = [];
+    stored.forEach((key, index) => {
+      const successor = stored[index + 1];
+      const expiresAt = successor ? new Date(successor.activatesAt.getTime() + gracePeriod) : undefined;
+      if (expiresAt && expiresAt.getTime() <= now) {
+        expiredKids.push(key.kid);
+        return;
+      }
+
+      this.addKey({
+        kid: key.kid,
+        algorithm: key.algorithm,
+        signingKey: key.privateKey,
+        verificationKey: key.publicKey,
+        activatesAt: key.activatesAt,
+        expiresAt
+      });
+    });
+
+    await this.keyRepository!.deleteMany(expiredKids);
+    this.purgeExpiredKeys();
+  }
+
+  /**
+   * The signing key with the latest activation among those active now; configured keys count as
+   * activated first, and the first configured key with a private key wins among them
+   */
+  private getSigningKey(): ManagedKey {
+    const now = Date.now();
+    let signingKey: ManagedKey | undefined;
+
+    for (const key of this.keys.values()) {
+      const activatesAt = key.activatesAt?.getTime() ?? 0;
+      if (!key.signingKey || activatesAt > now || (key.expiresAt && key.expiresAt.getTime() <= now)) {
+        continue;
+      }
+      if (!signingKey || activatesAt > (signingKey.activatesAt?.getTime() ?? 0)) {
+        signingKey = key;
+      }
+    }
+
+    if (!signingKey) {
+      throw new Error('No active signing key');
+    }
+    return signingKey;
+  }
+
+  private addKey(key: ManagedKey): ManagedKey {
+    this.keys.set(key.kid, key);
+    return key;
+  }
+
+  private generateKey(algorithm: JWTAlgorithm): ManagedKey {
+    const { publicKey, privateKey } = algorithm === 'ES256'
+      ? crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+      })
+      : crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+      });
+
+    return {
+      kid: this.computeKid(publicKey),
+      algorithm,
+      signingKey: privateKey,
+      verificationKey: publicKey
+    };
+  }
+
+  private toSigningKey(key: ManagedKey): SigningKey {
+    return {
+      kid: key.kid,
+      algorithm: key.algorithm,
+      privateKey: key.signingKey!,
+      publicKey: key.verificationKey,
+      activatesAt: key.activatesAt!
+    };
+  }
+
+  private computeKid(publicKey: string): string {
+    return crypto.createHash('sha256').update(publicKey).digest('base64url').substring(0, 16);
+  }
+
+  private purgeExpiredKeys(): void {
+    const now = Date.now();
+    for (const [kid, key] of this.keys) {
+      if (key.expiresAt && key.expiresAt.getTime() <= now) {
+        this.keys.delete(kid);
+      }
+    }
+  }
+}
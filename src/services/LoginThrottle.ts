@@ -0,0 +1,103 @@
+import { LoginThrottleRepository } from '../repositories/LoginThrottleRepository';
+import { LoginThrottleEntry, RBACConfig } from '../types';
+import { parseDuration } from '../utils/duration';
+
+/** Failures tolerated before delays start */
+const FREE_ATTEMPTS = 2;
+
+/**
+ * Thrown when a login is attempted while its username or IP address is delayed or locked
+ */
+export class LoginThrottledError extends Error {
+  constructor(public readonly retryAfter: number) {
+    super('Muitas tentativas de login. Tente novamente mais tarde');
+    this.name = 'LoginThrottledError';
+  }
+}
+
+/** Username or IP address failed logins are counted by */
+export type LoginThrottleKey = Pick<LoginThrottleEntry, 'keyType' | 'key'>;
+
+/**
+ * Brute-force protection for password logins
+ * Each failure of a username or IP address is counted; from the third one on the next attempt is
+ * delayed, doubling each time, and reaching the threshold locks the key for the lockout duration.
+ * Counters are kept in the database, so they survive restarts, and incremented there so concurrent failures all count
+ */
+export class LoginThrottle {
+  private readonly lockoutMs: number;
+  private readonly windowMs: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  /**
+   * Creates a new LoginThrottle instance
+   * @param repository - Storage for the counters
+   * @param config - Login throttling section of the RBAC system configuration
+   */
+  constructor(
+    private readonly repository: LoginThrottleRepository,
+    private readonly config: NonNullable<RBACConfig['loginThrottling']> = {}
+  ) {
+    this.lockoutMs = parseDuration(config.lockoutDuration || '15m');
+    this.windowMs = parseDuration(config.window || '15m');
+    this.baseDelayMs = parseDuration(config.baseDelay || '1s');
+    this.maxDelayMs = parseDuration(config.maxDelay || '30s');
+  }
+
+  /**
+   * Gets how long until a login may be attempted for every key
+   * @param keys - Username and IP address of the attempt
+   * @returns Promise<number> - Seconds to wait, 0 when the attempt is allowed
+   */
+  async getRetryAfter(keys: LoginThrottleKey[]): Promise<number> {
+    let retryAfterMs = 0;
+    for (const { keyType, key } of keys) {
+      const entry = await this.repository.find(keyType, key);
+      if (entry?.lockedUntil) {
+        retryAfterMs = Math.max(retryAfterMs, entry.lockedUntil.getTime() - Date.now());
+      }
+    }
+
+    return Math.ceil(retryAfterMs / 1000);
+  }
+
+  /**
+   * Counts a failed attempt against every key
+   * @param keys - Username and IP address of the attempt
+   */
+  async recordFailure(keys: LoginThrottleKey[]): Promise<void> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - this.windowMs);
+
+    for (const { keyType, key } of keys) {
+      const failures = await this.repository.incrementFailures(keyType, key, now, windowStart);
+      const lockedUntil = this.getLockedUntil(keyType, failures, now);
+      if (lockedUntil) {
+        await this.repository.extendLock(keyType, key, lockedUntil);
+      }
+    }
+  }
+
+  /**
+   * Forgets the failures of a key (after a successful login or by an administrator)
+   * @param key - Username or IP address
+   * @returns Promise<boolean> - True if failures were recorded for the key
+   */
+  async reset({ keyType, key }: LoginThrottleKey): Promise<boolean> {
+    return this.repository.delete(keyType, key);
+  }
+
+  private getLockedUntil(keyType: LoginThrottleKey['keyType'], failures: number, now: Date): Date | undefined {
+    const maxAttempts = keyType === 'ip' ? this.config.ipMaxAttempts || 20 : this.config.maxAttempts || 5;
+
+    if (failures >= maxAttempts) {
+      return new Date(now.getTime() + this.lockoutMs);
+    }
+    if (failures > FREE_ATTEMPTS) {
+      const delay = Math.min(this.baseDelayMs * 2 ** (failures - FREE_ATTEMPTS - 1), this.maxDelayMs);
+      return new Date(now.getTime() + delay);
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import { MailMessage, Mailer } from '../types';
+
+/**
+ * Mailer printing messages to the console, for local development
+ * Messages carry live tokens, so it must not be used in production
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Para: ${message.to}\nAssunto: ${message.subject}\n\n${message.text}\n`);
+  }
+}
+
+/**
+ * Mailer appending one JSON object per message to a file, for local use and tests
+ */
+export class FileMailer implements Mailer {
+  /**
+   * Creates a new FileMailer instance
+   * @param filePath - File messages are appended to; created if missing
+   */
+  constructor(private readonly filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.appendFile(this.filePath, `${JSON.stringify({ ...message, sentAt: new Date() })}\n`, 'utf8');
+  }
+}
@@ -0,0 +1,248 @@
+import { Algorithm, hash as argon2Hash, parseOptions as parseArgon2Options, verify as argon2Verify } from '@node-rs/argon2';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { PasswordHasher, RBACConfig } from '../types';
+
+type PasswordHashingConfig = NonNullable<RBACConfig['passwordHashing']>;
+
+/** Length of scrypt salts in bytes */
+const SCRYPT_SALT_LENGTH = 16;
+
+/** Length of scrypt keys in bytes */
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Hasher using bcrypt, the algorithm of every hash made before hashing became configurable
+ */
+export class BcryptHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+
+  /**
+   * Creates a new BcryptHasher instance
+   * @param rounds - Cost factor
+   */
+  constructor(private readonly rounds: number = 10) {}
+
+  async hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.rounds);
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
+  recognizes(hash: string): boolean {
+    return /^\$2[abxy]\$\d{2}\$/.test(hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    return bcrypt.getRounds(hash) !== this.rounds;
+  }
+}
+
+/**
+ * Hasher using the scrypt implementation built into Node
+ * Hashes are encoded as `$scrypt$ln=<log2 cost>,r=<block size>,p=<parallelization>$<salt>$<key>` in base64
+ */
+export class ScryptHasher implements PasswordHasher {
+  readonly algorithm = 'scrypt';
+  private readonly cost: number;
+  private readonly blockSize: number;
+  private readonly parallelization: number;
+
+  /**
+   * Creates a new ScryptHasher instance
+   * @param options - Cost parameters
+   * @throws Error if the cost is not a power of two
+   */
+  constructor(options: PasswordHashingConfig['scrypt'] = {}) {
+    this.cost = options.cost ?? 16384;
+    this.blockSize = options.blockSize ?? 8;
+    this.parallelization = options.parallelization ?? 1;
+
+    if (this.cost < 2 || !Number.isInteger(Math.log2(this.cost))) {
+      throw new Error(`Custo do scrypt inválido: ${this.cost}`);
+    }
+  }
+
+  async hash(password: string): Promise<string> {
+    const salt = crypto.randomBytes(SCRYPT_SALT_LENGTH);
+    const key = await this.derive(password, salt, this.cost, this.blockSize, this.parallelization);
+
+    return `$scrypt$ln=${Math.log2(this.cost)},r=${this.blockSize},p=${this.parallelization}`
+      + `$${salt.toString('base64')}$${key.toString('base64')}`;
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const parsed = this.parse(hash);
+    if (!parsed) {
+      return false;
+    }
+
+    const key = await this.derive(password, parsed.salt, parsed.cost, parsed.blockSize, parsed.parallelization);
+    return key.length === parsed.key.length && crypto.timingSafeEqual(key, parsed.key);
+  }
+
+  recognizes(hash: string): boolean {
+    return this.parse(hash) !== null;
+  }
+
+  needsRehash(hash: string): boolean {
+    const parsed = this.parse(hash);
+    return !parsed
+      || parsed.cost !== this.cost
+      || parsed.blockSize !== this.blockSize
+      || parsed.parallelization !== this.parallelization;
+  }
+
+  private parse(hash: string): { cost: number; blockSize: number; parallelization: number; salt: Buffer; key: Buffer } | null {
+    const match = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+=*)\$([A-Za-z0-9+/]+=*)$/.exec(hash);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      cost: 2 ** Number(match[1]),
+      blockSize: Number(match[2]),
+      parallelization: Number(match[3]),
+      salt: Buffer.from(match[4], 'base64'),
+      key: Buffer.from(match[5], 'base64')
+    };
+  }
+
+  private derive(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, {
+        N: cost,
+        r: blockSize,
+        p: parallelization,
+        // Node refuses to use more than 32 MiB by default; scrypt needs 128 * N * r bytes
+        maxmem: 256 * cost * blockSize
+      }, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+  }
+}
+
+/**
+ * Hasher using Argon2id
+ */
+export class Argon2Hasher implements PasswordHasher {
+  readonly algorithm = 'argon2';
+  private readonly memoryCost: number;
+  private readonly timeCost: number;
+  private readonly parallelism: number;
+
+  /**
+   * Creates a new Argon2Hasher instance
+   * @param options - Cost parameters (defaults follow the OWASP recommendation)
+   */
+  constructor(options: PasswordHashingConfig['argon2'] = {}) {
+    this.memoryCost = options.memoryCost ?? 19456;
+    this.timeCost = options.timeCost ?? 2;
+    this.parallelism = options.parallelism ?? 1;
+  }
+
+  async hash(password: string): Promise<string> {
+    return argon2Hash(password, {
+      algorithm: Algorithm.Argon2id,
+      memoryCost: this.memoryCost,
+      timeCost: this.timeCost,
+      parallelism: this.parallelism
+    });
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    try {
+      return await argon2Verify(hash, password);
+    } catch {
+      return false;
+    }
+  }
+
+  recognizes(hash: string): boolean {
+    return /^\$argon2(id|i|d)\$/.test(hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    try {
+      const options = parseArgon2Options(hash);
+      return options.algorithm !== Algorithm.Argon2id
+        || options.memoryCost !== this.memoryCost
+        || options.timeCost !== this.timeCost
+        || options.parallelism !== this.parallelism;
+    } catch {
+      return true;
+    }
+  }
+}
+
+/**
+ * Hashes new passwords with the configured algorithm and verifies hashes of any built-in one,
+ * so the algorithm and its cost can be changed without invalidating existing passwords
+ */
+export class PasswordHashing {
+  private readonly current: PasswordHasher;
+  private readonly hashers: PasswordHasher[];
+  private dummyHash?: Promise<string>;
+
+  /**
+   * Creates a new PasswordHashing instance
+   * @param config - Password hashing section of the RBAC system configuration
+   */
+  constructor(config: PasswordHashingConfig = {}) {
+    const builtIn: PasswordHasher[] = [
+      new BcryptHasher(config.bcrypt?.rounds),
+      new ScryptHasher(config.scrypt),
+      new Argon2Hasher(config.argon2)
+    ];
+    const algorithm = config.algorithm || 'bcrypt';
+
+    if (typeof algorithm === 'string') {
+      const current = builtIn.find(hasher => hasher.algorithm === algorithm);
+      if (!current) {
+        throw new Error(`Algoritmo de hash de senha desconhecido: '${algorithm}'`);
+      }
+      this.current = current;
+      this.hashers = builtIn;
+    } else {
+      this.current = algorithm;
+      this.hashers = [algorithm, ...builtIn];
+    }
+  }
+
+  /**
+   * Hashes a password with the configured algorithm
+   * @param password - Plain text password
+   * @returns Promise<string> - Encoded hash
+   */
+  async hash(password: string): Promise<string> {
+    return this.current.hash(password);
+  }
+
+  /**
+   * Checks a password against a hash made by any known algorithm
+   * Without a hash, a dummy one of the configured algorithm is checked, so callers can take as long
+   * for unknown accounts as for wrong passwords
+   * @param password - Plain text password
+   * @param hash - Encoded hash, if any
+   * @returns Promise<boolean> - True if the password matches
+   */
+  async verify(password: string, hash: string | undefined): Promise<boolean> {
+    if (!hash) {
+      this.dummyHash = this.dummyHash || this.current.hash(crypto.randomBytes(16).toString('hex'));
+      await this.current.verify(password, await this.dummyHash);
+      return false;
+    }
+
+    const hasher = this.hashers.find(candidate => candidate.recognizes(hash));
+    return hasher ? hasher.verify(password, hash) : false;
+  }
+
+  /**
+   * Checks whether a hash should be replaced: made by another algorithm or with other parameters
+   * @param hash - Encoded hash
+   */
+  needsRehash(hash: string): boolean {
+    return !this.current.recognizes(hash) || this.current.needsRehash(hash);
+  }
+}
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { PasswordPolicyViolation, RBACConfig, User } from '../types';
+import { parseDuration } from '../utils/duration';
+
+/** Shortest username or email local part looked for inside passwords */
+const MIN_USER_INFO_LENGTH = 3;
+
+/**
+ * Thrown when a new password breaks the password policy
+ */
+export class PasswordPolicyError extends Error {
+  constructor(public readonly violations: PasswordPolicyViolation[]) {
+    super('A senha não atende à política de senhas');
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+/**
+ * Checks new passwords against the configured rules
+ * The breached password list is read once, on first use, and kept in memory as a set of
+ * SHA-1 hashes, so it should be a subset (e.g. the most common breached passwords) rather than a full dump
+ */
+export class PasswordPolicy {
+  private breachedHashes?: Promise<Set<string>>;
+
+  /**
+   * Creates a new PasswordPolicy instance
+   * @param config - Password policy section of the RBAC system configuration
+   */
+  constructor(private readonly config: NonNullable<RBACConfig['passwordPolicy']> = {}) {}
+
+  /**
+   * Gets the rules a password breaks; reuse is checked separately since it needs the stored hashes
+   * @param password - Plain text password
+   * @param user - Username and email of the account the password is for
+   * @returns Promise<PasswordPolicyViolation[]> - Broken rules, empty when the password is accepted
+   */
+  async validate(password: string, user: Pick<User, 'username' | 'email'>): Promise<PasswordPolicyViolation[]> {
+    const violations: PasswordPolicyViolation[] = [];
+    const minLength = this.config.minLength ?? 6;
+    const maxLength = this.config.maxLength ?? 128;
+
+    if (password.length < minLength) {
+      violations.push({ code: 'too_short', message: `A senha deve ter pelo menos ${minLength} caracteres` });
+    }
+    if (password.length > maxLength) {
+      violations.push({ code: 'too_long', message: `A senha deve ter no máximo ${maxLength} caracteres` });
+    }
+    if (this.config.requireUppercase && !/\p{Lu}/u.test(password)) {
+      violations.push({ code: 'missing_uppercase', message: 'A senha deve conter uma letra maiúscula' });
+    }
+    if (this.config.requireLowercase && !/\p{Ll}/u.test(password)) {
+      violations.push({ code: 'missing_lowercase', message: 'A senha deve conter uma letra minúscula' });
+    }
+    if (this.config.requireDigit && !/\d/.test(password)) {
+      violations.push({ code: 'missing_digit', message: 'A senha deve conter um número' });
+    }
+    if (this.config.requireSymbol && !/[^\p{L}\d]/u.test(password)) {
+      violations.push({ code: 'missing_symbol', message: 'A senha deve conter um símbolo' });
+    }
+    if (this.config.disallowUserInfo && this.containsUserInfo(password, user)) {
+      violations.push({ code: 'contains_user_info', message: 'A senha não pode conter o nome de usuário ou o e-mail' });
+    }
+    if (this.config.breachedPasswordsFile && await this.isBreached(password)) {
+      violations.push({ code: 'breached', message: 'A senha aparece em vazamentos de dados conhecidos' });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Number of latest passwords that cannot be reused
+   */
+  getHistorySize(): number {
+    return this.config.historySize || 0;
+  }
+
+  /**
+   * Checks whether a password set at the given time is older than the maximum age
+   * @param changedAt - When the password was set
+   */
+  isExpired(changedAt: Date | undefined): boolean {
+    if (!this.config.maxAge || !changedAt) {
+      return false;
+    }
+    return Date.now() - changedAt.getTime() > parseDuration(this.config.maxAge);
+  }
+
+  private containsUserInfo(password: string, user: Pick<User, 'username' | 'email'>): boolean {
+    const lowered = password.toLowerCase();
+    return [user.username, user.email.split('@')[0]]
+      .map(value => value.toLowerCase())
+      .some(value => value.length >= MIN_USER_INFO_LENGTH && lowered.includes(value));
+  }
+
+  private async isBreached(password: string): Promise<boolean> {
+    if (!this.breachedHashes) {
+      this.breachedHashes = this.loadBreachedHashes(this.config.breachedPasswordsFile!);
+      // A failed load is retried on the next check instead of being cached
+      this.breachedHashes.catch(() => { this.breachedHashes = undefined; });
+    }
+
+    const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+    return (await this.breachedHashes).has(hash);
+  }
+
+  private async loadBreachedHashes(filePath: string): Promise<Set<string>> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const hashes = new Set<string>();
+
+    for (const line of content.split(/\r?\n/)) {
+      const hash = line.split(':')[0].trim().toUpperCase();
+      if (hash) {
+        hashes.add(hash);
+      }
+    }
+
+    return hashes;
+  }
+}
@@ -0,0 +1,131 @@
+import { CachedUserAuthorization, PermissionCacheAdapter, PermissionCacheStats } from '../types';
+
+/**
+ * In-memory least-recently-used adapter
+ * Entries also expire after `ttlMs`, which bounds staleness for changes that are not
+ * signalled (e.g. an assignment whose validity window starts later)
+ */
+export class LRUPermissionCacheAdapter implements PermissionCacheAdapter {
+  private readonly entries = new Map<string, { entry: CachedUserAuthorization; expiresAt: number }>();
+
+  /**
+   * Creates a new LRUPermissionCacheAdapter instance
+   * @param maxEntries - Number of users kept before the least recently used is evicted
+   * @param ttlMs - Lifetime of an entry in milliseconds
+   */
+  constructor(private readonly maxEntries: number = 10000, private readonly ttlMs: number = 60000) {}
+
+  async get(userId: string): Promise<CachedUserAuthorization | undefined> {
+    const cached = this.entries.get(userId);
+    if (!cached) {
+      return undefined;
+    }
+
+    this.entries.delete(userId);
+    if (cached.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-inserting moves the entry to the most recently used end
+    this.entries.set(userId, cached);
+    return cached.entry;
+  }
+
+  async set(userId: string, entry: CachedUserAuthorization): Promise<void> {
+    this.entries.delete(userId);
+    this.entries.set(userId, { entry, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.entries.delete(userId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Caches effective roles and role grants of users in front of the database
+ * Callers invalidate users whose assignments, roles or grants change; a load that races
+ * with an invalidation of the same user is not stored, so stale results cannot be cached
+ */
+export class PermissionCache {
+  private readonly generations = new Map<string, number>();
+  private globalGeneration = 0;
+  private readonly stats: PermissionCacheStats = { hits: 0, misses: 0, invalidations: 0 };
+
+  /**
+   * Creates a new PermissionCache instance
+   * @param adapter - Storage for the cached entries
+   */
+  constructor(private readonly adapter: PermissionCacheAdapter) {}
+
+  /**
+   * Gets a cached part of a user's authorization data, loading and storing it on a miss
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization the data was resolved in
+   * @param part - 'roles' or 'grants'
+   * @param load - Resolves the data from the database
+   */
+  async resolve<K extends 'roles' | 'grants'>(
+    userId: string,
+    tenantId: string | undefined,
+    part: K,
+    load: () => Promise<NonNullable<CachedUserAuthorization[string][K]>>
+  ): Promise<NonNullable<CachedUserAuthorization[string][K]>> {
+    const scope = tenantId || '';
+    const cached = (await this.adapter.get(userId))?.[scope]?.[part];
+    if (cached) {
+      this.stats.hits++;
+      return cached as NonNullable<CachedUserAuthorization[string][K]>;
+    }
+
+    this.stats.misses++;
+    const generation = this.getGeneration(userId);
+    const value = await load();
+
+    if (generation === this.getGeneration(userId)) {
+      const entry = (await this.adapter.get(userId)) || {};
+      await this.adapter.set(userId, { ...entry, [scope]: { ...entry[scope], [part]: value } });
+    }
+
+    return value;
+  }
+
+  /**
+   * Drops the cached data of some users
+   * @param userIds - IDs of the affected users
+   */
+  async invalidateUsers(userIds: Iterable<string>): Promise<void> {
+    for (const userId of new Set(userIds)) {
+      this.generations.set(userId, (this.generations.get(userId) || 0) + 1);
+      this.stats.invalidations++;
+      await this.adapter.delete(userId);
+    }
+  }
+
+  /**
+   * Drops every cached entry
+   */
+  async invalidateAll(): Promise<void> {
+    this.globalGeneration++;
+    this.generations.clear();
+    await this.adapter.clear();
+  }
+
+  /**
+   * Gets the hit, miss and invalidation counters since creation
+   */
+  getStats(): PermissionCacheStats {
+    return { ...this.stats };
+  }
+
+  private getGeneration(userId: string): string {
+    return `${this.globalGeneration}:${this.generations.get(userId) || 0}`;
+  }
+}
@@ -1,12 +1,115 @@
-import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { AccessRequestRepository } from '../repositories/AccessRequestRepository';
+import { AuditEventRepository } from '../repositories/AuditEventRepository';
+import { AuthorizationDecisionRepository } from '../repositories/AuthorizationDecisionRepository';
+import { LoginThrottleRepository } from '../repositories/LoginThrottleRepository';
+import { MfaChallengeRepository } from '../repositories/MfaChallengeRepository';
+import { MfaRepository } from '../repositories/MfaRepository';
+import { OrganizationRepository } from '../repositories/OrganizationRepository';
+import { PasswordHistoryRepository } from '../repositories/PasswordHistoryRepository';
 import { PermissionRepository } from '../repositories/PermissionRepository';
+import { RefreshTokenRepository } from '../repositories/RefreshTokenRepository';
+import { ResourceGrantRepository } from '../repositories/ResourceGrantRepository';
+import { RevokedTokenRepository } from '../repositories/RevokedTokenRepository';
+import { RoleParentRepository } from '../repositories/RoleParentRepository';
 import { RolePermissionRepository } from '../repositories/RolePermissionRepository';
 import { RoleRepository } from '../repositories/RoleRepository';
+import { SigningKeyRepository } from '../repositories/SigningKeyRepository';
 import { UserRepository } from '../repositories/UserRepository';
 import { UserRoleRepository } from '../repositories/UserRoleRepository';
-import { AuthResult, JWTPayload, Permission, PermissionCheck, RBACConfig, Role, User } from '../types';
+import { UserTokenRepository } from '../repositories/UserTokenRepository';
+import {
+  AccessRequest,
+  AccessRequestFilters,
+  AuditEvent,
+  AuditEventFilters,
+  AuthorizationContext,
+  AuthorizationDecision,
+  AuthorizationExplanation,
+  AuthResult,
+  ConditionContext,
+  DecisionSink,
+  GrantedPermission,
+  InvalidationBus,
+  GrantTrace,
+  GrantTraceOutcome,
+  JWTPayload,
+  LoginThrottleEntry,
+  LoginThrottleKeyType,
+  MailMessage,
+  Mailer,
+  MfaChallenge,
+  MfaChallengeResult,
+  MfaEnrollment,
+  Organization,
+  Permission,
+  PermissionCacheStats,
+  PermissionCheck,
+  PermissionEffect,
+  PermissionInvalidation,
+  RBACConfig,
+  ResourceGrant,
+  Role,
+  RoleAssignmentOptions,
+  RoleParent,
+  RoleTrace,
+  RoleTraceStatus,
+  User,
+  UserMfa,
+  UserRole,
+  UserToken,
+  UserTokenPurpose
+} from '../types';
+import { evaluateCondition, validateCondition } from '../utils/conditions';
+import { parseDuration } from '../utils/duration';
+import { parsePermissionName, permissionMatches } from '../utils/permissions';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { DecisionLogger, FileDecisionSink } from './DecisionLogger';
+import { PostgresInvalidationBus } from './InvalidationBus';
+import { JSONWebKeySet, KeyManager } from './KeyManager';
+import { LoginThrottle, LoginThrottledError, LoginThrottleKey } from './LoginThrottle';
+import { ConsoleMailer, FileMailer } from './Mailer';
+import { PasswordHashing } from './PasswordHasher';
+import { PasswordPolicy, PasswordPolicyError } from './PasswordPolicy';
+import { LRUPermissionCacheAdapter, PermissionCache } from './PermissionCache';
+import { ROLE_ASSIGNMENTS_EXPIRED, RoleAssignmentSweeper } from './RoleAssignmentSweeper';
+import { InMemoryTokenRevocationStore, TokenRevocationStore } from './TokenRevocationStore';
+
+/** Default lifetime of refresh tokens when `jwt.refreshExpiresIn` is not configured */
+const DEFAULT_REFRESH_EXPIRES_IN = '7d';
+
+/** Permission approvers of access requests need when `accessRequests.approverPermission` is not configured */
+const DEFAULT_ACCESS_APPROVER_PERMISSION = 'access-requests:approve';
+
+/** Longest elevation that can be requested when `accessRequests.maxDuration` is not configured */
+const DEFAULT_ACCESS_MAX_DURATION = '8h';
+
+/** Lifetime of entries in the default permission cache adapter when `permissionCache.ttl` is not configured */
+const DEFAULT_PERMISSION_CACHE_TTL = '1m';
+
+/** Service name shown in authenticator apps when `mfa.issuer` is not configured */
+const DEFAULT_MFA_ISSUER = 'RBAC System';
+
+/** Time allowed for the second login step when `mfa.challengeExpiresIn` is not configured */
+const DEFAULT_MFA_CHALLENGE_EXPIRES_IN = '5m';
+
+/** Sender of outgoing email when `email.from` is not configured */
+const DEFAULT_MAIL_FROM = 'no-reply@localhost';
+
+/** Lifetime of password reset tokens when `email.passwordResetExpiresIn` is not configured */
+const DEFAULT_PASSWORD_RESET_EXPIRES_IN = '1h';
+
+/** Lifetime of email verification tokens when `email.verificationExpiresIn` is not configured */
+const DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN = '24h';
+
+/** Wrong codes after which an MFA challenge is discarded */
+const MAX_MFA_CHALLENGE_ATTEMPTS = 5;
+
+/** Number of recovery codes issued at a time */
+const MFA_RECOVERY_CODE_COUNT = 10;
 
 /**
  * Core RBAC (Role-Based Access Control) Service
@@ -18,6 +121,29 @@ export class RBACService {
   private readonly permissionRepository: PermissionRepository;
   private readonly userRoleRepository: UserRoleRepository;
   private readonly rolePermissionRepository: RolePermissionRepository;
+  private readonly roleParentRepository: RoleParentRepository;
+  private readonly refreshTokenRepository: RefreshTokenRepository;
+  private readonly organizationRepository: OrganizationRepository;
+  private readonly resourceGrantRepository: ResourceGrantRepository;
+  private readonly accessRequestRepository: AccessRequestRepository;
+  private readonly auditEventRepository: AuditEventRepository;
+  private readonly mfaRepository: MfaRepository;
+  private readonly mfaChallengeRepository: MfaChallengeRepository;
+  private readonly userTokenRepository: UserTokenRepository;
+  private readonly loginThrottleRepository: LoginThrottleRepository;
+  private readonly loginThrottle: LoginThrottle;
+  private readonly passwordHistoryRepository: PasswordHistoryRepository;
+  private readonly passwordPolicy: PasswordPolicy;
+  private readonly passwordHashing: PasswordHashing;
+  private readonly revocationStore: TokenRevocationStore;
+  private readonly keyManager: KeyManager;
+  private readonly assignmentSweeper: RoleAssignmentSweeper;
+  private readonly decisionLogger?: DecisionLogger;
+  private readonly permissionCache?: PermissionCache;
+  private readonly mailer?: Mailer;
+  private readonly invalidationBus?: InvalidationBus;
+  /** Identifies this instance's own messages on the invalidation bus */
+  private readonly instanceId = uuidv4();
 
   /**
    * Creates a new RBACService instance
@@ -30,6 +156,43 @@ export class RBACService {
     this.permissionRepository = new PermissionRepository(knex);
     this.userRoleRepository = new UserRoleRepository(knex);
     this.rolePermissionRepository = new RolePermissionRepository(knex);
+    this.roleParentRepository = new RoleParentRepository(knex);
+    this.refreshTokenRepository = new RefreshTokenRepository(knex);
+    this.organizationRepository = new OrganizationRepository(knex);
+    this.resourceGrantRepository = new ResourceGrantRepository(knex);
+    this.accessRequestRepository = new AccessRequestRepository(knex);
+    this.auditEventRepository = new AuditEventRepository(knex);
+    this.mfaRepository = new MfaRepository(knex);
+    this.mfaChallengeRepository = new MfaChallengeRepository(knex);
+    this.userTokenRepository = new UserTokenRepository(knex);
+    this.loginThrottleRepository = new LoginThrottleRepository(knex);
+    this.loginThrottle = new LoginThrottle(this.loginThrottleRepository, config.loginThrottling);
+    this.passwordHistoryRepository = new PasswordHistoryRepository(knex);
+    this.passwordPolicy = new PasswordPolicy(config.passwordPolicy);
+    this.passwordHashing = new PasswordHashing(config.passwordHashing);
+    this.revocationStore = config.revocation?.store === 'memory'
+      ? new InMemoryTokenRevocationStore()
+      : new RevokedTokenRepository(knex);
+    this.keyManager = new KeyManager(config.jwt, config.jwt.rotation ? new SigningKeyRepository(knex) : undefined);
+    this.assignmentSweeper = new RoleAssignmentSweeper(this.userRoleRepository, config.roleAssignments);
+    this.decisionLogger = config.decisionLog && new DecisionLogger(this.createDecisionSink(config.decisionLog), config.decisionLog);
+    this.mailer = config.email && this.createMailer(config.email);
+    this.permissionCache = config.permissionCache && new PermissionCache(
+      config.permissionCache.adapter || new LRUPermissionCacheAdapter(
+        config.permissionCache.maxEntries,
+        parseDuration(config.permissionCache.ttl || DEFAULT_PERMISSION_CACHE_TTL)
+      )
+    );
+    this.invalidationBus = config.invalidationBus && (config.invalidationBus.bus === 'postgres'
+      ? new PostgresInvalidationBus(knex, config.invalidationBus.channel)
+      : config.invalidationBus.bus);
+    this.invalidationBus?.subscribe(invalidation => {
+      this.applyInvalidation(invalidation).catch(error => console.error('Erro ao aplicar invalidação de permissões:', error));
+    }).catch(error => console.error('Erro ao assinar o canal de invalidação:', error));
+    this.assignmentSweeper.on(ROLE_ASSIGNMENTS_EXPIRED, (expired: UserRole[]) => {
+      this.invalidateUserPermissions(expired.map(assignment => assignment.userId))
+        .catch(error => console.error('Erro ao invalidar cache de permissões:', error));
+    });
   }
 
   // ==================== USER MANAGEMENT ====================
@@ -38,43 +201,164 @@ export class RBACService {
    * Creates a new user with hashed password
    * @param userData - User data without id, createdAt, updatedAt
    * @returns Promise<User> - The created user with hashed password
+   * @throws PasswordPolicyError if the password breaks the password policy
    */
   async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
-    const hashedPassword = await bcrypt.hash(userData.password, 10);
-    return this.userRepository.create({
+    await this.assertPasswordAllowed(userData.password, userData);
+
+    const hashedPassword = await this.passwordHashing.hash(userData.password);
+    const user = await this.userRepository.create({
       ...userData,
       password: hashedPassword
     });
+    await this.recordPasswordHistory(user.id, hashedPassword);
+
+    return user;
   }
 
   /**
    * Authenticates a user with username and password
+   * When the user has enabled MFA, or holds a role that requires it, no tokens are issued yet:
+   * the result is a challenge to complete with completeMfaChallenge. With `email.requireVerification`,
+   * users whose address is not verified are rejected. Failed attempts are counted per username and
+   * IP address, whether the username exists or not, and delay or lock further attempts. Password hashes
+   * made with another algorithm or cost than the configured ones are replaced on success
    * @param username - User's username
    * @param password - User's plain text password
-   * @returns Promise<AuthResult | null> - Authentication result with user data and JWT token, or null if invalid
+   * @param tenantId - Organization to log into; the token then carries the roles held in it
+   * @param ipAddress - Address the attempt comes from, counted alongside the username
+   * @returns Promise<AuthResult | MfaChallengeResult | null> - Authentication result with user data and JWT token,
+   * an MFA challenge, or null if invalid
+   * @throws LoginThrottledError if the username or IP address is delayed or locked
    */
-  async authenticateUser(username: string, password: string): Promise<AuthResult | null> {
+  async authenticateUser(
+    username: string,
+    password: string,
+    tenantId?: string,
+    ipAddress?: string
+  ): Promise<AuthResult | MfaChallengeResult | null> {
+    const throttleKeys = this.getLoginThrottleKeys(username, ipAddress);
+    const retryAfter = await this.loginThrottle.getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      throw new LoginThrottledError(retryAfter);
+    }
+
     const user = await this.userRepository.findByUsername(username);
-    if (!user || !user.isActive) {
+    // Unknown users are checked against a dummy hash so response times do not reveal which usernames exist
+    const isValidPassword = await this.passwordHashing.verify(password, user?.password);
+    if (!user || !user.isActive || !isValidPassword) {
+      await this.loginThrottle.recordFailure(throttleKeys);
+      return null;
+    }
+
+    // The plain text password is only available now, so outdated hashes are upgraded on login
+    if (this.passwordHashing.needsRehash(user.password)) {
+      await this.userRepository.updatePasswordHash(user.id, await this.passwordHashing.hash(password));
+    }
+
+    if (this.config.email?.requireVerification && !user.emailVerifiedAt) {
+      return null;
+    }
+
+    if (tenantId && !(await this.canAccessOrganization(tenantId, user.id))) {
+      return null;
+    }
+
+    // Failures are kept until the second factor succeeds too, so wrong codes add up across challenges
+    const mfaEnabled = await this.isMfaEnabled(user.id);
+    if (mfaEnabled || await this.isMfaRequired(user.id, tenantId)) {
+      return this.createMfaChallenge(user.id, !mfaEnabled, tenantId);
+    }
+
+    // The address is not reset, so one known account cannot be used to keep guessing others
+    await this.loginThrottle.reset(throttleKeys[0]);
+    return this.issueAuthResult(user, uuidv4(), tenantId);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and refresh token
+   * The presented token is consumed (rotation); presenting an already used token
+   * is treated as theft and revokes every token of the same family
+   * @param refreshToken - Opaque refresh token previously issued to the user
+   * @returns Promise<AuthResult | null> - New authentication result, or null if the token is invalid
+   */
+  async refreshAuthentication(refreshToken: string): Promise<AuthResult | null> {
+    const stored = await this.refreshTokenRepository.findByHash(this.hashRefreshToken(refreshToken));
+    if (!stored || stored.revokedAt) {
+      return null;
+    }
+
+    if (stored.usedAt) {
+      // Reuse detected: the token was already rotated, so someone else may hold the family
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      return null;
+    }
+
+    // Fails closed: an unreadable expiry counts as expired
+    if (!(stored.expiresAt.getTime() > Date.now())) {
       return null;
     }
 
-    const isValidPassword = await bcrypt.compare(password, user.password);
-    if (!isValidPassword) {
+    const user = await this.userRepository.findById(stored.userId);
+    const hasAccess = !!user && user.isActive &&
+      (!stored.organizationId || await this.canAccessOrganization(stored.organizationId, user.id));
+    if (!user || !hasAccess) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
       return null;
     }
 
-    const roles = await this.userRoleRepository.getUserRoles(user.id);
-    const permissions = await this.getUserPermissions(user.id);
+    // Another request consumed the token concurrently: treat it as reuse as well
+    const consumed = await this.refreshTokenRepository.markUsed(stored.id);
+    if (!consumed) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      return null;
+    }
+
+    return this.issueAuthResult(user, stored.familyId, stored.organizationId);
+  }
+
+  /**
+   * Revokes the whole rotation family of a refresh token
+   * @param refreshToken - Opaque refresh token
+   * @returns Promise<boolean> - True if the token was known and its family revoked
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<boolean> {
+    const stored = await this.refreshTokenRepository.findByHash(this.hashRefreshToken(refreshToken));
+    if (!stored) {
+      return false;
+    }
+
+    await this.refreshTokenRepository.revokeFamily(stored.familyId);
+    return true;
+  }
+
+  /**
+   * Builds the authentication result for a user: access token, refresh token, roles and permissions
+   * @param user - Authenticated user
+   * @param familyId - Refresh token family to continue (a new family is started when omitted)
+   * @param tenantId - Organization the session is scoped to
+   * @returns Promise<AuthResult> - Authentication result
+   */
+  private async issueAuthResult(user: User, familyId: string = uuidv4(), tenantId?: string): Promise<AuthResult> {
+    const roles = await this.getEffectiveUserRoles(user.id, tenantId);
+    const grants = await this.getUserPermissionGrants(user.id, tenantId);
+    const permissions = this.resolveAllowedPermissions(grants);
+    const deniedPermissions = grants.filter(grant => grant.effect === 'deny');
+    // Conditions cannot be evaluated from the token alone, so conditional allows stay out of the claims
+    const unconditionalPermissions = permissions.filter(permission => !permission.condition);
 
     const token = this.generateToken({
       userId: user.id,
       username: user.username,
       email: user.email,
       roles: roles.map(role => role.name),
-      permissions: permissions.map(permission => permission.name)
+      permissions: unconditionalPermissions.map(permission => permission.name),
+      ...(deniedPermissions.length > 0 && { deniedPermissions: deniedPermissions.map(permission => permission.name) }),
+      ...(tenantId && { tenantId })
     });
 
+    const refreshToken = await this.createRefreshToken(user.id, familyId, tenantId);
+
     return {
       user: {
         id: user.id,
@@ -85,8 +369,11 @@ export class RBACService {
         updatedAt: user.updatedAt
       },
       token,
+      refreshToken,
       roles,
-      permissions
+      permissions,
+      deniedPermissions,
+      ...(this.passwordPolicy.isExpired(user.passwordChangedAt) && { passwordExpired: true })
     };
   }
 
@@ -94,15 +381,83 @@ export class RBACService {
     return this.userRepository.findById(id);
   }
 
+  /**
+   * Updates a user, hashing the password if present
+   * Deactivating a user revokes all of their outstanding tokens
+   * @param id - The user's unique identifier
+   * @param userData - Partial user data to update
+   * @returns Promise<User | null> - The updated user if found, null otherwise
+   * @throws PasswordPolicyError if the new password breaks the password policy
+   */
   async updateUser(id: string, userData: Partial<Omit<User, 'id' | 'createdAt'>>): Promise<User | null> {
+    const previous = userData.email || userData.password ? await this.userRepository.findById(id) : null;
     if (userData.password) {
-      userData.password = await bcrypt.hash(userData.password, 10);
+      if (!previous) {
+        return null;
+      }
+
+      await this.assertPasswordAllowed(userData.password, { ...previous, ...userData }, previous);
+      userData.password = await this.passwordHashing.hash(userData.password);
+    }
+
+    let updatedUser = await this.userRepository.update(id, userData);
+    if (updatedUser && userData.password) {
+      await this.recordPasswordHistory(id, userData.password);
+    }
+    if (updatedUser && userData.isActive === false) {
+      await this.revokeAllUserTokens(id);
+    }
+
+    // A new address has to be verified again
+    if (updatedUser && previous && previous.email !== updatedUser.email && updatedUser.emailVerifiedAt) {
+      await this.userRepository.setEmailVerifiedAt(id, null);
+      updatedUser = { ...updatedUser, emailVerifiedAt: undefined };
+    }
+
+    return updatedUser;
+  }
+
+  /**
+   * Checks a new password against the password policy, including reuse of the latest passwords
+   * @param password - Plain text password
+   * @param identity - Username and email the password will belong to
+   * @param user - Existing account whose password history applies
+   * @throws PasswordPolicyError with every broken rule
+   */
+  private async assertPasswordAllowed(password: string, identity: Pick<User, 'username' | 'email'>, user?: User): Promise<void> {
+    const violations = await this.passwordPolicy.validate(password, identity);
+
+    const historySize = this.passwordPolicy.getHistorySize();
+    if (user && historySize > 0) {
+      // The history starts with the current hash, which is checked on its own too for accounts predating it
+      const hashes = new Set([user.password, ...await this.passwordHistoryRepository.getRecentHashes(user.id, historySize)]);
+      for (const hash of hashes) {
+        if (await this.passwordHashing.verify(password, hash)) {
+          violations.push({ code: 'reused', message: `A senha não pode repetir as últimas ${historySize} senhas` });
+          break;
+        }
+      }
+    }
+
+    if (violations.length > 0) {
+      throw new PasswordPolicyError(violations);
+    }
+  }
+
+  private async recordPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    const historySize = this.passwordPolicy.getHistorySize();
+    if (historySize > 0) {
+      await this.passwordHistoryRepository.add(userId, passwordHash, historySize);
     }
-    return this.userRepository.update(id, userData);
   }
 
   async deleteUser(id: string): Promise<boolean> {
-    return this.userRepository.delete(id);
+    const deleted = await this.userRepository.delete(id);
+    if (deleted) {
+      await this.resourceGrantRepository.deleteForSubject('user', id);
+      await this.invalidateUserPermissions([id]);
+    }
+    return deleted;
   }
 
   // Role Management
@@ -114,12 +469,32 @@ export class RBACService {
     return this.roleRepository.findById(id);
   }
 
+  /**
+   * Finds a role by name within one scope
+   * @param name - Role name
+   * @param organizationId - Organization the role belongs to; global roles when omitted
+   */
+  async getRoleByName(name: string, organizationId?: string): Promise<Role | null> {
+    return this.roleRepository.findByName(name, organizationId);
+  }
+
   async updateRole(id: string, roleData: Partial<Omit<Role, 'id' | 'createdAt'>>): Promise<Role | null> {
-    return this.roleRepository.update(id, roleData);
+    const role = await this.roleRepository.update(id, roleData);
+    if (role) {
+      await this.invalidateRolePermissions([id]);
+    }
+    return role;
   }
 
   async deleteRole(id: string): Promise<boolean> {
-    return this.roleRepository.delete(id);
+    // Holders are looked up before the assignments cascade away
+    const affectedUserIds = await this.getRoleHolderIds([id]);
+    const deleted = await this.roleRepository.delete(id);
+    if (deleted) {
+      await this.resourceGrantRepository.deleteForSubject('role', id);
+      await this.invalidateUserPermissions(affectedUserIds);
+    }
+    return deleted;
   }
 
   // Permission Management
@@ -132,137 +507,1633 @@ export class RBACService {
   }
 
   async updatePermission(id: string, permissionData: Partial<Omit<Permission, 'id' | 'createdAt'>>): Promise<Permission | null> {
-    return this.permissionRepository.update(id, permissionData);
+    const permission = await this.permissionRepository.update(id, permissionData);
+    if (permission) {
+      await this.invalidateRolePermissions(await this.rolePermissionRepository.getRoleIdsByPermission(id));
+    }
+    return permission;
   }
 
   async deletePermission(id: string): Promise<boolean> {
-    return this.permissionRepository.delete(id);
+    // Holders are looked up before the grants cascade away
+    const affectedUserIds = await this.getRoleHolderIds(await this.rolePermissionRepository.getRoleIdsByPermission(id));
+    const deleted = await this.permissionRepository.delete(id);
+    if (deleted) {
+      await this.invalidateUserPermissions(affectedUserIds);
+    }
+    return deleted;
   }
 
-  // User-Role Management
-  async assignRoleToUser(userId: string, roleId: string, assignedBy: string): Promise<boolean> {
-    try {
-      await this.userRoleRepository.assignRole(userId, roleId, assignedBy);
-      return true;
-    } catch (error) {
+  // ==================== MULTI-FACTOR AUTHENTICATION ====================
+
+  /**
+   * Starts TOTP enrollment with a new secret; the second factor is only enforced once a code is confirmed
+   * Starting again replaces a pending secret, while an enabled authenticator has to be disabled first
+   * @param userId - The user's unique identifier
+   * @returns Promise<MfaEnrollment | null> - Secret and otpauth URI, or null if the user is unknown or already enrolled
+   */
+  async beginMfaEnrollment(userId: string): Promise<MfaEnrollment | null> {
+    const user = await this.userRepository.findById(userId);
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    if (!user || mfa?.enabledAt) {
+      return null;
+    }
+
+    return this.startMfaEnrollment(user);
+  }
+
+  /**
+   * Confirms a pending enrollment with a code from the authenticator
+   * @param userId - The user's unique identifier
+   * @param code - Current TOTP code
+   * @returns Promise<string[] | null> - One-time recovery codes, shown only once, or null if the code is wrong
+   */
+  async confirmMfaEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    if (!mfa || mfa.enabledAt || !(await this.consumeTotpCode(mfa, code))) {
+      return null;
+    }
+
+    if (!(await this.mfaRepository.enable(userId))) {
+      return null;
+    }
+
+    return this.generateRecoveryCodes(userId);
+  }
+
+  /**
+   * Removes the authenticator and recovery codes of a user
+   * @param userId - The user's unique identifier
+   * @param code - Current TOTP code or an unused recovery code
+   * @returns Promise<boolean> - True if MFA was enabled and the code accepted
+   */
+  async disableMfa(userId: string, code: string): Promise<boolean> {
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    if (!mfa?.enabledAt || !(await this.verifyMfaCode(mfa, code))) {
       return false;
     }
+
+    return this.mfaRepository.delete(userId);
   }
 
-  async removeRoleFromUser(userId: string, roleId: string): Promise<boolean> {
-    return this.userRoleRepository.removeRole(userId, roleId);
+  /**
+   * Replaces the recovery codes of a user, invalidating the previous ones
+   * @param userId - The user's unique identifier
+   * @param code - Current TOTP code or an unused recovery code
+   * @returns Promise<string[] | null> - The new recovery codes, or null if MFA is not enabled or the code is wrong
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[] | null> {
+    const mfa = await this.mfaRepository.findByUserId(userId);
+    if (!mfa?.enabledAt || !(await this.verifyMfaCode(mfa, code))) {
+      return null;
+    }
+
+    return this.generateRecoveryCodes(userId);
   }
 
-  async getUserRoles(userId: string): Promise<Role[]> {
-    return this.userRoleRepository.getUserRoles(userId);
+  /**
+   * Checks whether a user has a confirmed authenticator
+   * @param userId - The user's unique identifier
+   */
+  async isMfaEnabled(userId: string): Promise<boolean> {
+    return !!(await this.mfaRepository.findByUserId(userId))?.enabledAt;
   }
 
-  // Role-Permission Management
-  async assignPermissionToRole(roleId: string, permissionId: string, assignedBy: string): Promise<boolean> {
-    try {
-      await this.rolePermissionRepository.assignPermission(roleId, permissionId, assignedBy);
-      return true;
-    } catch (error) {
-      return false;
+  /**
+   * Checks whether a role the user holds (directly or through inheritance) requires MFA
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization whose roles are considered (only global roles when omitted)
+   */
+  async isMfaRequired(userId: string, tenantId?: string): Promise<boolean> {
+    const roles = await this.getEffectiveUserRoles(userId, tenantId);
+    return roles.some(role => role.requiresMfa);
+  }
+
+  /**
+   * Starts enrollment during a login whose challenge requires it
+   * @param challengeToken - Challenge token returned by authenticateUser
+   * @returns Promise<MfaEnrollment | null> - Secret and otpauth URI, or null if the challenge is invalid or the user is already enrolled
+   */
+  async beginChallengeEnrollment(challengeToken: string): Promise<MfaEnrollment | null> {
+    const challenge = await this.findPendingMfaChallenge(challengeToken);
+    if (!challenge) {
+      return null;
     }
+
+    return this.beginMfaEnrollment(challenge.userId);
   }
 
-  async removePermissionFromRole(roleId: string, permissionId: string): Promise<boolean> {
-    return this.rolePermissionRepository.removePermission(roleId, permissionId);
+  /**
+   * Completes the second step of a login
+   * Enrolled users present a TOTP or recovery code; users enrolling during the login confirm
+   * their new authenticator, and the result then carries their recovery codes. Challenges expire
+   * and are discarded after too many wrong codes; wrong codes also count as failed logins of the
+   * username and IP address, so starting new challenges does not allow more guesses
+   * @param challengeToken - Challenge token returned by authenticateUser
+   * @param code - TOTP code or recovery code
+   * @param ipAddress - Address the attempt comes from, counted alongside the username
+   * @returns Promise<AuthResult | null> - Authentication result, or null if the challenge or code is invalid
+   * @throws LoginThrottledError if the username or IP address is delayed or locked
+   */
+  async completeMfaChallenge(challengeToken: string, code: string, ipAddress?: string): Promise<AuthResult | null> {
+    const challenge = await this.findPendingMfaChallenge(challengeToken);
+    if (!challenge) {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(challenge.userId);
+    const mfa = await this.mfaRepository.findByUserId(challenge.userId);
+    if (!user || !user.isActive || !mfa) {
+      return null;
+    }
+
+    const throttleKeys = this.getLoginThrottleKeys(user.username, ipAddress);
+    const retryAfter = await this.loginThrottle.getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      throw new LoginThrottledError(retryAfter);
+    }
+
+    const enrolling = !mfa.enabledAt;
+    const isValidCode = enrolling ? await this.consumeTotpCode(mfa, code) : await this.verifyMfaCode(mfa, code);
+    if (!isValidCode) {
+      await this.mfaChallengeRepository.incrementAttempts(challenge.id);
+      await this.loginThrottle.recordFailure(throttleKeys);
+      return null;
+    }
+
+    // Another request completed the challenge concurrently
+    if (!(await this.mfaChallengeRepository.markUsed(challenge.id))) {
+      return null;
+    }
+
+    if (challenge.organizationId && !(await this.canAccessOrganization(challenge.organizationId, user.id))) {
+      return null;
+    }
+
+    if (enrolling && !(await this.mfaRepository.enable(user.id))) {
+      return null;
+    }
+
+    await this.loginThrottle.reset(throttleKeys[0]);
+
+    const authResult = await this.issueAuthResult(user, uuidv4(), challenge.organizationId);
+    return enrolling
+      ? { ...authResult, recoveryCodes: await this.generateRecoveryCodes(user.id) }
+      : authResult;
   }
 
-  async getRolePermissions(roleId: string): Promise<Permission[]> {
-    return this.rolePermissionRepository.getRolePermissions(roleId);
+  private async startMfaEnrollment(user: User): Promise<MfaEnrollment> {
+    const secret = generateTotpSecret();
+    await this.mfaRepository.savePendingSecret(user.id, secret);
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.username, this.config.mfa?.issuer || DEFAULT_MFA_ISSUER)
+    };
   }
 
-  // Permission Checking
-  async getUserPermissions(userId: string): Promise<Permission[]> {
-    const userRoles = await this.userRoleRepository.getUserRoles(userId);
-    const allPermissions: Permission[] = [];
+  private async createMfaChallenge(userId: string, enrollmentRequired: boolean, tenantId?: string): Promise<MfaChallengeResult> {
+    const challengeToken = crypto.randomBytes(32).toString('base64url');
+    const ttl = parseDuration(this.config.mfa?.challengeExpiresIn || DEFAULT_MFA_CHALLENGE_EXPIRES_IN);
+
+    await this.mfaChallengeRepository.create({
+      userId,
+      tokenHash: this.hashSecret(challengeToken),
+      organizationId: tenantId,
+      expiresAt: new Date(Date.now() + ttl)
+    });
+
+    return {
+      mfaRequired: true,
+      challengeToken,
+      enrollmentRequired,
+      expiresIn: Math.floor(ttl / 1000)
+    };
+  }
 
-    for (const role of userRoles) {
-      const rolePermissions = await this.rolePermissionRepository.getRolePermissions(role.id);
-      allPermissions.push(...rolePermissions);
+  private async findPendingMfaChallenge(challengeToken: string): Promise<MfaChallenge | null> {
+    const challenge = await this.mfaChallengeRepository.findByHash(this.hashSecret(challengeToken));
+    if (!challenge || challenge.usedAt || challenge.attempts >= MAX_MFA_CHALLENGE_ATTEMPTS) {
+      return null;
     }
 
-    // Remove duplicates
-    const uniquePermissions = allPermissions.filter((permission, index, self) =>
-      index === self.findIndex(p => p.id === permission.id)
+    return challenge.expiresAt.getTime() > Date.now() ? challenge : null;
+  }
+
+  // A code is accepted once: its time step must be later than the last accepted one
+  private async consumeTotpCode(mfa: UserMfa, code: string): Promise<boolean> {
+    const step = verifyTotp(mfa.secret, code.replace(/\s/g, ''));
+    return step !== null && this.mfaRepository.markStepUsed(mfa.userId, step);
+  }
+
+  private async verifyMfaCode(mfa: UserMfa, code: string): Promise<boolean> {
+    return await this.consumeTotpCode(mfa, code) ||
+      this.mfaRepository.useRecoveryCode(mfa.userId, this.hashSecret(this.normalizeRecoveryCode(code)));
+  }
+
+  private async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: MFA_RECOVERY_CODE_COUNT }, () => {
+      const value = crypto.randomBytes(5).toString('hex');
+      return `${value.slice(0, 5)}-${value.slice(5)}`;
+    });
+
+    await this.mfaRepository.replaceRecoveryCodes(
+      userId,
+      codes.map(code => this.hashSecret(this.normalizeRecoveryCode(code)))
     );
 
-    return uniquePermissions;
+    return codes;
+  }
+
+  // Recovery codes are typed by hand, so case, spaces and dashes are ignored
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+
+  // Challenge tokens, recovery codes and emailed tokens are random enough for a plain SHA-256
+  private hashSecret(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
   }
 
+  // ==================== PASSWORD RESET AND EMAIL VERIFICATION ====================
+
   /**
-   * Checks if a user has a specific permission
-   * @param userId - The user's unique identifier
-   * @param permissionCheck - Permission to check (resource and action)
-   * @returns Promise<boolean> - True if user has the permission, false otherwise
-   * @note Admin users automatically have all permissions
+   * Checks whether outgoing email is configured; password resets and email verification need it
    */
-  async hasPermission(userId: string, permissionCheck: PermissionCheck): Promise<boolean> {
-    const userPermissions = await this.getUserPermissions(userId);
-    return userPermissions.some(permission =>
-      permission.resource === permissionCheck.resource &&
-      permission.action === permissionCheck.action
-    );
+  isEmailEnabled(): boolean {
+    return !!this.mailer;
   }
 
   /**
-   * Checks if a user has a specific role
-   * @param userId - The user's unique identifier
-   * @param roleName - Name of the role to check
-   * @returns Promise<boolean> - True if user has the role, false otherwise
+   * Emails a password reset token to the user registered with an address
+   * The outcome is not returned, so callers cannot reveal which addresses are registered;
+   * its duration still differs, so request handlers should respond without waiting for it
+   * @param email - Address the user registered with
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!this.mailer || !user || !user.isActive) {
+      return;
+    }
+
+    const expiresIn = this.config.email?.passwordResetExpiresIn || DEFAULT_PASSWORD_RESET_EXPIRES_IN;
+    const token = await this.createUserToken(user, 'password_reset', expiresIn);
+    await this.sendMail({
+      to: user.email,
+      subject: 'Redefinição de senha',
+      text: [
+        `Olá, ${user.username}!`,
+        '',
+        `Recebemos um pedido para redefinir a sua senha. Use ${this.config.email?.appUrl ? 'o link' : 'o código'} abaixo (válido por ${expiresIn}):`,
+        '',
+        this.buildEmailLink('/reset-password', token),
+        '',
+        'Se você não fez esse pedido, ignore esta mensagem.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Sets a new password with a reset token and ends every session of the user
+   * Receiving the token also proves the address, so it is marked as verified
+   * @param token - Token from the reset message
+   * @param newPassword - New plain text password
+   * @returns Promise<User | null> - The updated user, or null if the token is invalid, used or expired
+   * @throws PasswordPolicyError if the new password breaks the password policy
    */
-  async hasRole(userId: string, roleName: string): Promise<boolean> {
-    return this.userRoleRepository.hasRole(userId, roleName);
+  async resetPassword(token: string, newPassword: string): Promise<User | null> {
+    const stored = await this.findUsableUserToken('password_reset', token);
+    const user = stored && await this.userRepository.findById(stored.userId);
+    if (!stored || !user || !user.isActive) {
+      return null;
+    }
+
+    // Checked before the token is used up, so a rejected password can be retried with the same token
+    await this.assertPasswordAllowed(newPassword, user, user);
+    if (!(await this.userTokenRepository.markUsed(stored.id))) {
+      return null;
+    }
+
+    await this.updateUser(user.id, { password: newPassword });
+    await this.revokeAllUserTokens(user.id);
+    if (!user.emailVerifiedAt && stored.email === user.email) {
+      await this.userRepository.setEmailVerifiedAt(user.id, new Date());
+    }
+
+    return this.userRepository.findById(user.id);
   }
 
-  // ==================== JWT TOKEN MANAGEMENT ====================
+  /**
+   * Emails a verification token for a user's current address
+   * @param userId - The user's unique identifier
+   * @returns Promise<boolean> - True if a message was sent; false when email is disabled, the user is unknown or already verified
+   */
+  async sendEmailVerification(userId: string): Promise<boolean> {
+    const user = await this.userRepository.findById(userId);
+    if (!this.mailer || !user || user.emailVerifiedAt) {
+      return false;
+    }
+
+    const expiresIn = this.config.email?.verificationExpiresIn || DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN;
+    const token = await this.createUserToken(user, 'email_verification', expiresIn);
+    return this.sendMail({
+      to: user.email,
+      subject: 'Confirme o seu e-mail',
+      text: [
+        `Olá, ${user.username}!`,
+        '',
+        `Para confirmar o seu endereço de e-mail, use ${this.config.email?.appUrl ? 'o link' : 'o código'} abaixo (válido por ${expiresIn}):`,
+        '',
+        this.buildEmailLink('/verify-email', token)
+      ].join('\n')
+    });
+  }
 
   /**
-   * Generates a JWT token for a user
-   * @param payload - JWT payload data (without iat and exp)
-   * @returns string - Signed JWT token
+   * Emails a new verification token to the user registered with an address, for users who cannot log in yet
+   * Like requestPasswordReset, the outcome is not returned and request handlers should not wait for it
+   * @param email - Address the user registered with
    */
-  generateToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-    return jwt.sign(payload, this.config.jwt.secret, {
-      expiresIn: this.config.jwt.expiresIn
-    } as jwt.SignOptions);
+  async resendEmailVerification(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (user && user.isActive) {
+      await this.sendEmailVerification(user.id);
+    }
   }
 
   /**
-   * Verifies and decodes a JWT token
-   * @param token - JWT token to verify
-   * @returns JWTPayload | null - Decoded payload if valid, null if invalid or expired
+   * Marks the address a verification token was sent to as verified
+   * @param token - Token from the verification message
+   * @returns Promise<User | null> - The verified user, or null if the token is invalid, used, expired
+   * or the user has changed address since
    */
-  verifyToken(token: string): JWTPayload | null {
+  async verifyEmail(token: string): Promise<User | null> {
+    const stored = await this.findUsableUserToken('email_verification', token);
+    const user = stored && await this.userRepository.findById(stored.userId);
+    if (!stored || !user || user.email !== stored.email || !(await this.userTokenRepository.markUsed(stored.id))) {
+      return null;
+    }
+
+    await this.userRepository.setEmailVerifiedAt(user.id, new Date());
+    return this.userRepository.findById(user.id);
+  }
+
+  // A new token replaces the ones sent before for the same purpose
+  private async createUserToken(user: User, purpose: UserTokenPurpose, expiresIn: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await this.userTokenRepository.deleteForUser(user.id, purpose);
+    await this.userTokenRepository.create({
+      userId: user.id,
+      purpose,
+      tokenHash: this.hashSecret(token),
+      email: user.email,
+      expiresAt: new Date(Date.now() + parseDuration(expiresIn))
+    });
+
+    return token;
+  }
+
+  private async findUsableUserToken(purpose: UserTokenPurpose, token: string): Promise<UserToken | null> {
+    const stored = await this.userTokenRepository.findByHash(purpose, this.hashSecret(token));
+    if (!stored || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    return stored;
+  }
+
+  private buildEmailLink(path: string, token: string): string {
+    const appUrl = this.config.email?.appUrl;
+    return appUrl ? `${appUrl.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}` : token;
+  }
+
+  // Delivery failures are logged, not thrown, so responses do not reveal which addresses exist
+  private async sendMail(message: Omit<MailMessage, 'from'>): Promise<boolean> {
     try {
-      return jwt.verify(token, this.config.jwt.secret) as JWTPayload;
+      await this.mailer!.send({ from: this.config.email?.from || DEFAULT_MAIL_FROM, ...message });
+      return true;
     } catch (error) {
-      return null;
+      console.error('Erro ao enviar e-mail:', error);
+      return false;
     }
   }
 
-  // Utility Methods
-  async listUsers(limit: number = 10, offset: number = 0): Promise<User[]> {
-    return this.userRepository.list(limit, offset);
+  private createMailer(config: NonNullable<RBACConfig['email']>): Mailer {
+    if (config.mailer === 'console') {
+      return new ConsoleMailer();
+    }
+    if (config.mailer === 'file') {
+      return new FileMailer(config.filePath || 'mail.log');
+    }
+    return config.mailer;
   }
 
-  async listRoles(limit: number = 10, offset: number = 0): Promise<Role[]> {
-    return this.roleRepository.list(limit, offset);
+  // ==================== LOGIN THROTTLING ====================
+
+  /**
+   * Lists usernames and IP addresses whose logins are currently delayed or locked
+   * @param limit - Maximum number of entries to return
+   * @param offset - Number of entries to skip
+   * @returns Promise<LoginThrottleEntry[]> - Blocking entries, latest lock first
+   */
+  async listLoginLockouts(limit: number = 50, offset: number = 0): Promise<LoginThrottleEntry[]> {
+    return this.loginThrottleRepository.listLocked(new Date(), limit, offset);
+  }
+
+  async getLoginLockoutsCount(): Promise<number> {
+    return this.loginThrottleRepository.countLocked(new Date());
+  }
+
+  /**
+   * Clears the failed attempts, and any lockout, of a username or IP address
+   * @param keyType - Whether the key is a username or an IP address
+   * @param key - Username or IP address
+   * @returns Promise<boolean> - True if failures were recorded for the key
+   */
+  async clearLoginLockout(keyType: LoginThrottleKeyType, key: string): Promise<boolean> {
+    return this.loginThrottle.reset({ keyType, key: keyType === 'username' ? key.toLowerCase() : key });
+  }
+
+  // Usernames are compared case-insensitively so varying the case does not reset the counter
+  private getLoginThrottleKeys(username: string, ipAddress?: string): LoginThrottleKey[] {
+    const keys: LoginThrottleKey[] = [{ keyType: 'username', key: username.toLowerCase() }];
+    if (ipAddress) {
+      keys.push({ keyType: 'ip', key: ipAddress });
+    }
+    return keys;
+  }
+
+  // ==================== ORGANIZATION MANAGEMENT ====================
+
+  async createOrganization(organizationData: Omit<Organization, 'id' | 'createdAt' | 'updatedAt'>): Promise<Organization> {
+    return this.organizationRepository.create(organizationData);
+  }
+
+  async getOrganizationById(id: string): Promise<Organization | null> {
+    return this.organizationRepository.findById(id);
+  }
+
+  async getOrganizationBySlug(slug: string): Promise<Organization | null> {
+    return this.organizationRepository.findBySlug(slug);
+  }
+
+  async updateOrganization(id: string, organizationData: Partial<Omit<Organization, 'id' | 'createdAt'>>): Promise<Organization | null> {
+    return this.organizationRepository.update(id, organizationData);
+  }
+
+  /**
+   * Deletes an organization together with its roles, role assignments and memberships
+   * @param id - The organization's unique identifier
+   * @returns Promise<boolean> - True if the organization was deleted
+   */
+  async deleteOrganization(id: string): Promise<boolean> {
+    const deleted = await this.organizationRepository.delete(id);
+    if (deleted) {
+      await this.invalidateAllPermissions();
+    }
+    return deleted;
+  }
+
+  async addOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+    return this.organizationRepository.addMember(organizationId, userId);
+  }
+
+  /**
+   * Removes a user from an organization, along with the roles assigned to them in it
+   * @param organizationId - The organization's unique identifier
+   * @param userId - The user's unique identifier
+   * @returns Promise<boolean> - True if the user was a member
+   */
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+    const removed = await this.organizationRepository.removeMember(organizationId, userId);
+    if (removed) {
+      await this.userRoleRepository.removeOrganizationRoles(userId, organizationId);
+      await this.invalidateUserPermissions([userId]);
+    }
+    return removed;
+  }
+
+  async isOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+    return this.organizationRepository.isMember(organizationId, userId);
+  }
+
+  /**
+   * Checks whether a user can act within an organization: it must exist, be active and count the user as a member
+   * @param organizationId - The organization's unique identifier
+   * @param userId - The user's unique identifier
+   * @returns Promise<boolean> - True if the user may use the organization as tenant
+   */
+  async canAccessOrganization(organizationId: string, userId: string): Promise<boolean> {
+    const organization = await this.organizationRepository.findById(organizationId);
+    return !!organization && organization.isActive && await this.organizationRepository.isMember(organizationId, userId);
+  }
+
+  async getUserOrganizations(userId: string): Promise<Organization[]> {
+    return this.organizationRepository.getUserOrganizations(userId);
+  }
+
+  async listOrganizations(limit: number = 10, offset: number = 0): Promise<Organization[]> {
+    return this.organizationRepository.list(limit, offset);
+  }
+
+  async getOrganizationsCount(): Promise<number> {
+    return this.organizationRepository.count();
+  }
+
+  // User-Role Management
+  /**
+   * Assigns a role to a user, globally or within an organization
+   * Organization roles can only be assigned within their organization, and only to its members
+   * @param userId - The user's unique identifier
+   * @param roleId - The role's unique identifier
+   * @param assignedBy - ID of the user making the assignment
+   * @param options - Assignment scope and optional validity window
+   * @returns Promise<boolean> - False if the role is unknown or out of scope, the user is not a member,
+   * or the validity window is empty
+   */
+  async assignRoleToUser(
+    userId: string,
+    roleId: string,
+    assignedBy: string,
+    options: RoleAssignmentOptions = {}
+  ): Promise<boolean> {
+    try {
+      if (!(await this.canAssignRole(userId, roleId, options))) {
+        return false;
+      }
+
+      await this.userRoleRepository.assignRole(userId, roleId, assignedBy, options);
+      await this.invalidateUserPermissions([userId]);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // The role must exist in the assignment's scope, the user must belong to its organization and the window must not be empty
+  private async canAssignRole(userId: string, roleId: string, options: RoleAssignmentOptions): Promise<boolean> {
+    const role = await this.roleRepository.findById(roleId);
+    if (!role || (role.organizationId && role.organizationId !== options.organizationId)) {
+      return false;
+    }
+
+    if (options.organizationId && !(await this.organizationRepository.isMember(options.organizationId, userId))) {
+      return false;
+    }
+
+    return !(options.validUntil && options.validFrom && options.validUntil <= options.validFrom);
+  }
+
+  async removeRoleFromUser(userId: string, roleId: string, organizationId?: string): Promise<boolean> {
+    const removed = await this.userRoleRepository.removeRole(userId, roleId, organizationId);
+    if (removed) {
+      await this.invalidateUserPermissions([userId]);
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the active roles directly assigned to a user
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization to resolve in; only global assignments count when omitted
+   * @returns Promise<Role[]> - Directly assigned roles, without inherited ones
+   */
+  async getUserRoles(userId: string, tenantId?: string): Promise<Role[]> {
+    return this.userRoleRepository.getUserRoles(userId, tenantId);
+  }
+
+  /**
+   * Gets every role a user effectively holds: direct roles plus all roles they inherit from
+   * Inactive roles are skipped and inheritance does not flow through them
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization to resolve in; only global assignments count when omitted
+   * @returns Promise<Role[]> - Direct and inherited active roles
+   */
+  async getEffectiveUserRoles(userId: string, tenantId?: string): Promise<Role[]> {
+    const resolve = async () => this.resolveRoleClosure(await this.userRoleRepository.getUserRoles(userId, tenantId));
+    return this.permissionCache ? this.permissionCache.resolve(userId, tenantId, 'roles', resolve) : resolve();
+  }
+
+  // ==================== ROLE ASSIGNMENT EXPIRY ====================
+
+  /**
+   * Removes (or archives, with `roleAssignments.onExpiry: 'archive'`) every expired role assignment
+   * @returns Promise<UserRole[]> - The expired assignments
+   */
+  async sweepExpiredRoleAssignments(): Promise<UserRole[]> {
+    return this.assignmentSweeper.sweep();
+  }
+
+  /**
+   * Registers a listener called with the assignments removed by each sweep that expires any
+   * @param listener - Receives the expired assignments
+   */
+  onRoleAssignmentsExpired(listener: (assignments: UserRole[]) => void): void {
+    this.assignmentSweeper.on(ROLE_ASSIGNMENTS_EXPIRED, listener);
+  }
+
+  /**
+   * Starts sweeping expired role assignments every `roleAssignments.sweepInterval`
+   */
+  startAssignmentSweeper(): void {
+    this.assignmentSweeper.start();
+  }
+
+  /**
+   * Stops sweeping expired role assignments
+   */
+  stopAssignmentSweeper(): void {
+    this.assignmentSweeper.stop();
+  }
+
+  // ==================== ROLE HIERARCHY ====================
+
+  /**
+   * Makes a role inherit every permission of a parent role
+   * @param roleId - ID of the inheriting role
+   * @param parentRoleId - ID of the role to inherit from
+   * @param assignedBy - ID of the user creating the relation
+   * @returns Promise<boolean> - False if the relation already exists, would create a cycle,
+   * or the parent belongs to another organization than the role
+   */
+  async addParentRole(roleId: string, parentRoleId: string, assignedBy: string): Promise<boolean> {
+    if (!(await this.canInheritFrom(roleId, parentRoleId)) || await this.wouldCreateRoleCycle(roleId, parentRoleId)) {
+      return false;
+    }
+    const added = await this.roleParentRepository.addParent(roleId, parentRoleId, assignedBy);
+    if (added) {
+      await this.invalidateRolePermissions([roleId]);
+    }
+    return added;
+  }
+
+  /**
+   * Checks that a role may inherit from a parent: global roles only inherit from global roles,
+   * organization roles from global roles or roles of the same organization
+   * @param roleId - ID of the inheriting role
+   * @param parentRoleId - ID of the role to inherit from
+   * @returns Promise<boolean> - True if both roles exist and their scopes are compatible
+   */
+  async canInheritFrom(roleId: string, parentRoleId: string): Promise<boolean> {
+    const [role, parent] = await Promise.all([
+      this.roleRepository.findById(roleId),
+      this.roleRepository.findById(parentRoleId)
+    ]);
+
+    return !!role && !!parent && (!parent.organizationId || parent.organizationId === role.organizationId);
+  }
+
+  async removeParentRole(roleId: string, parentRoleId: string): Promise<boolean> {
+    const removed = await this.roleParentRepository.removeParent(roleId, parentRoleId);
+    if (removed) {
+      await this.invalidateRolePermissions([roleId]);
+    }
+    return removed;
+  }
+
+  async getParentRoles(roleId: string): Promise<Role[]> {
+    return this.roleParentRepository.getParentRoles(roleId);
+  }
+
+  /**
+   * Checks whether making `parentRoleId` a parent of `roleId` would create an inheritance cycle
+   * @param roleId - ID of the inheriting role
+   * @param parentRoleId - ID of the candidate parent role
+   * @returns Promise<boolean> - True if the role is the parent itself or one of its ancestors
+   */
+  async wouldCreateRoleCycle(roleId: string, parentRoleId: string): Promise<boolean> {
+    if (roleId === parentRoleId) {
+      return true;
+    }
+
+    const parentsOf = this.buildParentMap(await this.roleParentRepository.getAllEdges());
+    return this.collectAncestorIds([parentRoleId], parentsOf).has(roleId);
+  }
+
+  /**
+   * Gets the permissions a role inherits from its ancestors, excluding its direct permissions
+   * @param roleId - The role's unique identifier
+   * @returns Promise<GrantedPermission[]> - Inherited permissions with their effect
+   */
+  async getInheritedRolePermissions(roleId: string): Promise<GrantedPermission[]> {
+    const role = await this.roleRepository.findById(roleId);
+    if (!role) {
+      return [];
+    }
+
+    const ancestors = (await this.resolveRoleClosure([{ ...role, isActive: true }]))
+      .filter(ancestor => ancestor.id !== roleId);
+    const directIds = new Set((await this.rolePermissionRepository.getRolePermissions(roleId)).map(p => p.id));
+    const inherited = new Map<string, GrantedPermission>();
+
+    for (const ancestor of ancestors) {
+      for (const permission of await this.rolePermissionRepository.getRolePermissions(ancestor.id)) {
+        if (!directIds.has(permission.id)) {
+          inherited.set(permission.id, permission);
+        }
+      }
+    }
+
+    return Array.from(inherited.values());
+  }
+
+  /**
+   * Expands a set of roles with all their active ancestors
+   * @param roles - Starting roles (assumed active)
+   * @returns Promise<Role[]> - The starting roles followed by their inherited roles
+   */
+  private async resolveRoleClosure(roles: Role[]): Promise<Role[]> {
+    const edges = await this.roleParentRepository.getAllEdges();
+    if (edges.length === 0 || roles.length === 0) {
+      return roles;
+    }
+
+    const parentsOf = this.buildParentMap(edges);
+    const ancestorIds = this.collectAncestorIds(roles.map(role => role.id), parentsOf);
+    const ancestors = new Map((await this.roleRepository.findByIds(Array.from(ancestorIds))).map(role => [role.id, role]));
+
+    const resolved = new Map(roles.map(role => [role.id, role]));
+    const queue = roles.map(role => role.id);
+
+    while (queue.length > 0) {
+      const roleId = queue.shift()!;
+      for (const parentId of parentsOf.get(roleId) || []) {
+        const parent = ancestors.get(parentId);
+        if (parent && parent.isActive && !resolved.has(parentId)) {
+          resolved.set(parentId, parent);
+          queue.push(parentId);
+        }
+      }
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  private buildParentMap(edges: RoleParent[]): Map<string, string[]> {
+    const parentsOf = new Map<string, string[]>();
+    for (const edge of edges) {
+      parentsOf.set(edge.roleId, [...(parentsOf.get(edge.roleId) || []), edge.parentRoleId]);
+    }
+    return parentsOf;
+  }
+
+  private collectAncestorIds(roleIds: string[], parentsOf: Map<string, string[]>): Set<string> {
+    const ancestors = new Set<string>();
+    const stack = [...roleIds];
+
+    while (stack.length > 0) {
+      for (const parentId of parentsOf.get(stack.pop()!) || []) {
+        if (!ancestors.has(parentId)) {
+          ancestors.add(parentId);
+          stack.push(parentId);
+        }
+      }
+    }
+
+    return ancestors;
+  }
+
+  // Role-Permission Management
+  /**
+   * Grants or denies a permission to a role
+   * @param roleId - The role's unique identifier
+   * @param permissionId - The permission's unique identifier
+   * @param assignedBy - ID of the user making the assignment
+   * @param effect - 'allow' (default) or 'deny'; a deny overrides any allow for the same permission
+   * @param condition - Optional expression the grant only applies under (see utils/conditions)
+   * @returns Promise<boolean> - True if assigned, false if the role already has the permission
+   * @throws ConditionSyntaxError if the condition is malformed
+   */
+  async assignPermissionToRole(
+    roleId: string,
+    permissionId: string,
+    assignedBy: string,
+    effect: PermissionEffect = 'allow',
+    condition?: string
+  ): Promise<boolean> {
+    if (condition) {
+      validateCondition(condition);
+    }
+
+    try {
+      await this.rolePermissionRepository.assignPermission(roleId, permissionId, assignedBy, effect, condition);
+    } catch (error) {
+      return false;
+    }
+
+    await this.invalidateRolePermissions([roleId]);
+    return true;
+  }
+
+  async removePermissionFromRole(roleId: string, permissionId: string): Promise<boolean> {
+    const removed = await this.rolePermissionRepository.removePermission(roleId, permissionId);
+    if (removed) {
+      await this.invalidateRolePermissions([roleId]);
+    }
+    return removed;
+  }
+
+  async getRolePermissions(roleId: string): Promise<GrantedPermission[]> {
+    return this.rolePermissionRepository.getRolePermissions(roleId);
+  }
+
+  // Permission Checking
+  /**
+   * Gets the permissions a user is effectively allowed through their direct and inherited roles
+   * Allows that are fully covered by an unconditional deny (e.g. 'users:delete' under a 'users:*' deny) are left out;
+   * conditional allows are included with their `condition`
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization to resolve in; only global assignments count when omitted
+   * @returns Promise<GrantedPermission[]> - Unique allowed permissions
+   */
+  async getUserPermissions(userId: string, tenantId?: string): Promise<GrantedPermission[]> {
+    return this.resolveAllowedPermissions(await this.getUserPermissionGrants(userId, tenantId));
+  }
+
+  /**
+   * Gets the permissions explicitly denied to a user through their direct and inherited roles
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization to resolve in; only global assignments count when omitted
+   * @returns Promise<Permission[]> - Unique denied permissions
+   */
+  async getUserDeniedPermissions(userId: string, tenantId?: string): Promise<Permission[]> {
+    const grants = await this.getUserPermissionGrants(userId, tenantId);
+    return grants.filter(grant => grant.effect === 'deny');
+  }
+
+  /**
+   * Checks if a user has a specific permission
+   * Granted permissions may use wildcards: 'users:*', '*:read', '*' or resource paths
+   * such as 'projects/*\/docs:read' (see utils/permissions).
+   * When the check names a `resourceId`, instance-level grants to the user or their roles count as well.
+   * Deny overrides: a matching deny from any role wins over every matching allow.
+   * Conditional grants only apply when their condition holds for the subject, resource and
+   * environment attributes in the context; a condition that cannot be evaluated never allows but still denies.
+   * @param userId - The user's unique identifier
+   * @param permissionCheck - Permission to check (resource, action and optional resource instance)
+   * @param context - Authorization context; roles assigned in `tenantId` count besides global ones
+   * @returns Promise<boolean> - True if user has the permission, false otherwise
+   */
+  async hasPermission(userId: string, permissionCheck: PermissionCheck, context: AuthorizationContext = {}): Promise<boolean> {
+    const [allowed] = await this.hasPermissions(userId, [permissionCheck], context);
+    return allowed;
+  }
+
+  /**
+   * Checks several permissions for a user at once
+   * The user's roles and role grants are resolved once for the whole batch; instance grants once per resource ID
+   * @param userId - The user's unique identifier
+   * @param permissionChecks - Permissions to check
+   * @param context - Authorization context (tenant and condition attributes), shared by every check
+   * @returns Promise<boolean[]> - One decision per check, in the same order
+   */
+  async hasPermissions(userId: string, permissionChecks: PermissionCheck[], context: AuthorizationContext = {}): Promise<boolean[]> {
+    const grants = await this.getUserPermissionGrants(userId, context.tenantId);
+
+    // Roles are only needed to find instance grants made to them
+    const resourceIds = new Set(permissionChecks.map(check => check.resourceId).filter(Boolean) as string[]);
+    const roles = resourceIds.size > 0 ? await this.getEffectiveUserRoles(userId, context.tenantId) : [];
+
+    const resourceGrants = new Map<string, GrantedPermission[]>();
+    for (const resourceId of resourceIds) {
+      resourceGrants.set(resourceId, await this.resourceGrantRepository.getSubjectPermissions(
+        resourceId,
+        userId,
+        roles.map(role => role.id),
+        context.tenantId
+      ));
+    }
+
+    const conditionContext = this.buildConditionContext(userId, context);
+    return permissionChecks.map(permissionCheck => {
+      const candidates = permissionCheck.resourceId
+        ? [...grants, ...resourceGrants.get(permissionCheck.resourceId)!]
+        : grants;
+      const matching = candidates.filter(grant =>
+        permissionMatches(grant, permissionCheck) && this.grantApplies(grant, conditionContext)
+      );
+      return matching.length > 0 && matching.every(grant => grant.effect === 'allow');
+    });
+  }
+
+  /**
+   * Checks a service API key against `serviceAuth.apiKeys`
+   * Keys are compared by digest in constant time, so neither content nor length leaks through timing
+   * @param apiKey - Key presented by the caller
+   * @returns boolean - True if the key is configured
+   */
+  isValidServiceKey(apiKey: string): boolean {
+    const digest = crypto.createHash('sha256').update(apiKey).digest();
+    return (this.config.serviceAuth?.apiKeys || []).some(key =>
+      crypto.timingSafeEqual(crypto.createHash('sha256').update(key).digest(), digest)
+    );
+  }
+
+  /**
+   * Explains a permission decision: the roles considered, the grants that matched and the rule that decided
+   * Follows the same resolution as `hasPermission`, so `allowed` always agrees with it
+   * @param userId - The user's unique identifier
+   * @param permissionCheck - Permission to check (resource, action and optional resourceId)
+   * @param context - Authorization context (tenant and condition attributes)
+   * @returns Promise<AuthorizationExplanation> - The decision and its trace
+   */
+  async explain(userId: string, permissionCheck: PermissionCheck, context: AuthorizationContext = {}): Promise<AuthorizationExplanation> {
+    const assignments = await this.userRoleRepository.getUserRoleAssignments(userId);
+    const assignedRoles = new Map(
+      (await this.roleRepository.findByIds(assignments.map(assignment => assignment.roleId))).map(role => [role.id, role])
+    );
+    const now = new Date();
+
+    const roleTraces: RoleTrace[] = [];
+    for (const assignment of assignments) {
+      const role = assignedRoles.get(assignment.roleId);
+      if (role) {
+        roleTraces.push({
+          roleId: role.id,
+          roleName: role.name,
+          source: 'direct',
+          organizationId: assignment.organizationId,
+          status: this.getAssignmentStatus(assignment, role, now, context.tenantId)
+        });
+      }
+    }
+
+    const roles = await this.getEffectiveUserRoles(userId, context.tenantId);
+    for (const role of roles) {
+      if (!roleTraces.some(trace => trace.roleId === role.id && trace.status === 'active')) {
+        roleTraces.push({ roleId: role.id, roleName: role.name, source: 'inherited', status: 'active' });
+      }
+    }
+
+    const conditionContext = this.buildConditionContext(userId, context);
+    const traceGrant = (grant: GrantedPermission, role?: Role): GrantTrace => ({
+      source: role ? 'role' : 'resource_grant',
+      roleId: role?.id,
+      roleName: role?.name,
+      permission: grant.name,
+      effect: grant.effect,
+      condition: grant.condition,
+      outcome: this.getGrantOutcome(grant, conditionContext)
+    });
+
+    const grantTraces: GrantTrace[] = [];
+    for (const role of roles) {
+      for (const grant of await this.rolePermissionRepository.getRolePermissions(role.id)) {
+        if (permissionMatches(grant, permissionCheck)) {
+          grantTraces.push(traceGrant(grant, role));
+        }
+      }
+    }
+
+    if (permissionCheck.resourceId) {
+      const resourceGrants = await this.resourceGrantRepository.getSubjectPermissions(
+        permissionCheck.resourceId,
+        userId,
+        roles.map(role => role.id),
+        context.tenantId
+      );
+      for (const grant of resourceGrants) {
+        if (permissionMatches(grant, permissionCheck)) {
+          grantTraces.push(traceGrant(grant));
+        }
+      }
+    }
+
+    const applied = grantTraces.filter(grant =>
+      grant.outcome === 'applied' || (grant.outcome === 'condition_error' && grant.effect === 'deny')
+    );
+    const deny = applied.find(grant => grant.effect === 'deny');
+    const decidedBy: AuthorizationExplanation['decidedBy'] = deny
+      ? { rule: 'deny', grant: deny }
+      : applied.length > 0 ? { rule: 'allow', grant: applied[0] } : { rule: 'no_matching_grant' };
+
+    return {
+      userId,
+      check: permissionCheck,
+      tenantId: context.tenantId,
+      allowed: decidedBy.rule === 'allow',
+      roles: roleTraces,
+      grants: grantTraces,
+      decidedBy
+    };
+  }
+
+  private getAssignmentStatus(assignment: UserRole, role: Role, now: Date, tenantId?: string): RoleTraceStatus {
+    if (assignment.organizationId && assignment.organizationId !== tenantId) {
+      return 'other_organization';
+    }
+    if (!role.isActive) {
+      return 'role_inactive';
+    }
+    if (assignment.validFrom && assignment.validFrom > now) {
+      return 'not_yet_valid';
+    }
+    if (assignment.validUntil && assignment.validUntil <= now) {
+      return 'expired';
+    }
+    return 'active';
+  }
+
+  private getGrantOutcome(grant: GrantedPermission, context: ConditionContext): GrantTraceOutcome {
+    if (!grant.condition) {
+      return 'applied';
+    }
+
+    try {
+      return evaluateCondition(grant.condition, context) ? 'applied' : 'condition_not_met';
+    } catch (error) {
+      return 'condition_error';
+    }
+  }
+
+  /**
+   * Builds the attributes conditions are evaluated against
+   * The current time is always available and can be overridden by the caller;
+   * the subject's id and tenant always come from the check itself, so caller attributes cannot impersonate another user
+   */
+  private buildConditionContext(userId: string, context: AuthorizationContext): ConditionContext {
+    const now = new Date();
+
+    return {
+      subject: { ...context.subject, id: userId, tenantId: context.tenantId },
+      resource: { ...context.resource },
+      environment: {
+        now: now.toISOString(),
+        hour: now.getHours(),
+        dayOfWeek: now.getDay(),
+        ...context.environment
+      }
+    };
+  }
+
+  private grantApplies(grant: GrantedPermission, context: ConditionContext): boolean {
+    if (!grant.condition) {
+      return true;
+    }
+
+    try {
+      return evaluateCondition(grant.condition, context);
+    } catch (error) {
+      // Fail safe: a broken condition must not widen access
+      return grant.effect === 'deny';
+    }
+  }
+
+  /**
+   * Collects the permission grants a user holds through their roles with a single query
+   * A permission granted as both allow and deny under the same condition is kept once, as deny
+   */
+  private async getUserPermissionGrants(userId: string, tenantId?: string): Promise<GrantedPermission[]> {
+    const resolve = () => this.resolveUserPermissionGrants(userId, tenantId);
+    return this.permissionCache ? this.permissionCache.resolve(userId, tenantId, 'grants', resolve) : resolve();
+  }
+
+  private async resolveUserPermissionGrants(userId: string, tenantId?: string): Promise<GrantedPermission[]> {
+    const grants = new Map<string, GrantedPermission>();
+
+    for (const grant of await this.userRoleRepository.getEffectivePermissionGrants(userId, tenantId)) {
+      const key = `${grant.id}|${grant.condition || ''}`;
+      const existing = grants.get(key);
+      if (!existing || (existing.effect === 'allow' && grant.effect === 'deny')) {
+        grants.set(key, grant);
+      }
+    }
+
+    return Array.from(grants.values());
+  }
+
+  private resolveAllowedPermissions(grants: GrantedPermission[]): GrantedPermission[] {
+    const denies = grants.filter(grant => grant.effect === 'deny' && !grant.condition);
+    return grants.filter(grant =>
+      grant.effect === 'allow' && !denies.some(deny => permissionMatches(deny, grant))
+    );
+  }
+
+  /**
+   * Checks if a user has a specific role, directly or through inheritance
+   * @param userId - The user's unique identifier
+   * @param roleName - Name of the role to check
+   * @param context - Authorization context; roles assigned in `tenantId` count besides global ones
+   * @returns Promise<boolean> - True if user has the role, false otherwise
+   */
+  async hasRole(userId: string, roleName: string, context: AuthorizationContext = {}): Promise<boolean> {
+    const roles = await this.getEffectiveUserRoles(userId, context.tenantId);
+    return roles.some(role => role.name === roleName);
+  }
+
+  // ==================== RESOURCE INSTANCE GRANTS ====================
+
+  /**
+   * Grants a permission on a single resource instance to a user or role
+   * Organization roles can only receive grants within their organization, and users only within organizations they belong to
+   * @param grantData - Permission, resource instance, subject and scope of the grant
+   * @returns Promise<ResourceGrant | null> - The created grant, or null if invalid or already granted
+   */
+  async grantResourcePermission(grantData: Omit<ResourceGrant, 'id' | 'grantedAt'>): Promise<ResourceGrant | null> {
+    const permission = await this.permissionRepository.findById(grantData.permissionId);
+    if (!permission) {
+      return null;
+    }
+
+    if (grantData.subjectType === 'role') {
+      const role = await this.roleRepository.findById(grantData.subjectId);
+      if (!role || (role.organizationId && role.organizationId !== grantData.organizationId)) {
+        return null;
+      }
+    } else {
+      const user = await this.userRepository.findById(grantData.subjectId);
+      const isMember = !grantData.organizationId ||
+        await this.organizationRepository.isMember(grantData.organizationId, grantData.subjectId);
+      if (!user || !isMember) {
+        return null;
+      }
+    }
+
+    return this.resourceGrantRepository.create(grantData);
+  }
+
+  async getResourceGrantById(id: string): Promise<ResourceGrant | null> {
+    return this.resourceGrantRepository.findById(id);
+  }
+
+  async revokeResourcePermission(grantId: string): Promise<boolean> {
+    return this.resourceGrantRepository.delete(grantId);
+  }
+
+  /**
+   * Lists the grants on a resource instance
+   * @param resourceId - ID of the resource instance
+   * @param tenantId - When set, only global grants and grants of this organization are listed
+   * @returns Promise<ResourceGrant[]> - Grants on the instance
+   */
+  async getResourceGrants(resourceId: string, tenantId?: string): Promise<ResourceGrant[]> {
+    return this.resourceGrantRepository.listForResource(resourceId, tenantId);
+  }
+
+  // ==================== ACCESS REQUESTS ====================
+
+  /**
+   * Files a request for temporary elevation to a role
+   * Organization roles can only be requested within their organization, and only by its members
+   * @param userId - ID of the requesting user
+   * @param roleId - ID of the requested role
+   * @param request - Justification, duration (at most `accessRequests.maxDuration`) and scope
+   * @returns Promise<AccessRequest | null> - The pending request, or null if the role is unknown or out of scope,
+   * the duration is invalid or too long, or the same request is already pending
+   */
+  async requestAccess(
+    userId: string,
+    roleId: string,
+    request: { reason: string; duration: string; organizationId?: string }
+  ): Promise<AccessRequest | null> {
+    const role = await this.roleRepository.findById(roleId);
+    if (!role || !role.isActive || (role.organizationId && role.organizationId !== request.organizationId)) {
+      return null;
+    }
+
+    if (request.organizationId && !(await this.organizationRepository.isMember(request.organizationId, userId))) {
+      return null;
+    }
+
+    let durationMs: number;
+    try {
+      durationMs = parseDuration(request.duration);
+    } catch (error) {
+      return null;
+    }
+    const maxDurationMs = parseDuration(this.config.accessRequests?.maxDuration || DEFAULT_ACCESS_MAX_DURATION);
+    if (durationMs <= 0 || durationMs > maxDurationMs) {
+      return null;
+    }
+
+    if (await this.accessRequestRepository.findPending(userId, roleId, request.organizationId)) {
+      return null;
+    }
+
+    return this.accessRequestRepository.create({ userId, roleId, ...request });
+  }
+
+  async getAccessRequestById(id: string): Promise<AccessRequest | null> {
+    return this.accessRequestRepository.findById(id);
+  }
+
+  /**
+   * Lists access requests, newest first
+   * @param filters - Status, requester, role and organization filters; only global requests without an organization
+   * @param limit - Maximum number of requests to return
+   * @param offset - Number of requests to skip
+   * @returns Promise<AccessRequest[]> - Matching requests
+   */
+  async listAccessRequests(filters: AccessRequestFilters = {}, limit: number = 50, offset: number = 0): Promise<AccessRequest[]> {
+    return this.accessRequestRepository.list(filters, limit, offset);
+  }
+
+  async getAccessRequestsCount(filters: AccessRequestFilters = {}): Promise<number> {
+    return this.accessRequestRepository.count(filters);
+  }
+
+  /**
+   * Gets the permission approvers of access requests need (`accessRequests.approverPermission`)
+   * @returns PermissionCheck - Resource and action of the approver permission
+   * @throws Error if the configured permission name is malformed
+   */
+  getAccessApproverPermission(): PermissionCheck {
+    const name = this.config.accessRequests?.approverPermission || DEFAULT_ACCESS_APPROVER_PERMISSION;
+    const permission = parsePermissionName(name);
+    if (!permission) {
+      throw new Error(`Invalid accessRequests.approverPermission: ${name}`);
+    }
+    return permission;
+  }
+
+  /**
+   * Checks if a user may approve or reject access requests in an organization
+   * @param userId - The user's unique identifier
+   * @param tenantId - Organization of the requests; global requests when omitted
+   * @returns Promise<boolean> - True if the user holds the approver permission there
+   */
+  async canApproveAccessRequests(userId: string, tenantId?: string): Promise<boolean> {
+    return this.hasPermission(userId, this.getAccessApproverPermission(), { tenantId });
+  }
+
+  /**
+   * Approves a pending request and assigns the role until the requested duration has elapsed
+   * The request is claimed and the role assigned in one transaction, so concurrent approvals assign it once
+   * and a failed assignment leaves the request pending
+   * @param requestId - The request's unique identifier
+   * @param approverId - ID of the approving user; requesters cannot approve their own requests
+   * @param decisionReason - Optional justification of the approval
+   * @returns Promise<AccessRequest | null> - The approved request, or null if it is not pending,
+   * the approver is the requester, or the role could not be assigned (e.g. the user already holds it)
+   */
+  async approveAccessRequest(requestId: string, approverId: string, decisionReason?: string): Promise<AccessRequest | null> {
+    const request = await this.accessRequestRepository.findById(requestId);
+    if (!request || request.status !== 'pending' || request.userId === approverId) {
+      return null;
+    }
+
+    const expiresAt = new Date(Date.now() + parseDuration(request.duration));
+    const assignment = { organizationId: request.organizationId, validUntil: expiresAt };
+    if (!(await this.canAssignRole(request.userId, request.roleId, assignment))) {
+      return null;
+    }
+
+    try {
+      const approved = await this.knex.transaction(async trx => {
+        const decided = await new AccessRequestRepository(trx).decide(requestId, {
+          status: 'approved',
+          decidedBy: approverId,
+          decisionReason,
+          expiresAt
+        });
+        // Another decision claimed the request first
+        if (!decided) {
+          return null;
+        }
+
+        if (!(await new UserRoleRepository(trx).assignRole(request.userId, request.roleId, approverId, assignment))) {
+          throw new Error('Role não pôde ser atribuída');
+        }
+        return decided;
+      });
+
+      if (approved) {
+        await this.invalidateUserPermissions([request.userId]);
+      }
+      return approved;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Rejects a pending request
+   * @param requestId - The request's unique identifier
+   * @param approverId - ID of the rejecting user
+   * @param decisionReason - Optional justification of the rejection
+   * @returns Promise<AccessRequest | null> - The rejected request, or null if it is not pending
+   */
+  async rejectAccessRequest(requestId: string, approverId: string, decisionReason?: string): Promise<AccessRequest | null> {
+    return this.accessRequestRepository.decide(requestId, { status: 'rejected', decidedBy: approverId, decisionReason });
+  }
+
+  // ==================== AUDIT LOG ====================
+
+  /**
+   * Appends an event to the audit log
+   * @param event - Actor, action, target, snapshots and request origin of the event
+   * @returns Promise<AuditEvent> - The recorded event
+   */
+  async recordAuditEvent(event: Omit<AuditEvent, 'id' | 'createdAt'>): Promise<AuditEvent> {
+    return this.auditEventRepository.append(event);
+  }
+
+  /**
+   * Queries the audit log, newest first
+   * @param filters - Actor, action, target, organization and time range filters
+   * @param limit - Maximum number of events to return
+   * @param offset - Number of events to skip
+   * @returns Promise<AuditEvent[]> - Matching events
+   */
+  async listAuditEvents(filters: AuditEventFilters = {}, limit: number = 50, offset: number = 0): Promise<AuditEvent[]> {
+    return this.auditEventRepository.list(filters, limit, offset);
+  }
+
+  async getAuditEventsCount(filters: AuditEventFilters = {}): Promise<number> {
+    return this.auditEventRepository.count(filters);
+  }
+
+  // ==================== PERMISSION CACHE ====================
+
+  /**
+   * Gets the permission cache counters
+   * @returns PermissionCacheStats | null - Hits, misses and invalidations, or null if caching is disabled
+   */
+  getPermissionCacheStats(): PermissionCacheStats | null {
+    return this.permissionCache ? this.permissionCache.getStats() : null;
+  }
+
+  /**
+   * Drops cached roles and permissions of some users, here and on every instance sharing the invalidation bus
+   * @param userIds - IDs of the users whose assignments changed
+   */
+  async invalidateUserPermissions(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await this.permissionCache?.invalidateUsers(userIds);
+    await this.publishInvalidation({ origin: this.instanceId, userIds });
+  }
+
+  /**
+   * Drops every cached role and permission, here and on every instance sharing the invalidation bus
+   */
+  async invalidateAllPermissions(): Promise<void> {
+    await this.permissionCache?.invalidateAll();
+    await this.publishInvalidation({ origin: this.instanceId });
+  }
+
+  /**
+   * Drops cached roles and permissions of every user holding some roles, directly or by inheritance
+   * @param roleIds - IDs of the roles whose grants, state or parents changed
+   */
+  async invalidateRolePermissions(roleIds: string[]): Promise<void> {
+    await this.invalidateUserPermissions(await this.getRoleHolderIds(roleIds));
+  }
+
+  /**
+   * Stops listening on the invalidation bus
+   */
+  async closeInvalidationBus(): Promise<void> {
+    await this.invalidationBus?.close();
+  }
+
+  // The data is already committed, so a bus failure is logged rather than failing the change
+  private async publishInvalidation(invalidation: PermissionInvalidation): Promise<void> {
+    try {
+      await this.invalidationBus?.publish(invalidation);
+    } catch (error) {
+      console.error('Erro ao publicar invalidação de permissões:', error);
+    }
+  }
+
+  private async applyInvalidation(invalidation: PermissionInvalidation): Promise<void> {
+    if (!this.permissionCache || invalidation.origin === this.instanceId) {
+      return;
+    }
+
+    if (invalidation.userIds) {
+      await this.permissionCache.invalidateUsers(invalidation.userIds);
+    } else {
+      await this.permissionCache.invalidateAll();
+    }
+  }
+
+  // Users assigned one of the roles or a role inheriting from one of them
+  private async getRoleHolderIds(roleIds: string[]): Promise<string[]> {
+    if ((!this.permissionCache && !this.invalidationBus) || roleIds.length === 0) {
+      return [];
+    }
+
+    const childrenOf = new Map<string, string[]>();
+    for (const edge of await this.roleParentRepository.getAllEdges()) {
+      childrenOf.set(edge.parentRoleId, [...(childrenOf.get(edge.parentRoleId) || []), edge.roleId]);
+    }
+
+    // Walking the reversed edges collects descendants instead of ancestors
+    return this.userRoleRepository.getUserIdsByRoles([...roleIds, ...this.collectAncestorIds(roleIds, childrenOf)]);
+  }
+
+  // ==================== AUTHORIZATION DECISION LOG ====================
+
+  /**
+   * Records the outcome of an authorization check, subject to `decisionLog` sampling
+   * Does nothing when decision logging is disabled and never rejects
+   * @param decision - The decision to record
+   */
+  async recordAuthorizationDecision(decision: AuthorizationDecision): Promise<void> {
+    await this.decisionLogger?.record(decision);
+  }
+
+  /**
+   * Gets the most recent recorded denials of a user, newest first
+   * @param userId - The user's unique identifier
+   * @param limit - Maximum number of denials to return
+   * @param tenantId - Only denials within this organization when set
+   * @returns Promise<AuthorizationDecision[] | null> - The denials, or null if decisions are not logged to a queryable sink
+   */
+  async getRecentDenials(userId: string, limit: number = 20, tenantId?: string): Promise<AuthorizationDecision[] | null> {
+    if (!this.decisionLogger) {
+      return null;
+    }
+    return this.decisionLogger.getRecentDenials(userId, limit, tenantId);
+  }
+
+  private createDecisionSink(config: NonNullable<RBACConfig['decisionLog']>): DecisionSink {
+    if (config.sink === 'database') {
+      return new AuthorizationDecisionRepository(this.knex);
+    }
+    if (config.sink === 'file') {
+      return new FileDecisionSink(config.filePath || 'authorization-decisions.log');
+    }
+    return config.sink;
+  }
+
+  // ==================== JWT TOKEN MANAGEMENT ====================
+
+  /**
+   * Generates a JWT token for a user
+   * Every token gets a unique `jti` so it can be revoked individually
+   * @param payload - JWT payload data (without iat, issuedAtMs, exp and jti)
+   * @returns string - Signed JWT token
+   */
+  generateToken(payload: Omit<JWTPayload, 'iat' | 'issuedAtMs' | 'exp' | 'jti'>): string {
+    return this.keyManager.sign({ ...payload, issuedAtMs: Date.now() }, {
+      expiresIn: this.config.jwt.expiresIn,
+      jwtid: uuidv4()
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Verifies and decodes a JWT token
+   * @param token - JWT token to verify
+   * @returns JWTPayload | null - Decoded payload if valid, null if invalid or expired
+   */
+  verifyToken(token: string): JWTPayload | null {
+    try {
+      return this.keyManager.verify(token) as JWTPayload;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the public keys other services can use to verify tokens offline
+   * @returns JSONWebKeySet - Current verification keys (empty when signing with a shared secret)
+   */
+  getJWKS(): JSONWebKeySet {
+    return this.keyManager.getJWKS();
+  }
+
+  /**
+   * Starts scheduled signing key rotation, if `jwt.rotation` is configured
+   * Rotated keys are stored in the database and shared by every instance; call this before serving
+   * requests, so tokens are signed with the shared keys from the start
+   */
+  async startKeyRotation(): Promise<void> {
+    await this.keyManager.startRotation();
+  }
+
+  /**
+   * Stops scheduled signing key rotation
+   */
+  stopKeyRotation(): void {
+    this.keyManager.stopRotation();
+  }
+
+  /**
+   * Immediately replaces the signing key; the previous key stays valid for the grace period
+   * Other instances accept tokens signed with the new key once they pick it up, within a minute
+   * @returns Promise<string> - Key id of the new signing key
+   */
+  async rotateSigningKey(): Promise<string> {
+    return this.keyManager.rotate();
+  }
+
+  /**
+   * Verifies a JWT token and checks it against the revocation store
+   * @param token - JWT token to validate
+   * @returns Promise<JWTPayload | null> - Decoded payload if valid and not revoked, null otherwise
+   */
+  async validateToken(token: string): Promise<JWTPayload | null> {
+    const payload = this.verifyToken(token);
+    if (!payload || await this.isTokenRevoked(payload)) {
+      return null;
+    }
+    return payload;
+  }
+
+  /**
+   * Checks whether a decoded token has been revoked
+   * @param payload - Decoded JWT payload
+   * @returns Promise<boolean> - True if the token or all of its user's tokens were revoked
+   */
+  async isTokenRevoked(payload: JWTPayload): Promise<boolean> {
+    // `iat` only has second precision; tokens without `issuedAtMs` count as issued at the start of their second
+    const issuedAt = new Date(payload.issuedAtMs ?? (payload.iat || 0) * 1000);
+    return this.revocationStore.isRevoked(payload.jti, payload.userId, issuedAt);
+  }
+
+  /**
+   * Revokes a single access token (logout)
+   * @param payload - Decoded JWT payload of the token to revoke
+   */
+  async revokeToken(payload: JWTPayload): Promise<void> {
+    if (!payload.jti) {
+      return;
+    }
+
+    const expiresAt = payload.exp ? new Date(payload.exp * 1000) : new Date(Date.now() + this.getAccessTokenTTL());
+    await this.revocationStore.revokeToken(payload.jti, payload.userId, expiresAt);
+  }
+
+  /**
+   * Revokes every outstanding access and refresh token of a user
+   * @param userId - The user's unique identifier
+   */
+  async revokeAllUserTokens(userId: string): Promise<void> {
+    const now = new Date();
+    await this.revocationStore.revokeAllForUser(userId, now, new Date(now.getTime() + this.getAccessTokenTTL()));
+    await this.refreshTokenRepository.revokeAllForUser(userId);
+  }
+
+  /**
+   * Removes revocation entries whose tokens have already expired
+   * @returns Promise<number> - Number of entries removed
+   */
+  async purgeExpiredRevocations(): Promise<number> {
+    return this.revocationStore.purgeExpired();
+  }
+
+  private getAccessTokenTTL(): number {
+    return parseDuration(this.config.jwt.expiresIn);
+  }
+
+  /**
+   * Creates and stores a new opaque refresh token
+   * @param userId - ID of the user the token belongs to
+   * @param familyId - Rotation family of the token
+   * @param organizationId - Organization the session is scoped to
+   * @returns Promise<string> - The opaque token value (only its hash is stored)
+   */
+  private async createRefreshToken(userId: string, familyId: string, organizationId?: string): Promise<string> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const ttl = parseDuration(this.config.jwt.refreshExpiresIn || DEFAULT_REFRESH_EXPIRES_IN);
+
+    await this.refreshTokenRepository.create({
+      userId,
+      tokenHash: this.hashRefreshToken(refreshToken),
+      familyId,
+      organizationId,
+      expiresAt: new Date(Date.now() + ttl)
+    });
+
+    return refreshToken;
+  }
+
+  private hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  // Utility Methods
+  /**
+   * Lists users; within an organization only its members are listed
+   */
+  async listUsers(limit: number = 10, offset: number = 0, tenantId?: string): Promise<User[]> {
+    return tenantId
+      ? this.organizationRepository.listMembers(tenantId, limit, offset)
+      : this.userRepository.list(limit, offset);
+  }
+
+  /**
+   * Lists roles; within an organization only global roles and the organization's own roles are listed
+   */
+  async listRoles(limit: number = 10, offset: number = 0, tenantId?: string): Promise<Role[]> {
+    return this.roleRepository.list(limit, offset, tenantId);
   }
 
   async listPermissions(limit: number = 10, offset: number = 0): Promise<Permission[]> {
     return this.permissionRepository.list(limit, offset);
   }
 
-  async getUsersCount(): Promise<number> {
-    return this.userRepository.count();
+  async getUsersCount(tenantId?: string): Promise<number> {
+    return tenantId ? this.organizationRepository.countMembers(tenantId) : this.userRepository.count();
   }
 
-  async getRolesCount(): Promise<number> {
-    return this.roleRepository.count();
+  async getRolesCount(tenantId?: string): Promise<number> {
+    return this.roleRepository.count(tenantId);
   }
 
   async getPermissionsCount(): Promise<number> {
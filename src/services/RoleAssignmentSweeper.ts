@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import { UserRoleRepository } from '../repositories/UserRoleRepository';
+import { RBACConfig, UserRole } from '../types';
+import { parseDuration } from '../utils/duration';
+
+/** Event emitted with the removed assignments whenever a sweep expires at least one */
+export const ROLE_ASSIGNMENTS_EXPIRED = 'expired';
+
+/**
+ * Removes role assignments whose validity window has ended
+ * Expired assignments are already ignored when resolving roles; sweeping keeps the table small,
+ * optionally archives them and lets listeners react (e.g. revoke sessions, notify the user)
+ */
+export class RoleAssignmentSweeper extends EventEmitter {
+  private sweepTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates a new RoleAssignmentSweeper instance
+   * @param userRoleRepository - Repository holding the assignments
+   * @param config - Role assignment section of the RBAC system configuration
+   */
+  constructor(
+    private readonly userRoleRepository: UserRoleRepository,
+    private readonly config: NonNullable<RBACConfig['roleAssignments']> = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Removes (or archives) every assignment that has expired by now
+   * @returns Promise<UserRole[]> - The expired assignments
+   */
+  async sweep(): Promise<UserRole[]> {
+    const expired = await this.userRoleRepository.removeExpired(new Date(), this.config.onExpiry === 'archive');
+
+    if (expired.length > 0) {
+      this.emit(ROLE_ASSIGNMENTS_EXPIRED, expired);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Starts sweeping every `roleAssignments.sweepInterval`
+   * The timer does not keep the process alive
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => console.error('Erro ao expirar atribuições de roles:', error));
+    }, parseDuration(this.config.sweepInterval || '1m'));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops scheduled sweeping
+   */
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
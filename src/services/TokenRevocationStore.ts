@@ -0,0 +1,83 @@
+/**
+ * Storage for revoked access tokens
+ * Entries only need to be kept until the revoked tokens would have expired anyway
+ */
+export interface TokenRevocationStore {
+  /**
+   * Revokes a single token
+   * @param jti - Token identifier (`jti` claim)
+   * @param userId - ID of the user the token was issued to
+   * @param expiresAt - Expiration of the token, after which the entry can be purged
+   */
+  revokeToken(jti: string, userId: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Revokes every token of a user issued up to a point in time
+   * @param userId - The user's unique identifier
+   * @param revokedAt - Tokens issued at or before this instant are revoked
+   * @param expiresAt - Instant after which every affected token has expired
+   */
+  revokeAllForUser(userId: string, revokedAt: Date, expiresAt: Date): Promise<void>;
+
+  /**
+   * Checks whether a token has been revoked, individually or through a user-wide revocation
+   * @param jti - Token identifier, if the token carries one
+   * @param userId - ID of the user the token was issued to
+   * @param issuedAt - Issue time of the token (`issuedAtMs` claim, or `iat` for tokens without it)
+   */
+  isRevoked(jti: string | undefined, userId: string, issuedAt: Date): Promise<boolean>;
+
+  /**
+   * Removes entries whose tokens have expired
+   * @returns Promise<number> - Number of entries removed
+   */
+  purgeExpired(): Promise<number>;
+}
+
+/**
+ * In-memory revocation store
+ * Used when no database-backed store is wanted (single instance deployments, tests);
+ * revocations are lost on restart
+ */
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  private readonly revokedTokens = new Map<string, Date>();
+  private readonly revokedUsers = new Map<string, { revokedAt: Date; expiresAt: Date }>();
+
+  async revokeToken(jti: string, _userId: string, expiresAt: Date): Promise<void> {
+    this.revokedTokens.set(jti, expiresAt);
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: Date, expiresAt: Date): Promise<void> {
+    this.revokedUsers.set(userId, { revokedAt, expiresAt });
+  }
+
+  async isRevoked(jti: string | undefined, userId: string, issuedAt: Date): Promise<boolean> {
+    if (jti && this.revokedTokens.has(jti)) {
+      return true;
+    }
+
+    const userRevocation = this.revokedUsers.get(userId);
+    return !!userRevocation && issuedAt.getTime() <= userRevocation.revokedAt.getTime();
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+
+    for (const [jti, expiresAt] of this.revokedTokens) {
+      if (expiresAt.getTime() <= now) {
+        this.revokedTokens.delete(jti);
+        purged++;
+      }
+    }
+
+    for (const [userId, revocation] of this.revokedUsers) {
+      if (revocation.expiresAt.getTime() <= now) {
+        this.revokedUsers.delete(userId);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+}
@@ -17,6 +17,10 @@ export interface User {
   password: string;
   /** Whether the user account is active */
   isActive: boolean;
+  /** Timestamp when the current email address was verified */
+  emailVerifiedAt?: Date;
+  /** Timestamp when the password was last set */
+  passwordChangedAt?: Date;
   /** Timestamp when the user was created */
   createdAt: Date;
   /** Timestamp when the user was last updated */
@@ -36,6 +40,10 @@ export interface Role {
   description?: string;
   /** Whether the role is currently active */
   isActive: boolean;
+  /** Organization that owns the role; global roles (usable in every organization) have none */
+  organizationId?: string;
+  /** Whether holders of the role must log in with a second factor */
+  requiresMfa?: boolean;
   /** Timestamp when the role was created */
   createdAt: Date;
   /** Timestamp when the role was last updated */
@@ -63,6 +71,25 @@ export interface Permission {
   updatedAt: Date;
 }
 
+/**
+ * Organization (tenant) entity; roles and role assignments can be scoped to one
+ * @interface Organization
+ */
+export interface Organization {
+  /** Unique identifier for the organization */
+  id: string;
+  /** Display name of the organization */
+  name: string;
+  /** Unique URL-friendly identifier (e.g., 'acme-corp') */
+  slug: string;
+  /** Whether the organization is active; inactive organizations cannot be logged into */
+  isActive: boolean;
+  /** Timestamp when the organization was created */
+  createdAt: Date;
+  /** Timestamp when the organization was last updated */
+  updatedAt: Date;
+}
+
 /**
  * Junction table entity for user-role relationships
  * @interface UserRole
@@ -74,10 +101,32 @@ export interface UserRole {
   userId: string;
   /** ID of the role being assigned */
   roleId: string;
+  /** Organization the assignment applies to; global assignments apply in every organization */
+  organizationId?: string;
   /** Timestamp when the role was assigned */
   assignedAt: Date;
   /** ID of the user who made the assignment */
   assignedBy: string;
+  /** Start of the validity window; the assignment is ignored before it */
+  validFrom?: Date;
+  /** End of the validity window; the assignment is ignored from then on and eventually swept */
+  validUntil?: Date;
+}
+
+/**
+ * Effect of a role-permission grant; deny always takes precedence over allow
+ */
+export type PermissionEffect = 'allow' | 'deny';
+
+/**
+ * Permission as granted to a role, with the effect of the grant
+ * @interface GrantedPermission
+ */
+export interface GrantedPermission extends Permission {
+  /** Whether the grant allows or denies the permission */
+  effect: PermissionEffect;
+  /** Condition under which the grant applies (see utils/conditions); unconditional when absent */
+  condition?: string;
 }
 
 /**
@@ -91,12 +140,509 @@ export interface RolePermission {
   roleId: string;
   /** ID of the permission being assigned */
   permissionId: string;
+  /** Whether the role is allowed or denied the permission */
+  effect: PermissionEffect;
+  /** Condition under which the grant applies (see utils/conditions); unconditional when absent */
+  condition?: string;
   /** Timestamp when the permission was assigned */
   assignedAt: Date;
   /** ID of the user who made the assignment */
   assignedBy: string;
 }
 
+/**
+ * Inheritance edge between roles: the role inherits every permission of its parent
+ * @interface RoleParent
+ */
+export interface RoleParent {
+  /** Unique identifier for the relation */
+  id: string;
+  /** ID of the inheriting (child) role */
+  roleId: string;
+  /** ID of the role being inherited from */
+  parentRoleId: string;
+  /** Timestamp when the relation was created */
+  assignedAt: Date;
+  /** ID of the user who created the relation */
+  assignedBy: string;
+}
+
+/**
+ * Kind of subject an instance-level grant is given to
+ */
+export type ResourceGrantSubjectType = 'user' | 'role';
+
+/**
+ * Grant of a permission on a single resource instance (object-level ACL entry)
+ * e.g. the 'documents:edit' permission on document 'doc-42' for one user or role
+ * @interface ResourceGrant
+ */
+export interface ResourceGrant {
+  /** Unique identifier for the grant */
+  id: string;
+  /** ID of the permission granted on the instance */
+  permissionId: string;
+  /** ID of the resource instance (e.g., 'doc-42') */
+  resourceId: string;
+  /** Whether the grant is given to a user or to a role */
+  subjectType: ResourceGrantSubjectType;
+  /** ID of the user or role receiving the grant */
+  subjectId: string;
+  /** Organization the grant applies in; global grants apply in every organization */
+  organizationId?: string;
+  /** Timestamp when the grant was created */
+  grantedAt: Date;
+  /** ID of the user who created the grant */
+  grantedBy: string;
+}
+
+/**
+ * State of a just-in-time access request
+ */
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Request for temporary elevation to a role, decided by an approver
+ * On approval the role is assigned until `expiresAt`
+ * @interface AccessRequest
+ */
+export interface AccessRequest {
+  /** Unique identifier for the request */
+  id: string;
+  /** ID of the user requesting the role */
+  userId: string;
+  /** ID of the requested role */
+  roleId: string;
+  /** Organization the role is requested in; global when absent */
+  organizationId?: string;
+  /** Justification given by the requester */
+  reason: string;
+  /** How long the role is needed for (e.g., '2h') */
+  duration: string;
+  /** Current state of the request */
+  status: AccessRequestStatus;
+  /** ID of the user who approved or rejected the request */
+  decidedBy?: string;
+  /** Justification given by the approver */
+  decisionReason?: string;
+  /** Timestamp of the decision */
+  decidedAt?: Date;
+  /** End of the granted assignment (approved requests only) */
+  expiresAt?: Date;
+  /** Timestamp when the request was filed */
+  createdAt: Date;
+}
+
+/**
+ * Filters for listing access requests
+ * @interface AccessRequestFilters
+ */
+export interface AccessRequestFilters {
+  status?: AccessRequestStatus;
+  userId?: string;
+  roleId?: string;
+  /** Only requests of this organization; only global requests when omitted */
+  organizationId?: string;
+}
+
+/**
+ * Entry of the append-only audit log: an administrative change or authentication event
+ * @interface AuditEvent
+ */
+export interface AuditEvent {
+  /** Unique identifier for the event */
+  id: string;
+  /** ID of the user who acted; absent for anonymous events such as failed logins */
+  actorId?: string;
+  /** What happened (e.g., 'role.create', 'auth.login.failure') */
+  action: string;
+  /** Kind of entity affected (e.g., 'user', 'role', 'permission') */
+  targetType: string;
+  /** ID of the affected entity */
+  targetId?: string;
+  /** Organization the change was made in */
+  organizationId?: string;
+  /** State of the target before the change */
+  before?: object;
+  /** State of the target after the change */
+  after?: object;
+  /** IP address the request came from */
+  ipAddress?: string;
+  /** User agent of the client */
+  userAgent?: string;
+  /** Timestamp of the event */
+  createdAt: Date;
+}
+
+/**
+ * Filters for querying the audit log
+ * @interface AuditEventFilters
+ */
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  organizationId?: string;
+  /** Only events at or after this time */
+  from?: Date;
+  /** Only events at or before this time */
+  to?: Date;
+}
+
+/**
+ * Kind of authorization check a decision was made for
+ */
+export type AuthorizationDecisionKind = 'role' | 'permission' | 'any_role' | 'any_permission';
+
+/**
+ * Outcome of one authorization check made by the middleware
+ * @interface AuthorizationDecision
+ */
+export interface AuthorizationDecision {
+  /** ID of the user the check was made for */
+  userId: string;
+  /** Organization the check was made in */
+  organizationId?: string;
+  /** Kind of check */
+  kind: AuthorizationDecisionKind;
+  /** What was checked: a role name or 'resource:action', comma-separated for any-of checks */
+  check: string;
+  /** Whether access was granted */
+  allowed: boolean;
+  /** Method and route of the request (e.g., 'DELETE /api/users/:id') */
+  route?: string;
+  /** Time spent evaluating the check, in milliseconds */
+  latencyMs: number;
+  /** When the decision was made */
+  timestamp: Date;
+}
+
+/**
+ * Destination of recorded authorization decisions
+ * @interface DecisionSink
+ */
+export interface DecisionSink {
+  /**
+   * Stores a decision
+   * @param decision - Decision to store
+   */
+  write(decision: AuthorizationDecision): Promise<void>;
+
+  /**
+   * Gets the most recent denials of a user, newest first (only for queryable sinks)
+   * @param userId - The user's unique identifier
+   * @param limit - Maximum number of decisions to return
+   * @param organizationId - Only denials in this organization when set
+   */
+  getRecentDenials?(userId: string, limit: number, organizationId?: string): Promise<AuthorizationDecision[]>;
+}
+
+/**
+ * Effective roles and role grants of one user, per organization ('' for the global scope)
+ * Either part may be missing when only the other has been resolved so far
+ */
+export type CachedUserAuthorization = Record<string, { roles?: Role[]; grants?: GrantedPermission[] }>;
+
+/**
+ * Storage behind the permission cache
+ * Entries are keyed by user so every scope of a user can be invalidated at once
+ * @interface PermissionCacheAdapter
+ */
+export interface PermissionCacheAdapter {
+  /**
+   * Gets the cached entry of a user
+   * @param userId - The user's unique identifier
+   */
+  get(userId: string): Promise<CachedUserAuthorization | undefined>;
+
+  /**
+   * Stores the entry of a user, replacing any previous one
+   * @param userId - The user's unique identifier
+   * @param entry - Roles and grants per scope
+   */
+  set(userId: string, entry: CachedUserAuthorization): Promise<void>;
+
+  /**
+   * Removes the entry of a user
+   * @param userId - The user's unique identifier
+   */
+  delete(userId: string): Promise<void>;
+
+  /**
+   * Removes every entry
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Hit, miss and invalidation counters of a permission cache
+ * @interface PermissionCacheStats
+ */
+export interface PermissionCacheStats {
+  /** Number of lookups answered from the cache */
+  hits: number;
+  /** Number of lookups that had to load from the database */
+  misses: number;
+  /** Number of users invalidated individually */
+  invalidations: number;
+}
+
+/**
+ * Message telling RBAC instances to drop cached permissions
+ * @interface PermissionInvalidation
+ */
+export interface PermissionInvalidation {
+  /** Identifier of the publishing instance, which ignores its own messages */
+  origin?: string;
+  /** Users whose cached permissions are stale; every user when omitted */
+  userIds?: string[];
+}
+
+/**
+ * Channel carrying permission cache invalidations between RBAC instances
+ * @interface InvalidationBus
+ */
+export interface InvalidationBus {
+  /**
+   * Sends an invalidation to every subscribed instance
+   * @param invalidation - Affected users
+   */
+  publish(invalidation: PermissionInvalidation): Promise<void>;
+
+  /**
+   * Registers a listener for invalidations published by any instance
+   * @param listener - Called with each invalidation
+   */
+  subscribe(listener: (invalidation: PermissionInvalidation) => void): Promise<void>;
+
+  /**
+   * Stops listening and releases resources
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Server-side record of an opaque refresh token
+ * Only a hash of the token is stored; tokens issued through rotation share a family
+ * @interface RefreshToken
+ */
+export interface RefreshToken {
+  /** Unique identifier for the refresh token record */
+  id: string;
+  /** ID of the user the token was issued to */
+  userId: string;
+  /** SHA-256 hash of the opaque token value */
+  tokenHash: string;
+  /** Identifier shared by every token rotated from the same login */
+  familyId: string;
+  /** Organization the login was scoped to */
+  organizationId?: string;
+  /** Timestamp after which the token can no longer be used */
+  expiresAt: Date;
+  /** Timestamp when the token was exchanged for a new one */
+  usedAt?: Date;
+  /** Timestamp when the token (or its family) was revoked */
+  revokedAt?: Date;
+  /** Timestamp when the token was issued */
+  createdAt: Date;
+}
+
+/** Rule of the password policy a password breaks */
+export type PasswordPolicyViolationCode =
+  | 'too_short'
+  | 'too_long'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_digit'
+  | 'missing_symbol'
+  | 'contains_user_info'
+  | 'breached'
+  | 'reused';
+
+/**
+ * Rule of the password policy a password breaks, with a message for the user
+ * @interface PasswordPolicyViolation
+ */
+export interface PasswordPolicyViolation {
+  /** Broken rule */
+  code: PasswordPolicyViolationCode;
+  /** Explanation for the user */
+  message: string;
+}
+
+/** What failed logins are counted by */
+export type LoginThrottleKeyType = 'username' | 'ip';
+
+/**
+ * Failed login tracking for one username or IP address
+ * @interface LoginThrottleEntry
+ */
+export interface LoginThrottleEntry {
+  /** Whether `key` is a username or an IP address */
+  keyType: LoginThrottleKeyType;
+  /** Username (lowercased) or IP address */
+  key: string;
+  /** Consecutive failed attempts within the tracking window */
+  failures: number;
+  /** Timestamp of the latest failed attempt */
+  lastFailureAt: Date;
+  /** Timestamp before which no attempt is accepted (progressive delay or lockout) */
+  lockedUntil?: Date;
+}
+
+/** What a token sent by email can be used for */
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * Server-side record of a single-use token sent to a user by email
+ * Only a hash of the token is stored
+ * @interface UserToken
+ */
+export interface UserToken {
+  /** Unique identifier for the token record */
+  id: string;
+  /** ID of the user the token was sent to */
+  userId: string;
+  /** What the token can be used for */
+  purpose: UserTokenPurpose;
+  /** SHA-256 hash of the opaque token value */
+  tokenHash: string;
+  /** Address the token was sent to (verification tokens only verify that address) */
+  email?: string;
+  /** Timestamp after which the token can no longer be used */
+  expiresAt: Date;
+  /** Timestamp when the token was used */
+  usedAt?: Date;
+  /** Timestamp when the token was issued */
+  createdAt: Date;
+}
+
+/**
+ * Email message sent by the RBAC system
+ * @interface MailMessage
+ */
+export interface MailMessage {
+  /** Sender address */
+  from: string;
+  /** Recipient address */
+  to: string;
+  /** Subject line */
+  subject: string;
+  /** Plain text body */
+  text: string;
+}
+
+/**
+ * Hashes and verifies passwords with one algorithm
+ * @interface PasswordHasher
+ */
+export interface PasswordHasher {
+  /** Name of the algorithm (e.g., 'bcrypt') */
+  readonly algorithm: string;
+  /**
+   * Hashes a password with the current parameters
+   * @param password - Plain text password
+   * @returns Promise<string> - Encoded hash, including its salt and parameters
+   */
+  hash(password: string): Promise<string>;
+  /**
+   * Checks a password against a hash made by this algorithm
+   * @param password - Plain text password
+   * @param hash - Encoded hash
+   */
+  verify(password: string, hash: string): Promise<boolean>;
+  /**
+   * Checks whether a hash was made by this algorithm
+   * @param hash - Encoded hash
+   */
+  recognizes(hash: string): boolean;
+  /**
+   * Checks whether a hash made by this algorithm used other parameters than the current ones
+   * @param hash - Encoded hash
+   */
+  needsRehash(hash: string): boolean;
+}
+
+/**
+ * Delivers email messages (e.g., through SMTP or a provider API)
+ * @interface Mailer
+ */
+export interface Mailer {
+  /**
+   * Sends a message
+   * @param message - Message to send
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * TOTP authenticator of a user
+ * @interface UserMfa
+ */
+export interface UserMfa {
+  /** ID of the user the authenticator belongs to */
+  userId: string;
+  /** Base32 TOTP secret shared with the authenticator app */
+  secret: string;
+  /** Timestamp when enrollment was confirmed; MFA is not enforced before that */
+  enabledAt?: Date;
+  /** Last time step a code was accepted for, so a code cannot be used twice */
+  lastUsedStep?: number;
+  /** Timestamp when enrollment started */
+  createdAt: Date;
+}
+
+/**
+ * Server-side record of the second step of a login
+ * Only a hash of the challenge token is stored
+ * @interface MfaChallenge
+ */
+export interface MfaChallenge {
+  /** Unique identifier for the challenge record */
+  id: string;
+  /** ID of the user who passed the first step */
+  userId: string;
+  /** SHA-256 hash of the opaque challenge token */
+  tokenHash: string;
+  /** Organization the login is scoped to */
+  organizationId?: string;
+  /** Number of wrong codes entered so far */
+  attempts: number;
+  /** Timestamp after which the challenge can no longer be completed */
+  expiresAt: Date;
+  /** Timestamp when the challenge was completed */
+  usedAt?: Date;
+  /** Timestamp when the challenge was issued */
+  createdAt: Date;
+}
+
+/**
+ * Result of a login whose second factor is still pending
+ * @interface MfaChallengeResult
+ */
+export interface MfaChallengeResult {
+  /** Always true; tells the result apart from an AuthResult */
+  mfaRequired: true;
+  /** Opaque token to present with the code */
+  challengeToken: string;
+  /** Whether the user must enroll an authenticator first (a held role requires MFA) */
+  enrollmentRequired: boolean;
+  /** Seconds until the challenge expires */
+  expiresIn: number;
+}
+
+/**
+ * Authenticator secret handed out when enrollment starts
+ * @interface MfaEnrollment
+ */
+export interface MfaEnrollment {
+  /** Base32 secret, for manual entry */
+  secret: string;
+  /** otpauth:// URI, usually rendered as a QR code */
+  otpauthUri: string;
+}
+
 /**
  * JWT token payload structure
  * @interface JWTPayload
@@ -112,8 +658,16 @@ export interface JWTPayload {
   roles: string[];
   /** Array of permission names the user has */
   permissions: string[];
+  /** Array of permission names explicitly denied to the user */
+  deniedPermissions?: string[];
+  /** Organization the token is scoped to; roles and permissions are those held in it */
+  tenantId?: string;
+  /** Unique token identifier used for revocation (JWT standard) */
+  jti?: string;
   /** Token issued at timestamp (JWT standard) */
   iat?: number;
+  /** Token issue time in milliseconds, so a login in the same second as a user-wide revocation can be told apart */
+  issuedAtMs?: number;
   /** Token expiration timestamp (JWT standard) */
   exp?: number;
 }
@@ -127,10 +681,18 @@ export interface AuthResult {
   user: Omit<User, 'password'>;
   /** JWT token for subsequent requests */
   token: string;
+  /** Opaque refresh token used to obtain a new access token */
+  refreshToken: string;
   /** Array of roles assigned to the user */
   roles: Role[];
   /** Array of permissions assigned to the user */
   permissions: Permission[];
+  /** Array of permissions explicitly denied to the user */
+  deniedPermissions: Permission[];
+  /** One-time recovery codes, only present when the login also completed MFA enrollment */
+  recoveryCodes?: string[];
+  /** Present when the password is older than `passwordPolicy.maxAge`; the tokens are not restricted, clients should ask for a new password */
+  passwordExpired?: boolean;
 }
 
 /**
@@ -142,6 +704,155 @@ export interface PermissionCheck {
   resource: string;
   /** Action being performed */
   action: string;
+  /** Specific resource instance being accessed; instance-level grants are honored when set */
+  resourceId?: string;
+}
+
+/** Attribute bag available to conditions under one root */
+export type ConditionAttributes = Record<string, unknown>;
+
+/**
+ * Attributes a grant condition is evaluated against (see utils/conditions)
+ * @interface ConditionContext
+ */
+export interface ConditionContext {
+  /** Attributes of the user requesting access */
+  subject?: ConditionAttributes;
+  /** Attributes of the resource being accessed (also reachable as `target`) */
+  resource?: ConditionAttributes;
+  /** Attributes of the request environment (time, IP address...) */
+  environment?: ConditionAttributes;
+}
+
+/**
+ * Context in which an authorization decision is made
+ * @interface AuthorizationContext
+ */
+export interface AuthorizationContext extends ConditionContext {
+  /** Organization to evaluate in; only global assignments count when omitted */
+  tenantId?: string;
+}
+
+/**
+ * Why a role assigned to a user did or did not take part in a decision
+ */
+export type RoleTraceStatus = 'active' | 'role_inactive' | 'not_yet_valid' | 'expired' | 'other_organization';
+
+/**
+ * A role looked at while explaining a decision
+ * @interface RoleTrace
+ */
+export interface RoleTrace {
+  /** ID of the role */
+  roleId: string;
+  /** Name of the role */
+  roleName: string;
+  /** Assigned to the user, or inherited from a held role */
+  source: 'direct' | 'inherited';
+  /** Organization the assignment is scoped to */
+  organizationId?: string;
+  /** Only 'active' roles contribute grants */
+  status: RoleTraceStatus;
+}
+
+/**
+ * Outcome of a grant matching the checked permission
+ * 'condition_error' grants apply only when they deny (see utils/conditions)
+ */
+export type GrantTraceOutcome = 'applied' | 'condition_not_met' | 'condition_error';
+
+/**
+ * A grant matching the checked permission, from a role or a resource instance
+ * @interface GrantTrace
+ */
+export interface GrantTrace {
+  /** Whether the grant comes from a role or from a resource instance grant */
+  source: 'role' | 'resource_grant';
+  /** ID of the role granting the permission (role grants only) */
+  roleId?: string;
+  /** Name of the role granting the permission (role grants only) */
+  roleName?: string;
+  /** Name of the granted permission, possibly a wildcard */
+  permission: string;
+  /** Whether the grant allows or denies */
+  effect: PermissionEffect;
+  /** Condition of the grant, if any */
+  condition?: string;
+  /** Whether the grant applied to this check */
+  outcome: GrantTraceOutcome;
+}
+
+/**
+ * Full trace of a permission decision
+ * @interface AuthorizationExplanation
+ */
+export interface AuthorizationExplanation {
+  /** ID of the user the check was made for */
+  userId: string;
+  /** The permission that was checked */
+  check: PermissionCheck;
+  /** Organization the check was made in */
+  tenantId?: string;
+  /** The decision, as `hasPermission` would return it */
+  allowed: boolean;
+  /** Roles assigned to the user (in any scope) and roles inherited from the active ones */
+  roles: RoleTrace[];
+  /** Grants of the permission from active roles and resource instance grants */
+  grants: GrantTrace[];
+  /** The rule that decided: an applied deny, an applied allow, or no applicable grant at all */
+  decidedBy: {
+    rule: 'deny' | 'allow' | 'no_matching_grant';
+    grant?: GrantTrace;
+  };
+}
+
+/**
+ * Options for assigning a role to a user
+ * @interface RoleAssignmentOptions
+ */
+export interface RoleAssignmentOptions {
+  /** Organization the assignment is scoped to (global when omitted) */
+  organizationId?: string;
+  /** When the assignment starts to apply (immediately when omitted) */
+  validFrom?: Date;
+  /** When the assignment expires (never when omitted) */
+  validUntil?: Date;
+}
+
+/**
+ * Algorithms supported for signing JWT tokens
+ * HS256 uses a shared secret; RS256 and ES256 use private/public key pairs
+ */
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Key pair generated by key rotation and shared through the database
+ * @interface SigningKey
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: JWTAlgorithm;
+  /** PEM-encoded private key */
+  privateKey: string;
+  /** PEM-encoded public key */
+  publicKey: string;
+  /** When the key starts signing; it is published for verification before that */
+  activatesAt: Date;
+}
+
+/**
+ * Asymmetric key pair used to sign and/or verify JWT tokens
+ * @interface JWTKeyConfig
+ */
+export interface JWTKeyConfig {
+  /** Key identifier placed in the token `kid` header (derived from the public key if omitted) */
+  kid?: string;
+  /** Signing algorithm of the key (defaults to `jwt.algorithm`) */
+  algorithm?: Exclude<JWTAlgorithm, 'HS256'>;
+  /** PEM-encoded private key; keys without one are only used for verification */
+  privateKey?: string;
+  /** PEM-encoded public key */
+  publicKey: string;
 }
 
 /**
@@ -168,9 +879,171 @@ export interface RBACConfig {
   };
   /** JWT configuration */
   jwt: {
-    /** Secret key for signing JWT tokens */
-    secret: string;
-    /** Token expiration time (e.g., '24h', '7d') */
+    /** Secret key for signing JWT tokens (HS256) */
+    secret?: string;
+    /** Signing algorithm (default: 'HS256', or the algorithm of the configured keys) */
+    algorithm?: JWTAlgorithm;
+    /** Asymmetric keys; the first key with a private key signs, all of them verify */
+    keys?: JWTKeyConfig[];
+    /**
+     * Automatic key rotation (asymmetric algorithms only)
+     * Generated keys are stored in the database, private keys included, so every instance signs and verifies with them
+     */
+    rotation?: {
+      /** How often a new signing key is generated (e.g., '30d') */
+      interval: string;
+      /** How long a replaced key is still accepted for verification (e.g., '1d') */
+      gracePeriod: string;
+    };
+    /** Token expiration time (e.g., '15m', '24h') */
     expiresIn: string;
+    /** Refresh token expiration time (default: '7d') */
+    refreshExpiresIn?: string;
+  };
+  /** Access token revocation configuration */
+  revocation?: {
+    /** Where revoked tokens are tracked (default: 'database'); 'memory' does not survive restarts */
+    store?: 'database' | 'memory';
+  };
+  /** Propagation of permission cache invalidations to other instances (single instance when omitted) */
+  invalidationBus?: {
+    /** Postgres LISTEN/NOTIFY on the configured database, or a custom bus */
+    bus: 'postgres' | InvalidationBus;
+    /** Notification channel when `bus` is 'postgres' (default: 'rbac_invalidation') */
+    channel?: string;
+  };
+  /** Credentials of services allowed to ask for authorization decisions (`POST /api/authorize`) */
+  serviceAuth?: {
+    /** Accepted API keys, sent as `Authorization: Bearer <key>` */
+    apiKeys: string[];
+  };
+  /** Cache of effective roles and permissions (disabled when omitted) */
+  permissionCache?: {
+    /** Storage for cached entries (default: in-memory LRU) */
+    adapter?: PermissionCacheAdapter;
+    /** Number of users kept by the default adapter (default: 10000) */
+    maxEntries?: number;
+    /** Lifetime of entries in the default adapter (default: '1m') */
+    ttl?: string;
+  };
+  /** Authorization decision logging (disabled when omitted) */
+  decisionLog?: {
+    /** Where decisions are written: the database, a JSON lines file (`filePath`) or a custom sink */
+    sink: 'database' | 'file' | DecisionSink;
+    /** File decisions are appended to when `sink` is 'file' */
+    filePath?: string;
+    /** Whether every deny is recorded (default: true) */
+    recordDenies?: boolean;
+    /** Fraction of allows recorded, from 0 to 1 (default: 0) */
+    allowSampleRate?: number;
+  };
+  /** Just-in-time access request configuration */
+  accessRequests?: {
+    /** Permission approvers must hold (default: 'access-requests:approve') */
+    approverPermission?: string;
+    /** Longest duration that can be requested (default: '8h') */
+    maxDuration?: string;
+  };
+  /** Rules new passwords must follow (only the length limits apply when omitted) */
+  passwordPolicy?: {
+    /** Minimum number of characters (default: 6) */
+    minLength?: number;
+    /** Maximum number of characters (default: 128) */
+    maxLength?: number;
+    /** Whether an uppercase letter is required */
+    requireUppercase?: boolean;
+    /** Whether a lowercase letter is required */
+    requireLowercase?: boolean;
+    /** Whether a digit is required */
+    requireDigit?: boolean;
+    /** Whether a character other than letters and digits is required */
+    requireSymbol?: boolean;
+    /** Whether passwords containing the username or the local part of the email are rejected */
+    disallowUserInfo?: boolean;
+    /**
+     * Age after which logins report the password as expired (e.g., '90d'; never when omitted)
+     * Advisory only: such logins still receive full tokens, flagged with `passwordExpired`,
+     * and it is up to the client to make the user change the password
+     */
+    maxAge?: string;
+    /** Number of latest passwords, the current one included, that cannot be reused (default: 0) */
+    historySize?: number;
+    /** File of SHA-1 hashes of breached passwords, one per line ('HASH' or 'HASH:count', as published by Have I Been Pwned) */
+    breachedPasswordsFile?: string;
+  };
+  /** Brute-force protection of password logins (enabled with the defaults when omitted) */
+  loginThrottling?: {
+    /** Failed attempts per username before it is locked (default: 5) */
+    maxAttempts?: number;
+    /** Failed attempts per IP address before it is locked (default: 20) */
+    ipMaxAttempts?: number;
+    /** How long a lockout lasts (default: '15m') */
+    lockoutDuration?: string;
+    /** Failures are forgotten after this long without a new one (default: '15m') */
+    window?: string;
+    /** Delay imposed from the third failure on, doubled after each further failure (default: '1s') */
+    baseDelay?: string;
+    /** Longest delay before the lockout threshold is reached (default: '30s') */
+    maxDelay?: string;
+  };
+  /**
+   * Password hashing (bcrypt with 10 rounds when omitted)
+   * Hashes of every built-in algorithm are accepted; on login, those made by another algorithm
+   * or with other parameters than the current ones are replaced with a new hash
+   */
+  passwordHashing?: {
+    /** Algorithm new hashes are made with: one of the built-in ones or a custom hasher */
+    algorithm?: 'bcrypt' | 'scrypt' | 'argon2' | PasswordHasher;
+    bcrypt?: {
+      /** Cost factor, as a base-2 logarithm of the iterations (default: 10) */
+      rounds?: number;
+    };
+    scrypt?: {
+      /** CPU and memory cost, a power of two (default: 16384) */
+      cost?: number;
+      /** Block size (default: 8) */
+      blockSize?: number;
+      /** Parallelization (default: 1) */
+      parallelization?: number;
+    };
+    argon2?: {
+      /** Memory in kibibytes (default: 19456) */
+      memoryCost?: number;
+      /** Number of passes (default: 2) */
+      timeCost?: number;
+      /** Degree of parallelism (default: 1) */
+      parallelism?: number;
+    };
+  };
+  /** Outgoing email for password resets and address verification (both disabled when omitted) */
+  email?: {
+    /** How messages are delivered: printed to the console, appended to a file (`filePath`) or a custom mailer */
+    mailer: 'console' | 'file' | Mailer;
+    /** File messages are appended to when `mailer` is 'file' */
+    filePath?: string;
+    /** Sender address (default: 'no-reply@localhost') */
+    from?: string;
+    /** Base URL of the application; messages then link to `/reset-password` and `/verify-email` under it */
+    appUrl?: string;
+    /** Lifetime of password reset tokens (default: '1h') */
+    passwordResetExpiresIn?: string;
+    /** Lifetime of email verification tokens (default: '24h') */
+    verificationExpiresIn?: string;
+    /** Whether users must verify their address before logging in (default: false) */
+    requireVerification?: boolean;
+  };
+  /** Multi-factor authentication configuration */
+  mfa?: {
+    /** Service name shown in authenticator apps (default: 'RBAC System') */
+    issuer?: string;
+    /** Time allowed to enter the code after the password (default: '5m') */
+    challengeExpiresIn?: string;
+  };
+  /** Role assignment expiry configuration */
+  roleAssignments?: {
+    /** How often expired assignments are swept (default: '1m') */
+    sweepInterval?: string;
+    /** What happens to expired assignments (default: 'delete'); 'archive' keeps them in user_role_archive */
+    onExpiry?: 'delete' | 'archive';
   };
 }
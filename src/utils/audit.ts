@@ -0,0 +1,33 @@
+import { Request } from 'express';
+import { AuditEvent, User } from '../types';
+
+/**
+ * Fields of an audit event that come from the request: who acted, where from and in which organization
+ * @param req - Express request, after token verification when the route is authenticated
+ */
+export function auditContext(req: Request): Pick<AuditEvent, 'actorId' | 'organizationId' | 'ipAddress' | 'userAgent'> {
+  return {
+    actorId: req.user?.userId,
+    organizationId: req.tenantId,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  };
+}
+
+/**
+ * Snapshot of a user that is safe to keep in the audit log (without the password hash)
+ * Fields are listed explicitly, so fields added to users later stay out until chosen
+ * @param user - User to snapshot
+ */
+export function userSnapshot(user: User): Omit<User, 'password'> {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    isActive: user.isActive,
+    emailVerifiedAt: user.emailVerifiedAt,
+    passwordChangedAt: user.passwordChangedAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  };
+}
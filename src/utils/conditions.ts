@@ -0,0 +1,392 @@
+import { ConditionContext } from '../types';
+
+/**
+ * Attribute-based condition expressions for role-permission grants
+ *
+ * Conditions are parsed into a small AST and interpreted; nothing is ever passed to `eval`
+ * or `Function`, and attribute lookups only see own properties of the supplied attribute objects.
+ *
+ * Grammar:
+ *   expression := or
+ *   or         := and ( '||' and )*
+ *   and        := unary ( '&&' unary )*
+ *   unary      := '!' unary | comparison
+ *   comparison := operand ( ( '==' | '!=' | '>' | '>=' | '<' | '<=' | 'in' ) operand )?
+ *   operand    := literal | path | '[' ( operand ( ',' operand )* )? ']' | '(' expression ')'
+ *   literal    := number | 'string' | "string" | true | false | null
+ *   path       := root ( '.' identifier )*   where root is subject, resource (alias: target) or environment
+ *
+ * Examples:
+ *   resource.department == subject.department
+ *   environment.hour >= 9 && environment.hour < 18
+ *   subject.level > 2 || resource.status in ['draft', 'review']
+ */
+
+/**
+ * Thrown when a condition expression cannot be parsed
+ */
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (posição ${position})`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+/**
+ * Thrown when a condition refers to an attribute the context does not have
+ */
+export class ConditionEvaluationError extends Error {
+  constructor(public readonly attribute: string) {
+    super(`Atributo ausente: ${attribute}`);
+    this.name = 'ConditionEvaluationError';
+  }
+}
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'in';
+
+type ConditionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; root: keyof ConditionContext; keys: string[] }
+  | { type: 'array'; items: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+interface Token {
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'end';
+  value: string;
+  position: number;
+}
+
+/** Longest accepted expression, in characters */
+const MAX_EXPRESSION_LENGTH = 1000;
+/** Deepest accepted nesting of sub-expressions */
+const MAX_DEPTH = 32;
+
+const ROOTS: Record<string, keyof ConditionContext> = {
+  subject: 'subject',
+  resource: 'resource',
+  target: 'resource',
+  environment: 'environment'
+};
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!'];
+const COMPARISON_OPERATORS = ['==', '!=', '>', '>=', '<', '<=', 'in'];
+
+const compiledConditions = new Map<string, ConditionNode>();
+
+/**
+ * Parses a condition expression, throwing if it is not valid
+ * Parsed expressions are cached, so validating before storing also warms the cache
+ * @param expression - Condition expression
+ * @throws ConditionSyntaxError if the expression is malformed
+ */
+export function validateCondition(expression: string): void {
+  compile(expression);
+}
+
+/**
+ * Evaluates a condition expression against a set of attributes
+ * Reaching a missing attribute is an error rather than a value, so neither `!=` nor `!` can turn
+ * an absent attribute into a match; `&&` and `||` short-circuit before reaching their right side
+ * @param expression - Condition expression
+ * @param context - Subject, resource and environment attributes
+ * @returns boolean - True only if the expression evaluates to a truthy value
+ * @throws ConditionSyntaxError if the expression is malformed
+ * @throws ConditionEvaluationError if the expression reaches a missing attribute
+ */
+export function evaluateCondition(expression: string, context: ConditionContext): boolean {
+  return Boolean(evaluate(compile(expression), context));
+}
+
+function compile(expression: string): ConditionNode {
+  const cached = compiledConditions.get(expression);
+  if (cached) {
+    return cached;
+  }
+
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ConditionSyntaxError(`Condição excede ${MAX_EXPRESSION_LENGTH} caracteres`, 0);
+  }
+
+  const node = new Parser(tokenize(expression)).parse();
+  compiledConditions.set(expression, node);
+  return node;
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(expression.slice(index));
+    if (number) {
+      tokens.push({ kind: 'number', value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(index));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < expression.length && expression[index] !== char) {
+        if (expression[index] === '\\' && index + 1 < expression.length) {
+          index++;
+        }
+        value += expression[index];
+        index++;
+      }
+      if (index >= expression.length) {
+        throw new ConditionSyntaxError('String não terminada', start);
+      }
+      index++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => expression.startsWith(candidate, index));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if ('()[],.'.includes(char)) {
+      tokens.push({ kind: 'punctuation', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    throw new ConditionSyntaxError(`Caractere inesperado '${char}'`, index);
+  }
+
+  tokens.push({ kind: 'end', value: '', position: expression.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new ConditionSyntaxError(`Token inesperado '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.accept('operator', '||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseUnary();
+    while (this.accept('operator', '&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.accept('operator', '!')) {
+      return this.nested(() => ({ type: 'not', operand: this.parseUnary() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (COMPARISON_OPERATORS.includes(token.value) && (token.kind === 'operator' || token.kind === 'identifier')) {
+      this.index++;
+      return { type: 'compare', operator: token.value as ComparisonOperator, left, right: this.parseOperand() };
+    }
+
+    return left;
+  }
+
+  private parseOperand(): ConditionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.nested(() => this.parseOr());
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return this.nested(() => this.parseArray());
+        }
+    }
+
+    throw new ConditionSyntaxError(`Token inesperado '${token.value || 'fim da expressão'}'`, token.position);
+  }
+
+  private parseIdentifier(token: Token): ConditionNode {
+    if (token.value === 'true' || token.value === 'false') {
+      return { type: 'literal', value: token.value === 'true' };
+    }
+    if (token.value === 'null') {
+      return { type: 'literal', value: null };
+    }
+
+    const root = ROOTS[token.value];
+    if (!root) {
+      throw new ConditionSyntaxError(`Atributo desconhecido '${token.value}' (use subject, resource ou environment)`, token.position);
+    }
+
+    const keys: string[] = [];
+    while (this.accept('punctuation', '.')) {
+      const key = this.next();
+      if (key.kind !== 'identifier') {
+        throw new ConditionSyntaxError('Nome de atributo esperado', key.position);
+      }
+      keys.push(key.value);
+    }
+
+    return { type: 'path', root, keys };
+  }
+
+  private parseArray(): ConditionNode {
+    const items: ConditionNode[] = [];
+    if (!this.accept('punctuation', ']')) {
+      do {
+        items.push(this.parseOperand());
+      } while (this.accept('punctuation', ','));
+      this.expect(']');
+    }
+    return { type: 'array', items };
+  }
+
+  private nested(parse: () => ConditionNode): ConditionNode {
+    if (++this.depth > MAX_DEPTH) {
+      throw new ConditionSyntaxError('Condição aninhada demais', this.peek().position);
+    }
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(kind: Token['kind'], value: string): boolean {
+    const token = this.peek();
+    if (token.kind === kind && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept('punctuation', value)) {
+      const token = this.peek();
+      throw new ConditionSyntaxError(`'${value}' esperado`, token.position);
+    }
+  }
+}
+
+function evaluate(node: ConditionNode, context: ConditionContext): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path': {
+      const value = lookup(context[node.root], node.keys);
+      if (value === undefined) {
+        throw new ConditionEvaluationError([node.root, ...node.keys].join('.'));
+      }
+      return value;
+    }
+    case 'array':
+      return node.items.map(item => evaluate(item, context));
+    case 'not':
+      return !evaluate(node.operand, context);
+    case 'logical':
+      return node.operator === '&&'
+        ? Boolean(evaluate(node.left, context)) && Boolean(evaluate(node.right, context))
+        : Boolean(evaluate(node.left, context)) || Boolean(evaluate(node.right, context));
+    case 'compare':
+      return compare(node.operator, evaluate(node.left, context), evaluate(node.right, context));
+  }
+}
+
+// Only own properties are reachable, so expressions cannot walk into prototypes
+function lookup(attributes: Record<string, unknown> | undefined, keys: string[]): unknown {
+  let value: unknown = attributes;
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case 'in':
+      return Array.isArray(right) && right.includes(left);
+  }
+
+  const comparable = (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  switch (operator) {
+    case '>':
+      return (left as number | string) > (right as number | string);
+    case '>=':
+      return (left as number | string) >= (right as number | string);
+    case '<':
+      return (left as number | string) < (right as number | string);
+    case '<=':
+      return (left as number | string) <= (right as number | string);
+  }
+}
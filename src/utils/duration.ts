@@ -0,0 +1,44 @@
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  msec: 'ms', msecs: 'ms', millisecond: 'ms', milliseconds: 'ms',
+  sec: 's', secs: 's', second: 's', seconds: 's',
+  min: 'm', mins: 'm', minute: 'm', minutes: 'm',
+  hr: 'h', hrs: 'h', hour: 'h', hours: 'h',
+  day: 'd', days: 'd',
+  week: 'w', weeks: 'w'
+};
+
+/**
+ * Converts a duration to milliseconds
+ * Accepts the same formats as the JWT `expiresIn` option: a number of seconds
+ * or a string such as '500ms', '30s', '15m', '24h', '7d', '2w' or '2 days'
+ * (like jsonwebtoken, a string without a unit is read as milliseconds)
+ * @param value - Duration to convert
+ * @returns number - Duration in milliseconds
+ * @throws Error if the duration format is not recognized
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    return value * 1000;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  const rawUnit = match ? (match[2] || 'ms').toLowerCase() : '';
+  const unit = UNIT_ALIASES[rawUnit] || rawUnit;
+
+  if (!match || !(unit in UNIT_MS)) {
+    throw new Error(`Invalid duration: '${value}'`);
+  }
+
+  const amount = parseFloat(match[1]);
+
+  return Math.round(amount * UNIT_MS[unit]);
+}
@@ -0,0 +1,113 @@
+import { PermissionCheck } from '../types';
+
+/** Matches any resource, any action, or (alone) any permission */
+export const WILDCARD = '*';
+
+/** Matches any number of resource path segments */
+const GLOBSTAR = '**';
+
+/**
+ * Parses a permission name into its resource and action
+ * Accepts 'resource:action' and the legacy 'resource.action' form; '*' means every permission
+ * @param name - Permission name (e.g., 'users:read', 'projects/123/docs:read', '*')
+ * @returns PermissionCheck | null - Resource and action, or null if the name has no action part
+ */
+export function parsePermissionName(name: string): PermissionCheck | null {
+  if (name === WILDCARD) {
+    return { resource: WILDCARD, action: WILDCARD };
+  }
+
+  const separator = name.includes(':') ? ':' : '.';
+  const index = name.lastIndexOf(separator);
+  if (index <= 0 || index === name.length - 1) {
+    return null;
+  }
+
+  return {
+    resource: name.substring(0, index),
+    action: name.substring(index + 1)
+  };
+}
+
+/**
+ * Checks a resource against a resource pattern
+ * Resources are '/'-separated paths; in patterns '*' matches exactly one segment,
+ * '**' matches any number of segments, and a bare '*' matches every resource
+ * @param pattern - Granted resource pattern (e.g., 'projects/*\/docs', 'projects/**')
+ * @param resource - Resource being accessed (e.g., 'projects/123/docs')
+ * @returns boolean - True if the pattern covers the resource
+ */
+export function matchesResource(pattern: string, resource: string): boolean {
+  if (pattern === WILDCARD || pattern === resource) {
+    return true;
+  }
+
+  return matchSegments(pattern.split('/'), resource.split('/'));
+}
+
+/**
+ * Checks an action against an action pattern
+ * @param pattern - Granted action ('*' matches every action)
+ * @param action - Action being performed
+ * @returns boolean - True if the pattern covers the action
+ */
+export function matchesAction(pattern: string, action: string): boolean {
+  return pattern === WILDCARD || pattern === action;
+}
+
+/**
+ * Checks whether a granted permission (possibly containing wildcards) covers a permission check
+ * @param granted - Granted resource/action pattern
+ * @param check - Permission being checked
+ * @returns boolean - True if the grant covers the check
+ */
+export function permissionMatches(granted: PermissionCheck, check: PermissionCheck): boolean {
+  return matchesAction(granted.action, check.action) && matchesResource(granted.resource, check.resource);
+}
+
+/**
+ * Checks whether any of the given permission names covers a permission check
+ * Used where only names are available, such as JWT claims
+ * @param permissionNames - Granted permission names
+ * @param check - Permission being checked
+ * @returns boolean - True if at least one name covers the check
+ */
+export function anyPermissionNameMatches(permissionNames: string[], check: PermissionCheck): boolean {
+  return permissionNames.some(name => {
+    const granted = parsePermissionName(name);
+    return !!granted && permissionMatches(granted, check);
+  });
+}
+
+/**
+ * Formats a permission check as a stable key, used in decision logs and batch results
+ * @param check - Permission being checked
+ * @returns string - 'resource:action', suffixed with '#resourceId' for instance checks
+ */
+export function formatPermissionCheck(check: PermissionCheck): string {
+  const name = `${check.resource}:${check.action}`;
+  return check.resourceId ? `${name}#${check.resourceId}` : name;
+}
+
+function matchSegments(pattern: string[], segments: string[]): boolean {
+  if (pattern.length === 0) {
+    return segments.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+
+  if (head === GLOBSTAR) {
+    for (let skip = 0; skip <= segments.length; skip++) {
+      if (matchSegments(rest, segments.slice(skip))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (segments.length === 0) {
+    return false;
+  }
+
+  return (head === WILDCARD || head === segments[0]) && matchSegments(rest, segments.slice(1));
+}
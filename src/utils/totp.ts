@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Length of a time step in seconds */
+const TOTP_PERIOD = 30;
+
+/** Number of digits of a code */
+const TOTP_DIGITS = 6;
+
+/** Steps accepted before and after the current one, to tolerate clock drift */
+const TOTP_WINDOW = 1;
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps expect for secrets
+ * @param buffer - Bytes to encode
+ * @returns string - Base32 text
+ */
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodes RFC 4648 base32 text; padding, spaces and lowercase letters are accepted
+ * @param text - Base32 text
+ * @returns Buffer - Decoded bytes
+ * @throws Error if the text contains characters outside the base32 alphabet
+ */
+export function decodeBase32(text: string): Buffer {
+  const cleaned = text.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: '${char}'`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a random TOTP secret
+ * @returns string - 160-bit secret in base32
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.randomBytes(20));
+}
+
+/**
+ * Gets the time step a moment falls in
+ * @param time - Moment in milliseconds since the epoch (default: now)
+ * @returns number - Time step counter
+ */
+export function getTotpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Computes the code of a time step (RFC 6238 with HMAC-SHA1)
+ * @param secret - Base32 secret
+ * @param step - Time step counter
+ * @returns string - Zero-padded code
+ */
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Checks a code against the current time step and its neighbours
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param time - Moment to check at, in milliseconds since the epoch (default: now)
+ * @returns number | null - Time step the code belongs to, or null if it matches none;
+ * callers should reject steps already used to prevent replays
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now()): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = getTotpStep(time);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds the otpauth:// URI authenticator apps import (usually shown as a QR code)
+ * @param secret - Base32 secret
+ * @param accountName - Account shown in the app (e.g., the username)
+ * @param issuer - Service name shown in the app
+ * @returns string - otpauth URI
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
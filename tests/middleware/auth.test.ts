@@ -208,4 +208,25 @@ describe('AuthMiddleware', () => {
       });
     });
   });
+
+  describe('verifyServiceCredential', () => {
+    it('should accept configured service keys only', () => {
+      const serviceMiddleware = new AuthMiddleware(
+        new RBACService(dbConnection.getKnex(), { ...testConfig, serviceAuth: { apiKeys: ['service-key'] } })
+      );
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn()
+      } as unknown as Response;
+      const next = jest.fn() as NextFunction;
+
+      serviceMiddleware.verifyServiceCredential({ headers: { authorization: 'Bearer service-key' } } as Request, res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      serviceMiddleware.verifyServiceCredential({ headers: { authorization: 'Bearer service-ke' } } as Request, res, next);
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Credencial de serviço inválida' });
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+  });
 });
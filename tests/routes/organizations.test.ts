@@ -0,0 +1,66 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { OrganizationController } from '../../src/controllers/OrganizationController';
+import { DatabaseConnection } from '../../src/database/connection';
+import { AuthMiddleware } from '../../src/middleware/auth';
+import { createOrganizationRoutes } from '../../src/routes/organizations';
+import { RBACService } from '../../src/services/RBACService';
+import { testConfig } from '../setup';
+
+describe('Organization routes', () => {
+  let rbacService: RBACService;
+  let dbConnection: DatabaseConnection;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    dbConnection = DatabaseConnection.getInstance(testConfig);
+    rbacService = new RBACService(dbConnection.getKnex(), testConfig);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/organizations', createOrganizationRoutes(new OrganizationController(rbacService), new AuthMiddleware(rbacService)));
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/organizations`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await dbConnection.close();
+  });
+
+  it('should not let a tenant admin add users to their organization', async () => {
+    const organization = await rbacService.createOrganization({ name: 'Tyrell', slug: 'tyrell', isActive: true });
+    const admin = await rbacService.createUser({ username: 'tyrell-admin', email: 'admin@tyrell.test', password: 'password123', isActive: true });
+    const outsider = await rbacService.createUser({ username: 'route-outsider', email: 'route-outsider@example.com', password: 'password123', isActive: true });
+    const managers = await rbacService.createRole({ name: 'tyrell-managers', description: 'Test role', isActive: true, organizationId: organization.id });
+    const manage = await rbacService.createPermission({
+      name: 'organizations:manage',
+      resource: 'organizations',
+      action: 'manage',
+      description: 'Manage organizations'
+    });
+    await rbacService.addOrganizationMember(organization.id, admin.id);
+    await rbacService.assignPermissionToRole(managers.id, manage.id, 'test-user-id');
+    await rbacService.assignRoleToUser(admin.id, managers.id, 'test-user-id', { organizationId: organization.id });
+
+    const token = rbacService.generateToken({
+      userId: admin.id,
+      username: admin.username,
+      email: admin.email,
+      roles: ['tyrell-managers'],
+      permissions: ['organizations:manage'],
+      tenantId: organization.id
+    });
+    const headers = { Authorization: `Bearer ${token}` };
+
+    // The admin can still manage their own organization
+    const members = await fetch(`${baseUrl}/${organization.id}/members`, { headers });
+    expect(members.status).toBe(200);
+
+    const added = await fetch(`${baseUrl}/${organization.id}/members/${outsider.id}`, { method: 'POST', headers });
+    expect(added.status).toBe(403);
+    expect(await rbacService.isOrganizationMember(organization.id, outsider.id)).toBe(false);
+  });
+});
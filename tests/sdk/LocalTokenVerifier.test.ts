@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JSONWebKeySet } from '../../src/services/KeyManager';
+import { LocalTokenVerifier } from '../../src/sdk/LocalTokenVerifier';
+
+const createKey = (kid: string) => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    kid,
+    privateKey,
+    publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+    jwk: { ...(publicKey.export({ format: 'jwk' }) as Record<string, unknown>), kid, kty: 'RSA', alg: 'RS256', use: 'sig' as const }
+  };
+};
+
+// Lets the clock move past the last fetch, so a zero refetch interval allows another one
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+const claims = { userId: 'user-1', username: 'localuser', email: 'local@example.com', roles: ['editor'], permissions: ['documents:read'] };
+
+describe('LocalTokenVerifier', () => {
+  const current = createKey('key-1');
+  const next = createKey('key-2');
+  let jwks: JSONWebKeySet;
+  let fetchJWKS: jest.Mock<Promise<JSONWebKeySet>, []>;
+
+  const sign = (key: typeof current, options: jwt.SignOptions = {}) =>
+    jwt.sign(claims, key.privateKey, { algorithm: 'RS256', keyid: key.kid, expiresIn: '1h', ...options });
+
+  beforeEach(() => {
+    jwks = { keys: [current.jwk] };
+    fetchJWKS = jest.fn(async () => jwks);
+  });
+
+  it('should verify RS256 tokens against the fetched key set and cache it', async () => {
+    const verifier = new LocalTokenVerifier({}, fetchJWKS);
+
+    expect(await verifier.verify(sign(current))).toMatchObject(claims);
+    expect(await verifier.verify(sign(current))).toMatchObject(claims);
+    expect(fetchJWKS).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject tokens signed with an unknown key and refetch at most once per interval', async () => {
+    const verifier = new LocalTokenVerifier({}, fetchJWKS);
+    await verifier.verify(sign(current));
+
+    // Within the refetch interval an unknown kid is rejected without asking the service again
+    await expect(verifier.verify(sign(next))).rejects.toThrow('Chave de assinatura desconhecida: key-2');
+    expect(fetchJWKS).toHaveBeenCalledTimes(1);
+
+    const eager = new LocalTokenVerifier({ jwksRefetchInterval: 0 }, fetchJWKS);
+    await eager.verify(sign(current));
+    await tick();
+    await expect(eager.verify(sign(next))).rejects.toThrow('Chave de assinatura desconhecida: key-2');
+
+    // A rotated key is picked up by the refetch an unknown kid triggers
+    jwks = { keys: [current.jwk, next.jwk] };
+    await tick();
+    expect(await eager.verify(sign(next))).toMatchObject(claims);
+    expect(fetchJWKS).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject expired, unsigned and tampered tokens', async () => {
+    const verifier = new LocalTokenVerifier({}, fetchJWKS);
+    const [header, , signature] = sign(current).split('.');
+    const tampered = [header, Buffer.from(JSON.stringify({ ...claims, roles: ['admin'] })).toString('base64url'), signature].join('.');
+
+    await expect(verifier.verify(sign(current, { expiresIn: -10 }))).rejects.toThrow('jwt expired');
+    await expect(verifier.verify(jwt.sign(claims, 'shared-secret'))).rejects.toThrow('Token sem identificador de chave (kid)');
+    await expect(verifier.verify(tampered)).rejects.toThrow('invalid signature');
+  });
+
+  it('should verify against a configured public key without fetching the key set', async () => {
+    const verifier = new LocalTokenVerifier({ publicKey: current.publicKeyPem }, fetchJWKS);
+
+    expect(await verifier.verify(sign(current))).toMatchObject(claims);
+    await expect(verifier.verify(sign(next))).rejects.toThrow();
+    expect(fetchJWKS).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { RBACClient } from '../../src/sdk/RBACClient';
+
+describe('RBACClient', () => {
+  const client = new RBACClient({ baseUrl: 'http://rbac.test', apiKey: 'service-key' });
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () =>
+      new Response(JSON.stringify({ data: { allowed: true } }), { status: 200 })
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const sentAuthorization = () => (fetchMock.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+
+  it('should ask for decisions with the service key', async () => {
+    const allowed = await client.can('user-1', { resource: 'documents', action: 'read', resourceId: 'doc-1' }, { tenantId: 'org-1' });
+
+    expect(allowed).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://rbac.test/api/authorize');
+    expect(sentAuthorization().Authorization).toBe('Bearer service-key');
+    expect(JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string)).toEqual({
+      userId: 'user-1',
+      resource: 'documents',
+      action: 'read',
+      resourceId: 'doc-1',
+      tenantId: 'org-1'
+    });
+  });
+
+  it('should send the user token instead of the service key when given one', async () => {
+    await client.checkMany('user-token', [{ resource: 'documents', action: 'read' }]);
+    expect(sentAuthorization().Authorization).toBe('Bearer user-token');
+  });
+});
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { RBACClient } from '../../src/sdk/RBACClient';
+import { RBACMiddleware, TokenVerificationConfig } from '../../src/sdk/middleware';
+
+const profile = {
+  user: { id: 'user-1', username: 'remoteuser', email: 'remote@example.com' },
+  tenantId: 'org-1',
+  organizations: [],
+  roles: [{ name: 'editor' }],
+  permissions: [{ name: 'documents:read' }],
+  deniedPermissions: []
+};
+
+const signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = {
+  keys: [{ ...(signingKey.publicKey.export({ format: 'jwk' }) as Record<string, unknown>), kid: 'key-1', alg: 'RS256', use: 'sig' }]
+};
+
+// Tokens as the RBAC service would issue them; the claims differ from the profile to show where a payload came from
+const signToken = (issuedSecondsAgo: number, keyid = 'key-1') => jwt.sign({
+  userId: 'user-1',
+  username: 'localuser',
+  email: 'local@example.com',
+  roles: ['viewer'],
+  permissions: ['documents:read'],
+  iat: Math.floor(Date.now() / 1000) - issuedSecondsAgo
+}, signingKey.privateKey, { algorithm: 'RS256', keyid, expiresIn: '1h' });
+
+describe('RBACMiddleware', () => {
+  let fetchMock: jest.SpyInstance;
+  let authorizeRequests: Array<{ authorization: string; body: Record<string, unknown> }>;
+
+  // Stands in for the RBAC service: the profile needs the user token, decisions need the service key
+  beforeEach(() => {
+    authorizeRequests = [];
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (url, init) => {
+      const authorization = (init?.headers as Record<string, string>).Authorization;
+      if (url === 'http://rbac.test/.well-known/jwks.json') {
+        return new Response(JSON.stringify(jwks), { status: 200 });
+      }
+      if (url === 'http://rbac.test/api/auth/profile') {
+        return authorization === 'Bearer user-token' || isSignedToken(authorization)
+          ? new Response(JSON.stringify({ data: profile }), { status: 200 })
+          : new Response(JSON.stringify({ error: 'Token inválido ou expirado' }), { status: 401 });
+      }
+
+      authorizeRequests.push({ authorization, body: JSON.parse(init?.body as string) });
+      const allowed = authorization === 'Bearer service-key' && authorizeRequests.length === 1;
+      return new Response(JSON.stringify({ data: { allowed } }), { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const isSignedToken = (authorization: string) => {
+    try {
+      jwt.verify(authorization.substring(7), signingKey.publicKey);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const fetchedUrls = () => fetchMock.mock.calls.map(([url]) => url);
+
+  const createResponse = () => ({
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn()
+  }) as unknown as Response;
+
+  it('should verify tokens and check permissions remotely with a service key', async () => {
+    const middleware = new RBACMiddleware({
+      rbacClient: new RBACClient({ baseUrl: 'http://rbac.test', apiKey: 'service-key' }),
+      permissionChecks: 'remote'
+    });
+    const req = { headers: { authorization: 'Bearer user-token' } } as Request;
+    const res = createResponse();
+    const next = jest.fn() as NextFunction;
+
+    await middleware.verifyToken(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(req.user).toMatchObject({ userId: 'user-1', roles: ['editor'], tenantId: 'org-1' });
+
+    await middleware.requirePermission({ resource: 'documents', action: 'read' })(req, res, next);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(authorizeRequests[0]).toEqual({
+      authorization: 'Bearer service-key',
+      body: { userId: 'user-1', resource: 'documents', action: 'read', tenantId: 'org-1' }
+    });
+
+    // The second decision is a deny from the service, whatever the claims say
+    await middleware.requirePermission({ resource: 'documents', action: 'read' })(req, res, next);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should reject tokens the RBAC service does not accept', async () => {
+    const middleware = new RBACMiddleware({
+      rbacClient: new RBACClient({ baseUrl: 'http://rbac.test', apiKey: 'service-key' })
+    });
+    const res = createResponse();
+    const next = jest.fn() as NextFunction;
+
+    await middleware.verifyToken({ headers: { authorization: 'Bearer stolen-token' } } as Request, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  describe('local verification', () => {
+    const createMiddleware = (verification: Partial<TokenVerificationConfig> = {}) => new RBACMiddleware({
+      rbacClient: new RBACClient({ baseUrl: 'http://rbac.test' }),
+      verification: { mode: 'local', algorithms: ['RS256'], ...verification }
+    });
+
+    const authenticate = async (middleware: RBACMiddleware, token: string) => {
+      const req = { headers: { authorization: `Bearer ${token}` } } as Request;
+      const res = createResponse();
+      const next = jest.fn() as NextFunction;
+      await middleware.verifyToken(req, res, next);
+      return { req, res, next };
+    };
+
+    it('should trust the claims of tokens signed by a published key', async () => {
+      const middleware = createMiddleware();
+
+      const first = await authenticate(middleware, signToken(0));
+      const second = await authenticate(middleware, signToken(1800));
+
+      expect(first.next).toHaveBeenCalled();
+      expect(first.req.user).toMatchObject({ userId: 'user-1', roles: ['viewer'] });
+      expect(second.next).toHaveBeenCalled();
+      expect(fetchedUrls()).toEqual(['http://rbac.test/.well-known/jwks.json']);
+    });
+
+    it('should reject tokens signed by an unknown key or already expired', async () => {
+      const middleware = createMiddleware();
+      const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const expired = jwt.sign({ userId: 'user-1' }, signingKey.privateKey, { algorithm: 'RS256', keyid: 'key-1', expiresIn: -10 });
+      const forged = jwt.sign({ userId: 'user-1' }, otherKey.privateKey, { algorithm: 'RS256', keyid: 'key-1' });
+
+      for (const token of [signToken(0, 'key-2'), expired, forged]) {
+        const { res, next } = await authenticate(middleware, token);
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(401);
+      }
+      expect(fetchedUrls()).not.toContain('http://rbac.test/api/auth/profile');
+    });
+
+    it('should refresh stale claims from the RBAC service', async () => {
+      const middleware = createMiddleware({ maxClaimsAge: 60 });
+
+      const fresh = await authenticate(middleware, signToken(30));
+      expect(fresh.req.user).toMatchObject({ username: 'localuser', roles: ['viewer'] });
+
+      const stale = await authenticate(middleware, signToken(120));
+      expect(stale.next).toHaveBeenCalled();
+      expect(stale.req.user).toMatchObject({ username: 'remoteuser', roles: ['editor'], tenantId: 'org-1' });
+      expect(fetchedUrls().filter(url => url === 'http://rbac.test/api/auth/profile')).toHaveLength(1);
+    });
+
+    it('should reject stale claims when falling back to the RBAC service is disabled', async () => {
+      const middleware = createMiddleware({ maxClaimsAge: 60, fallbackToRemote: false });
+
+      const { res, next } = await authenticate(middleware, signToken(120));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(fetchedUrls()).not.toContain('http://rbac.test/api/auth/profile');
+    });
+  });
+});
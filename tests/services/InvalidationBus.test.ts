@@ -0,0 +1,85 @@
+import knex, { Knex } from 'knex';
+import { DatabaseConnection } from '../../src/database/connection';
+import { InProcessInvalidationBus, PostgresInvalidationBus } from '../../src/services/InvalidationBus';
+import { RBACService } from '../../src/services/RBACService';
+import { PermissionInvalidation } from '../../src/types';
+import { testConfig } from '../setup';
+
+// Set TEST_POSTGRES_HOST (and optionally TEST_POSTGRES_PORT/DB/USER/PASSWORD) to run against a local Postgres
+const describeWithPostgres = process.env.TEST_POSTGRES_HOST ? describe : describe.skip;
+
+describe('Invalidation Bus', () => {
+  it('should invalidate caches of every instance sharing an in-process bus', async () => {
+    const dbConnection = DatabaseConnection.getInstance(testConfig);
+    const bus = new InProcessInvalidationBus();
+    const config = { ...testConfig, permissionCache: {}, invalidationBus: { bus } };
+    const writer = new RBACService(dbConnection.getKnex(), config);
+    const reader = new RBACService(dbConnection.getKnex(), config);
+
+    const role = await writer.createRole({ name: 'replicated-role', description: 'Test role', isActive: true });
+    const user = await writer.createUser({
+      username: 'replicateduser',
+      email: 'replicated@example.com',
+      password: 'password123',
+      isActive: true
+    });
+
+    expect(await reader.hasRole(user.id, 'replicated-role')).toBe(false);
+    expect(await reader.hasRole(user.id, 'replicated-role')).toBe(false);
+
+    await writer.assignRoleToUser(user.id, role.id, 'test-user-id');
+    expect(await reader.hasRole(user.id, 'replicated-role')).toBe(true);
+
+    await writer.updateRole(role.id, { isActive: false });
+    expect(await reader.hasRole(user.id, 'replicated-role')).toBe(false);
+    // The writer invalidates once per change and ignores its own messages
+    expect(writer.getPermissionCacheStats()?.invalidations).toBe(2);
+
+    await bus.close();
+  });
+
+  describeWithPostgres('Postgres LISTEN/NOTIFY', () => {
+    let connection: Knex;
+
+    beforeAll(() => {
+      connection = knex({
+        client: 'pg',
+        connection: {
+          host: process.env.TEST_POSTGRES_HOST,
+          port: Number(process.env.TEST_POSTGRES_PORT || 5432),
+          database: process.env.TEST_POSTGRES_DB || 'postgres',
+          user: process.env.TEST_POSTGRES_USER || 'postgres',
+          password: process.env.TEST_POSTGRES_PASSWORD
+        }
+      });
+    });
+
+    afterAll(async () => {
+      await connection.destroy();
+    });
+
+    it('should deliver invalidations published by another bus', async () => {
+      const publisher = new PostgresInvalidationBus(connection, 'rbac_invalidation_test');
+      const subscriber = new PostgresInvalidationBus(connection, 'rbac_invalidation_test');
+      const received: PermissionInvalidation[] = [];
+      await subscriber.subscribe(invalidation => received.push(invalidation));
+      const waitForMessages = async (count: number) => {
+        for (let attempt = 0; attempt < 50 && received.length < count; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+      };
+
+      await publisher.publish({ origin: 'replica-a', userIds: ['user-1', 'user-2'] });
+      await waitForMessages(1);
+      expect(received[0]).toEqual({ origin: 'replica-a', userIds: ['user-1', 'user-2'] });
+
+      // Payloads over the NOTIFY limit fall back to invalidating everyone
+      await publisher.publish({ origin: 'replica-a', userIds: Array.from({ length: 500 }, (_, index) => `user-${index}-${'x'.repeat(20)}`) });
+      await waitForMessages(2);
+      expect(received[1]).toEqual({ origin: 'replica-a' });
+
+      await subscriber.close();
+      await publisher.close();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { DatabaseConnection } from '../../src/database/connection';
+import { SigningKeyRepository } from '../../src/repositories/SigningKeyRepository';
+import { KeyManager } from '../../src/services/KeyManager';
+import { testConfig } from '../setup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const rotatingConfig = {
+  algorithm: 'ES256' as const,
+  rotation: { interval: '30d', gracePeriod: '1d' },
+  expiresIn: '1h'
+};
+
+describe('Key Manager', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should rotate on schedule with intervals longer than Node timers support', async () => {
+    jest.useFakeTimers();
+    const keyManager = new KeyManager(rotatingConfig);
+    const firstKid = keyManager.getActiveKid();
+
+    await keyManager.startRotation();
+    await jest.advanceTimersByTimeAsync(29 * DAY_MS);
+    expect(keyManager.getActiveKid()).toBe(firstKid);
+    expect(keyManager.getJWKS().keys).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1.5 * DAY_MS);
+    expect(keyManager.getActiveKid()).not.toBe(firstKid);
+    expect(keyManager.getJWKS().keys).toHaveLength(2);
+
+    // The replaced key is dropped once the grace period is over
+    await jest.advanceTimersByTimeAsync(DAY_MS);
+    expect(keyManager.getJWKS().keys).toHaveLength(1);
+
+    keyManager.stopRotation();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should share rotated keys between instances and across restarts', async () => {
+    const knex = DatabaseConnection.getInstance(testConfig).getKnex();
+    await knex('signing_keys').del();
+    const keyRepository = new SigningKeyRepository(knex);
+
+    const first = new KeyManager(rotatingConfig, keyRepository);
+    const second = new KeyManager(rotatingConfig, keyRepository);
+    const earlyToken = second.sign({ userId: 'test-user-id' });
+    await first.startRotation();
+    await second.startRotation();
+
+    // The second instance adopts the stored key, and still accepts what it signed before
+    expect(second.getActiveKid()).toBe(first.getActiveKid());
+    expect(second.verify(earlyToken).userId).toBe('test-user-id');
+    expect(second.verify(first.sign({ userId: 'test-user-id' })).userId).toBe('test-user-id');
+
+    const rotatedKid = await first.rotate();
+    const restarted = new KeyManager(rotatingConfig, keyRepository);
+    await restarted.startRotation();
+    expect(restarted.getActiveKid()).toBe(rotatedKid);
+    expect(restarted.verify(first.sign({ userId: 'test-user-id' })).userId).toBe('test-user-id');
+
+    first.stopRotation();
+    second.stopRotation();
+    restarted.stopRotation();
+  });
+});
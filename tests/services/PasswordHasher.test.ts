@@ -0,0 +1,41 @@
+import { Argon2Hasher, BcryptHasher, PasswordHashing, ScryptHasher } from '../../src/services/PasswordHasher';
+
+// Low costs keep the tests fast
+const cheap = { bcrypt: { rounds: 4 }, scrypt: { cost: 1024 }, argon2: { memoryCost: 1024, timeCost: 1 } };
+
+describe('Password Hashing', () => {
+  it.each([
+    ['bcrypt', new BcryptHasher(4)],
+    ['scrypt', new ScryptHasher(cheap.scrypt)],
+    ['argon2', new Argon2Hasher(cheap.argon2)]
+  ])('should hash and verify passwords with %s', async (_, hasher) => {
+    const hash = await hasher.hash('password123');
+
+    expect(hasher.recognizes(hash)).toBe(true);
+    expect(await hasher.verify('password123', hash)).toBe(true);
+    expect(await hasher.verify('password124', hash)).toBe(false);
+    expect(hasher.needsRehash(hash)).toBe(false);
+    expect(await hasher.hash('password123')).not.toBe(hash);
+  });
+
+  it('should detect hashes made with other costs', async () => {
+    expect(new BcryptHasher(5).needsRehash(await new BcryptHasher(4).hash('password123'))).toBe(true);
+    expect(new ScryptHasher({ cost: 2048 }).needsRehash(await new ScryptHasher(cheap.scrypt).hash('password123'))).toBe(true);
+    expect(new Argon2Hasher({ ...cheap.argon2, timeCost: 2 }).needsRehash(await new Argon2Hasher(cheap.argon2).hash('password123'))).toBe(true);
+    expect(() => new ScryptHasher({ cost: 1000 })).toThrow();
+  });
+
+  it('should verify hashes of every algorithm and flag those of other algorithms for rehash', async () => {
+    const bcryptHashing = new PasswordHashing({ ...cheap, algorithm: 'bcrypt' });
+    const argon2Hashing = new PasswordHashing({ ...cheap, algorithm: 'argon2' });
+    const legacyHash = await bcryptHashing.hash('password123');
+
+    expect(await argon2Hashing.verify('password123', legacyHash)).toBe(true);
+    expect(argon2Hashing.needsRehash(legacyHash)).toBe(true);
+    expect(argon2Hashing.needsRehash(await argon2Hashing.hash('password123'))).toBe(false);
+
+    expect(await argon2Hashing.verify('password123', 'not-a-hash')).toBe(false);
+    expect(await argon2Hashing.verify('password123', undefined)).toBe(false);
+    expect(() => new PasswordHashing({ algorithm: 'md5' as 'bcrypt' })).toThrow();
+  });
+});
@@ -1,5 +1,15 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import os from 'os';
+import path from 'path';
 import { DatabaseConnection } from '../../src/database/connection';
+import { RevokedTokenRepository } from '../../src/repositories/RevokedTokenRepository';
+import { LoginThrottledError } from '../../src/services/LoginThrottle';
+import { PasswordPolicyError } from '../../src/services/PasswordPolicy';
 import { RBACService } from '../../src/services/RBACService';
+import { AuthResult, MailMessage } from '../../src/types';
+import { generateTotp, getTotpStep } from '../../src/utils/totp';
 import { testConfig } from '../setup';
 
 describe('RBACService', () => {
@@ -16,6 +26,15 @@ describe('RBACService', () => {
     await dbConnection.close();
   });
 
+  // Logs in a user without MFA; a second factor challenge fails the test
+  const login = async (username: string, password: string, tenantId?: string): Promise<AuthResult | null> => {
+    const result = await rbacService.authenticateUser(username, password, tenantId);
+    if (result && 'mfaRequired' in result) {
+      throw new Error(`Unexpected MFA challenge for ${username}`);
+    }
+    return result;
+  };
+
   describe('User Management', () => {
     it('should create a user', async () => {
       const userData = {
@@ -35,7 +54,7 @@ describe('RBACService', () => {
     });
 
     it('should authenticate a user', async () => {
-      const authResult = await rbacService.authenticateUser('testuser', 'password');
+      const authResult = await login('testuser', 'password');
       
       expect(authResult).toBeDefined();
       expect(authResult?.user.username).toBe('testuser');
@@ -45,7 +64,7 @@ describe('RBACService', () => {
     });
 
     it('should reject invalid credentials', async () => {
-      const authResult = await rbacService.authenticateUser('testuser', 'wrongpassword');
+      const authResult = await login('testuser', 'wrongpassword');
       
       expect(authResult).toBeNull();
     });
@@ -67,6 +86,25 @@ describe('RBACService', () => {
       expect(role.isActive).toBe(true);
     });
 
+    it('should reject duplicate role names within the same scope', async () => {
+      const role = await rbacService.createRole({ name: 'unique-role', description: 'Test role', isActive: true });
+      const other = await rbacService.createRole({ name: 'other-role', description: 'Test role', isActive: true });
+      const organization = await rbacService.createOrganization({ name: 'Hooli', slug: 'hooli', isActive: true });
+
+      await expect(rbacService.createRole({ name: 'unique-role', description: 'Test role', isActive: true })).rejects.toThrow();
+      await expect(rbacService.updateRole(other.id, { name: 'unique-role' })).rejects.toThrow();
+      expect(await rbacService.updateRole(role.id, { name: 'unique-role', description: 'Renamed to itself' })).not.toBeNull();
+
+      const scoped = await rbacService.createRole({
+        name: 'unique-role',
+        description: 'Test role',
+        isActive: true,
+        organizationId: organization.id
+      });
+      expect(await rbacService.getRoleByName('unique-role', organization.id)).toMatchObject({ id: scoped.id });
+      expect(await rbacService.getRoleByName('unique-role')).toMatchObject({ id: role.id });
+    });
+
     it('should assign role to user', async () => {
       const user = await rbacService.getUserById('test-user-id');
       const role = await rbacService.getRoleById('test-role-id');
@@ -120,6 +158,241 @@ describe('RBACService', () => {
       }
     });
 
+    it('should honor wildcard permissions', async () => {
+      const role = await rbacService.createRole({ name: 'wildcard-role', description: 'Test role', isActive: true });
+      const permission = await rbacService.createPermission({
+        name: 'reports:*',
+        resource: 'reports',
+        action: '*',
+        description: 'Every action on reports'
+      });
+      const user = await rbacService.createUser({
+        username: 'wildcarduser',
+        email: 'wildcard@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      await rbacService.assignPermissionToRole(role.id, permission.id, 'test-user-id');
+      await rbacService.assignRoleToUser(user.id, role.id, 'test-user-id');
+
+      expect(await rbacService.hasPermission(user.id, { resource: 'reports', action: 'export' })).toBe(true);
+      expect(await rbacService.hasPermission(user.id, { resource: 'users', action: 'export' })).toBe(false);
+    });
+
+    it('should let an explicit deny override allows from other roles', async () => {
+      const allowRole = await rbacService.createRole({ name: 'deny-allow-role', description: 'Test role', isActive: true });
+      const denyRole = await rbacService.createRole({ name: 'deny-deny-role', description: 'Test role', isActive: true });
+      const readPermission = await rbacService.createPermission({
+        name: 'invoices:read',
+        resource: 'invoices',
+        action: 'read',
+        description: 'Read invoices'
+      });
+      const wildcard = await rbacService.createPermission({
+        name: 'invoices:*',
+        resource: 'invoices',
+        action: '*',
+        description: 'Every action on invoices'
+      });
+      const user = await rbacService.createUser({
+        username: 'denyuser',
+        email: 'deny@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      await rbacService.assignPermissionToRole(allowRole.id, wildcard.id, 'test-user-id');
+      await rbacService.assignPermissionToRole(allowRole.id, readPermission.id, 'test-user-id');
+      await rbacService.assignPermissionToRole(denyRole.id, readPermission.id, 'test-user-id', 'deny');
+      await rbacService.assignRoleToUser(user.id, allowRole.id, 'test-user-id');
+      await rbacService.assignRoleToUser(user.id, denyRole.id, 'test-user-id');
+
+      expect(await rbacService.hasPermission(user.id, { resource: 'invoices', action: 'read' })).toBe(false);
+      expect(await rbacService.hasPermission(user.id, { resource: 'invoices', action: 'export' })).toBe(true);
+
+      const permissions = (await rbacService.getUserPermissions(user.id)).map(permission => permission.name);
+      expect(permissions).toEqual(['invoices:*']);
+
+      const denied = (await rbacService.getUserDeniedPermissions(user.id)).map(permission => permission.name);
+      expect(denied).toEqual(['invoices:read']);
+    });
+
+    it('should honor instance-level grants to users and roles', async () => {
+      const editPermission = await rbacService.createPermission({
+        name: 'documents:edit',
+        resource: 'documents',
+        action: 'edit',
+        description: 'Edit documents'
+      });
+      const reviewers = await rbacService.createRole({ name: 'doc-reviewers', description: 'Test role', isActive: true });
+      const owner = await rbacService.createUser({
+        username: 'docowner',
+        email: 'docowner@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      const reviewer = await rbacService.createUser({
+        username: 'docreviewer',
+        email: 'docreviewer@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      await rbacService.assignRoleToUser(reviewer.id, reviewers.id, 'test-user-id');
+
+      const userGrant = await rbacService.grantResourcePermission({
+        permissionId: editPermission.id,
+        resourceId: 'doc-42',
+        subjectType: 'user',
+        subjectId: owner.id,
+        grantedBy: 'test-user-id'
+      });
+      await rbacService.grantResourcePermission({
+        permissionId: editPermission.id,
+        resourceId: 'doc-43',
+        subjectType: 'role',
+        subjectId: reviewers.id,
+        grantedBy: 'test-user-id'
+      });
+
+      expect(await rbacService.hasPermission(owner.id, { resource: 'documents', action: 'edit', resourceId: 'doc-42' })).toBe(true);
+      expect(await rbacService.hasPermission(owner.id, { resource: 'documents', action: 'edit', resourceId: 'doc-43' })).toBe(false);
+      expect(await rbacService.hasPermission(owner.id, { resource: 'documents', action: 'edit' })).toBe(false);
+      expect(await rbacService.hasPermission(reviewer.id, { resource: 'documents', action: 'edit', resourceId: 'doc-43' })).toBe(true);
+
+      await rbacService.revokeResourcePermission(userGrant!.id);
+      expect(await rbacService.hasPermission(owner.id, { resource: 'documents', action: 'edit', resourceId: 'doc-42' })).toBe(false);
+    });
+
+    it('should apply conditional grants only when their condition holds', async () => {
+      const role = await rbacService.createRole({ name: 'condition-role', description: 'Test role', isActive: true });
+      const permission = await rbacService.createPermission({
+        name: 'tickets:close',
+        resource: 'tickets',
+        action: 'close',
+        description: 'Close tickets'
+      });
+      const user = await rbacService.createUser({
+        username: 'conditionuser',
+        email: 'condition@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      await expect(
+        rbacService.assignPermissionToRole(role.id, permission.id, 'test-user-id', 'allow', 'resource.ownerId ==')
+      ).rejects.toThrow();
+      await rbacService.assignPermissionToRole(role.id, permission.id, 'test-user-id', 'allow', 'resource.ownerId == subject.id');
+      await rbacService.assignRoleToUser(user.id, role.id, 'test-user-id');
+
+      const check = { resource: 'tickets', action: 'close' };
+      expect(await rbacService.hasPermission(user.id, check, { resource: { ownerId: user.id } })).toBe(true);
+      expect(await rbacService.hasPermission(user.id, check, { resource: { ownerId: 'someone-else' } })).toBe(false);
+      expect(await rbacService.hasPermission(user.id, check)).toBe(false);
+      expect(await rbacService.hasPermission(user.id, check, { subject: { id: 'someone-else' }, resource: { ownerId: 'someone-else' } })).toBe(false);
+
+      const authResult = await login('conditionuser', 'password123');
+      const payload = rbacService.verifyToken(authResult!.token);
+      expect(payload!.permissions).not.toContain('tickets:close');
+    });
+
+    it('should explain which roles and grants decided a permission check', async () => {
+      const editor = await rbacService.createRole({ name: 'explain-editor', description: 'Test role', isActive: true });
+      const freezer = await rbacService.createRole({ name: 'explain-freezer', description: 'Test role', isActive: true });
+      const retired = await rbacService.createRole({ name: 'explain-retired', description: 'Test role', isActive: false });
+      const permission = await rbacService.createPermission({
+        name: 'reports:export',
+        resource: 'reports',
+        action: 'export',
+        description: 'Export reports'
+      });
+      const user = await rbacService.createUser({
+        username: 'explainuser',
+        email: 'explain@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      await rbacService.assignPermissionToRole(editor.id, permission.id, 'test-user-id');
+      await rbacService.assignPermissionToRole(freezer.id, permission.id, 'test-user-id', 'deny', 'resource.locked == true');
+      await rbacService.assignRoleToUser(user.id, editor.id, 'test-user-id');
+      await rbacService.assignRoleToUser(user.id, freezer.id, 'test-user-id');
+      await rbacService.assignRoleToUser(user.id, retired.id, 'test-user-id');
+
+      const check = { resource: 'reports', action: 'export' };
+      const allowed = await rbacService.explain(user.id, check, { resource: { locked: false } });
+      expect(allowed.allowed).toBe(true);
+      expect(allowed.decidedBy).toMatchObject({ rule: 'allow', grant: { roleName: 'explain-editor', effect: 'allow' } });
+      expect(allowed.roles).toContainEqual(expect.objectContaining({ roleName: 'explain-retired', status: 'role_inactive' }));
+      expect(allowed.grants).toContainEqual(expect.objectContaining({ roleName: 'explain-freezer', outcome: 'condition_not_met' }));
+
+      const locked = { resource: { locked: true } };
+      const denied = await rbacService.explain(user.id, check, locked);
+      expect(denied.allowed).toBe(await rbacService.hasPermission(user.id, check, locked));
+      expect(denied.decidedBy).toMatchObject({ rule: 'deny', grant: { roleName: 'explain-freezer', outcome: 'applied' } });
+
+      // Without the attribute the deny cannot be ruled out, so it still applies
+      const unknown = await rbacService.explain(user.id, check);
+      expect(unknown.allowed).toBe(false);
+      expect(unknown.decidedBy).toMatchObject({ rule: 'deny', grant: { roleName: 'explain-freezer', outcome: 'condition_error' } });
+
+      const unrelated = await rbacService.explain(user.id, { resource: 'reports', action: 'delete' });
+      expect(unrelated).toMatchObject({ allowed: false, grants: [], decidedBy: { rule: 'no_matching_grant' } });
+    });
+
+    it('should resolve a batch of checks in one call', async () => {
+      const decisions = await rbacService.hasPermissions('test-user-id', [
+        { resource: 'test', action: 'permission' },
+        { resource: 'test', action: 'missing' },
+        { resource: 'documents', action: 'edit', resourceId: 'doc-without-grants' }
+      ]);
+
+      expect(decisions).toEqual([true, false, false]);
+      expect(await rbacService.hasPermissions('test-user-id', [])).toEqual([]);
+    });
+
+    it('should resolve permissions with a constant number of queries regardless of role count', async () => {
+      const knex = dbConnection.getKnex();
+      const countQueries = async (operation: () => Promise<unknown>): Promise<number> => {
+        let queries = 0;
+        const listener = () => queries++;
+        knex.on('query', listener);
+        try {
+          await operation();
+        } finally {
+          knex.removeListener('query', listener);
+        }
+        return queries;
+      };
+      const createUserWithRoles = async (username: string, roleCount: number) => {
+        const user = await rbacService.createUser({ username, email: `${username}@example.com`, password: 'password123', isActive: true });
+        for (let index = 0; index < roleCount; index++) {
+          const role = await rbacService.createRole({ name: `${username}-role-${index}`, description: 'Test role', isActive: true });
+          const permission = await rbacService.createPermission({
+            name: `${username}-${index}:view`,
+            resource: `${username}-${index}`,
+            action: 'view',
+            description: 'Test permission'
+          });
+          await rbacService.assignPermissionToRole(role.id, permission.id, 'test-user-id');
+          await rbacService.assignRoleToUser(user.id, role.id, 'test-user-id');
+        }
+        return user;
+      };
+
+      const few = await createUserWithRoles('fewroles', 1);
+      const many = await createUserWithRoles('manyroles', 12);
+      expect(await rbacService.getUserPermissions(many.id)).toHaveLength(12);
+      expect(await rbacService.hasPermission(many.id, { resource: 'manyroles-11', action: 'view' })).toBe(true);
+
+      const check = { resource: 'reports', action: 'view' };
+      expect(await countQueries(() => rbacService.hasPermission(many.id, check)))
+        .toBe(await countQueries(() => rbacService.hasPermission(few.id, check)));
+      expect(await countQueries(() => rbacService.getUserPermissions(many.id)))
+        .toBe(await countQueries(() => rbacService.getUserPermissions(few.id)));
+      expect(await countQueries(() => rbacService.hasPermission(many.id, check))).toBe(1);
+    });
+
     it('should check user roles', async () => {
       const user = await rbacService.getUserById('test-user-id');
       
@@ -130,6 +403,306 @@ describe('RBACService', () => {
     });
   });
 
+  describe('Role Hierarchy', () => {
+    it('should resolve inherited roles and permissions', async () => {
+      const child = await rbacService.createRole({ name: 'hierarchy-child', description: 'Test role', isActive: true });
+      const user = await rbacService.createUser({
+        username: 'hierarchyuser',
+        email: 'hierarchy@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      expect(await rbacService.addParentRole(child.id, 'test-role-id', 'test-user-id')).toBe(true);
+      await rbacService.assignRoleToUser(user.id, child.id, 'test-user-id');
+
+      expect(await rbacService.hasRole(user.id, 'testrole')).toBe(true);
+      expect(await rbacService.hasPermission(user.id, { resource: 'test', action: 'permission' })).toBe(true);
+
+      const inherited = await rbacService.getInheritedRolePermissions(child.id);
+      expect(inherited.map(permission => permission.name)).toContain('test:permission');
+    });
+
+    it('should reject parent relations that create a cycle', async () => {
+      const grandparent = await rbacService.createRole({ name: 'cycle-grandparent', description: 'Test role', isActive: true });
+      const parent = await rbacService.createRole({ name: 'cycle-parent', description: 'Test role', isActive: true });
+      const child = await rbacService.createRole({ name: 'cycle-child', description: 'Test role', isActive: true });
+
+      await rbacService.addParentRole(parent.id, grandparent.id, 'test-user-id');
+      await rbacService.addParentRole(child.id, parent.id, 'test-user-id');
+
+      expect(await rbacService.wouldCreateRoleCycle(grandparent.id, child.id)).toBe(true);
+      expect(await rbacService.addParentRole(grandparent.id, child.id, 'test-user-id')).toBe(false);
+      expect(await rbacService.addParentRole(child.id, child.id, 'test-user-id')).toBe(false);
+    });
+  });
+
+  describe('Time-bound Role Assignments', () => {
+    it('should only honor assignments within their validity window', async () => {
+      const current = await rbacService.createRole({ name: 'oncall-current', description: 'Test role', isActive: true });
+      const upcoming = await rbacService.createRole({ name: 'oncall-upcoming', description: 'Test role', isActive: true });
+      const user = await rbacService.createUser({
+        username: 'oncalluser',
+        email: 'oncall@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      const hour = 60 * 60 * 1000;
+
+      await rbacService.assignRoleToUser(user.id, current.id, 'test-user-id', { validUntil: new Date(Date.now() + hour) });
+      await rbacService.assignRoleToUser(user.id, upcoming.id, 'test-user-id', { validFrom: new Date(Date.now() + hour) });
+
+      expect(await rbacService.hasRole(user.id, 'oncall-current')).toBe(true);
+      expect(await rbacService.hasRole(user.id, 'oncall-upcoming')).toBe(false);
+    });
+
+    it('should sweep expired assignments and notify listeners', async () => {
+      const role = await rbacService.createRole({ name: 'contractor', description: 'Test role', isActive: true });
+      const user = await rbacService.createUser({
+        username: 'contractoruser',
+        email: 'contractor@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      const listener = jest.fn();
+      rbacService.onRoleAssignmentsExpired(listener);
+
+      await rbacService.assignRoleToUser(user.id, role.id, 'test-user-id', { validUntil: new Date(Date.now() - 1000) });
+      expect(await rbacService.hasRole(user.id, 'contractor')).toBe(false);
+
+      const expired = await rbacService.sweepExpiredRoleAssignments();
+      expect(expired.map(assignment => assignment.userId)).toEqual([user.id]);
+      expect(listener).toHaveBeenCalledWith(expired);
+      expect(await rbacService.sweepExpiredRoleAssignments()).toEqual([]);
+    });
+  });
+
+  describe('Access Requests', () => {
+    it('should grant the requested role for a limited time once approved', async () => {
+      const oncall = await rbacService.createRole({ name: 'jit-admin', description: 'Test role', isActive: true });
+      const approvers = await rbacService.createRole({ name: 'jit-approvers', description: 'Test role', isActive: true });
+      const approvePermission = await rbacService.createPermission({
+        name: 'access-requests:approve',
+        resource: 'access-requests',
+        action: 'approve',
+        description: 'Approve access requests'
+      });
+      const requester = await rbacService.createUser({
+        username: 'jitrequester',
+        email: 'jitrequester@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      const approver = await rbacService.createUser({
+        username: 'jitapprover',
+        email: 'jitapprover@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      await rbacService.assignPermissionToRole(approvers.id, approvePermission.id, 'test-user-id');
+      await rbacService.assignRoleToUser(approver.id, approvers.id, 'test-user-id');
+
+      expect(await rbacService.requestAccess(requester.id, oncall.id, { reason: 'Incident', duration: '30d' })).toBeNull();
+
+      const request = await rbacService.requestAccess(requester.id, oncall.id, { reason: 'Incident #42', duration: '2h' });
+      expect(request!.status).toBe('pending');
+      expect(await rbacService.requestAccess(requester.id, oncall.id, { reason: 'Again', duration: '2h' })).toBeNull();
+      expect(await rbacService.canApproveAccessRequests(approver.id)).toBe(true);
+      expect(await rbacService.canApproveAccessRequests(requester.id)).toBe(false);
+
+      expect(await rbacService.approveAccessRequest(request!.id, requester.id)).toBeNull();
+      const approvedAt = Date.now();
+      const approved = await rbacService.approveAccessRequest(request!.id, approver.id, 'Looks good');
+      expect(approved).toMatchObject({ status: 'approved', decidedBy: approver.id, decisionReason: 'Looks good' });
+      expect(approved!.expiresAt!.getTime() - approvedAt).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000);
+      expect(approved!.expiresAt!.getTime() - approvedAt).toBeLessThan(2 * 60 * 60 * 1000 + 60 * 1000);
+      expect(await rbacService.rejectAccessRequest(request!.id, approver.id)).toBeNull();
+      expect(await rbacService.hasRole(requester.id, 'jit-admin')).toBe(true);
+
+      const history = await rbacService.listAccessRequests({ userId: requester.id });
+      expect(history.map(entry => entry.reason)).toEqual(['Incident #42']);
+      expect(history[0].expiresAt).toEqual(approved!.expiresAt);
+    });
+
+    it('should approve a request once and leave it pending when the role cannot be assigned', async () => {
+      const oncall = await rbacService.createRole({ name: 'jit-oncall', description: 'Test role', isActive: true });
+      const requester = await rbacService.createUser({
+        username: 'jitconcurrent',
+        email: 'jitconcurrent@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      const request = await rbacService.requestAccess(requester.id, oncall.id, { reason: 'Incident #43', duration: '2h' });
+      const decisions = await Promise.all([
+        rbacService.approveAccessRequest(request!.id, 'test-user-id'),
+        rbacService.approveAccessRequest(request!.id, 'test-user-id')
+      ]);
+      expect(decisions.filter(Boolean)).toHaveLength(1);
+
+      // A permanent assignment cannot be replaced by a temporary one, so the second request is not claimed
+      await rbacService.assignRoleToUser(requester.id, 'test-role-id', 'test-user-id');
+      const blocked = await rbacService.requestAccess(requester.id, 'test-role-id', { reason: 'Incident #44', duration: '2h' });
+      expect(await rbacService.approveAccessRequest(blocked!.id, 'test-user-id')).toBeNull();
+      expect(await rbacService.listAccessRequests({ userId: requester.id, status: 'pending' })).toEqual([
+        expect.objectContaining({ id: blocked!.id })
+      ]);
+    });
+  });
+
+  describe('Audit Log', () => {
+    it('should record events and filter them by actor, target, action and time', async () => {
+      const startedAt = new Date(Date.now() - 1000);
+      await rbacService.recordAuditEvent({
+        actorId: 'test-user-id',
+        action: 'role.update',
+        targetType: 'role',
+        targetId: 'audit-role-id',
+        before: { name: 'old-name' },
+        after: { name: 'new-name' },
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest'
+      });
+      await rbacService.recordAuditEvent({ action: 'auth.login.failure', targetType: 'user', targetId: 'audit-intruder' });
+
+      const [event] = await rbacService.listAuditEvents({ targetType: 'role', targetId: 'audit-role-id' });
+      expect(event).toMatchObject({
+        actorId: 'test-user-id',
+        action: 'role.update',
+        before: { name: 'old-name' },
+        after: { name: 'new-name' },
+        ipAddress: '127.0.0.1'
+      });
+
+      expect(await rbacService.getAuditEventsCount({ action: 'auth.login.failure', targetId: 'audit-intruder' })).toBe(1);
+      expect(await rbacService.getAuditEventsCount({ actorId: 'test-user-id', from: startedAt })).toBe(1);
+      expect(await rbacService.getAuditEventsCount({ targetId: 'audit-role-id', to: startedAt })).toBe(0);
+    });
+  });
+
+  describe('Permission Cache', () => {
+    it('should serve repeated checks from the cache and invalidate on changes', async () => {
+      const cachingService = new RBACService(dbConnection.getKnex(), { ...testConfig, permissionCache: {} });
+      const parent = await cachingService.createRole({ name: 'cache-parent', description: 'Test role', isActive: true });
+      const child = await cachingService.createRole({ name: 'cache-child', description: 'Test role', isActive: true });
+      const permission = await cachingService.createPermission({
+        name: 'invoices:approve',
+        resource: 'invoices',
+        action: 'approve',
+        description: 'Approve invoices'
+      });
+      const user = await cachingService.createUser({
+        username: 'cacheuser',
+        email: 'cache@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      const check = { resource: 'invoices', action: 'approve' };
+
+      await cachingService.addParentRole(child.id, parent.id, 'test-user-id');
+      await cachingService.assignRoleToUser(user.id, child.id, 'test-user-id');
+      expect(await cachingService.hasPermission(user.id, check)).toBe(false);
+      expect(await cachingService.hasPermission(user.id, check)).toBe(false);
+      expect(cachingService.getPermissionCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+
+      await cachingService.assignPermissionToRole(parent.id, permission.id, 'test-user-id');
+      expect(await cachingService.hasPermission(user.id, check)).toBe(true);
+
+      await cachingService.updateRole(parent.id, { isActive: false });
+      expect(await cachingService.hasPermission(user.id, check)).toBe(false);
+      await cachingService.updateRole(parent.id, { isActive: true });
+      expect(await cachingService.hasRole(user.id, 'cache-parent')).toBe(true);
+
+      await cachingService.removePermissionFromRole(parent.id, permission.id);
+      expect(await cachingService.hasPermission(user.id, check)).toBe(false);
+
+      await cachingService.assignPermissionToRole(child.id, permission.id, 'test-user-id');
+      expect(await cachingService.hasPermission(user.id, check)).toBe(true);
+      await cachingService.deletePermission(permission.id);
+      expect(await cachingService.hasPermission(user.id, check)).toBe(false);
+
+      await cachingService.removeRoleFromUser(user.id, child.id);
+      expect(await cachingService.hasRole(user.id, 'cache-child')).toBe(false);
+      expect(rbacService.getPermissionCacheStats()).toBeNull();
+    });
+  });
+
+  describe('Authorization Decision Log', () => {
+    it('should record every deny, sample allows and list recent denials', async () => {
+      const loggingService = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        decisionLog: { sink: 'database', allowSampleRate: 0 }
+      });
+      const decision = { userId: 'decision-user', kind: 'permission' as const, latencyMs: 1.5 };
+
+      await loggingService.recordAuthorizationDecision({
+        ...decision, check: 'users:delete', allowed: false, route: 'DELETE /api/users/:id', timestamp: new Date(Date.now() - 1000)
+      });
+      await loggingService.recordAuthorizationDecision({ ...decision, check: 'users:read', allowed: true, timestamp: new Date() });
+      await loggingService.recordAuthorizationDecision({ ...decision, check: 'roles:manage', allowed: false, timestamp: new Date() });
+
+      const denials = await loggingService.getRecentDenials('decision-user');
+      expect(denials?.map(denial => denial.check)).toEqual(['roles:manage', 'users:delete']);
+      expect(denials?.[1]).toMatchObject({ allowed: false, route: 'DELETE /api/users/:id', latencyMs: 1.5 });
+
+      expect(await rbacService.getRecentDenials('decision-user')).toBeNull();
+    });
+  });
+
+  describe('Multi-tenancy', () => {
+    it('should scope role assignments to an organization', async () => {
+      const acme = await rbacService.createOrganization({ name: 'Acme', slug: 'acme', isActive: true });
+      const globex = await rbacService.createOrganization({ name: 'Globex', slug: 'globex', isActive: true });
+      const user = await rbacService.createUser({
+        username: 'tenantuser',
+        email: 'tenant@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      await rbacService.addOrganizationMember(acme.id, user.id);
+      await rbacService.addOrganizationMember(globex.id, user.id);
+      expect(await rbacService.assignRoleToUser(user.id, 'test-role-id', 'test-user-id', { organizationId: acme.id })).toBe(true);
+
+      const check = { resource: 'test', action: 'permission' };
+      expect(await rbacService.hasPermission(user.id, check, { tenantId: acme.id })).toBe(true);
+      expect(await rbacService.hasPermission(user.id, check, { tenantId: globex.id })).toBe(false);
+      expect(await rbacService.hasPermission(user.id, check)).toBe(false);
+
+      const authResult = await login('tenantuser', 'password123', acme.id);
+      expect(rbacService.verifyToken(authResult!.token)?.tenantId).toBe(acme.id);
+      expect(authResult?.permissions.map(permission => permission.name)).toContain('test:permission');
+    });
+
+    it('should keep organization roles and members inside their organization', async () => {
+      const initech = await rbacService.createOrganization({ name: 'Initech', slug: 'initech', isActive: true });
+      const other = await rbacService.createOrganization({ name: 'Umbrella', slug: 'umbrella', isActive: true });
+      const tenantRole = await rbacService.createRole({
+        name: 'tenant-editor',
+        description: 'Test role',
+        isActive: true,
+        organizationId: initech.id
+      });
+      const user = await rbacService.createUser({
+        username: 'outsider',
+        email: 'outsider@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      // Not a member yet, and the role cannot be used in another organization
+      expect(await rbacService.assignRoleToUser(user.id, tenantRole.id, 'test-user-id', { organizationId: initech.id })).toBe(false);
+      await rbacService.addOrganizationMember(other.id, user.id);
+      expect(await rbacService.assignRoleToUser(user.id, tenantRole.id, 'test-user-id', { organizationId: other.id })).toBe(false);
+
+      expect(await login('outsider', 'password123', initech.id)).toBeNull();
+
+      const visibleRoles = (await rbacService.listRoles(100, 0, other.id)).map(role => role.id);
+      expect(visibleRoles).not.toContain(tenantRole.id);
+      expect((await rbacService.listUsers(100, 0, other.id)).map(member => member.id)).toEqual([user.id]);
+    });
+  });
+
   describe('JWT Token Management', () => {
     it('should generate and verify JWT token', async () => {
       const payload = {
@@ -155,4 +728,435 @@ describe('RBACService', () => {
       expect(verified).toBeNull();
     });
   });
+
+  describe('Asymmetric Signing', () => {
+    const payload = {
+      userId: 'test-user-id',
+      username: 'testuser',
+      email: 'test@example.com',
+      roles: ['testrole'],
+      permissions: ['test:permission']
+    };
+
+    it('should sign with RS256 and publish the public key in the JWKS', async () => {
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        jwt: { algorithm: 'RS256', rotation: { interval: '30d', gracePeriod: '1h' }, expiresIn: '1h' }
+      });
+
+      const token = service.generateToken(payload);
+      const header = jwt.decode(token, { complete: true })?.header;
+      expect(header?.alg).toBe('RS256');
+
+      const jwks = service.getJWKS();
+      const jwk = jwks.keys.find(key => key.kid === header?.kid);
+      expect(jwk).toBeDefined();
+
+      const publicKey = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+      const verified = jwt.verify(token, publicKey, { algorithms: ['RS256'] }) as jwt.JwtPayload;
+      expect(verified.userId).toBe('test-user-id');
+    });
+
+    it('should keep accepting tokens signed with a rotated-out key during the grace period', async () => {
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        jwt: { algorithm: 'ES256', rotation: { interval: '30d', gracePeriod: '1h' }, expiresIn: '1h' }
+      });
+
+      const oldToken = service.generateToken(payload);
+      const newKid = await service.rotateSigningKey();
+      const newToken = service.generateToken(payload);
+
+      expect(jwt.decode(newToken, { complete: true })?.header.kid).toBe(newKid);
+      expect(service.verifyToken(oldToken)?.userId).toBe('test-user-id');
+      expect(service.verifyToken(newToken)?.userId).toBe('test-user-id');
+      expect(service.getJWKS().keys).toHaveLength(2);
+    });
+
+    it('should not expose shared secrets in the JWKS', async () => {
+      expect(rbacService.getJWKS().keys).toHaveLength(0);
+    });
+  });
+
+  describe('Token Revocation', () => {
+    it('should include a jti claim in generated tokens', async () => {
+      const token = rbacService.generateToken({
+        userId: 'test-user-id',
+        username: 'testuser',
+        email: 'test@example.com',
+        roles: [],
+        permissions: []
+      });
+
+      expect(rbacService.verifyToken(token)?.jti).toBeDefined();
+    });
+
+    it('should reject a token after logout', async () => {
+      const authResult = await login('testuser', 'password');
+      const payload = await rbacService.validateToken(authResult!.token);
+      expect(payload).not.toBeNull();
+
+      await rbacService.revokeToken(payload!);
+
+      expect(await rbacService.validateToken(authResult!.token)).toBeNull();
+    });
+
+    it('should revoke all tokens when a user is deactivated', async () => {
+      await rbacService.createUser({
+        username: 'deactivated',
+        email: 'deactivated@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      const authResult = await login('deactivated', 'password123');
+      expect(await rbacService.validateToken(authResult!.token)).not.toBeNull();
+
+      await rbacService.updateUser(authResult!.user.id, { isActive: false });
+
+      expect(await rbacService.validateToken(authResult!.token)).toBeNull();
+      expect(await rbacService.refreshAuthentication(authResult!.refreshToken)).toBeNull();
+    });
+
+    it('should accept a login in the same second as a logout from all devices', async () => {
+      const second = Math.ceil(Date.now() / 1000) * 1000;
+      const revocationStore = new RevokedTokenRepository(dbConnection.getKnex());
+      const now = jest.spyOn(Date, 'now');
+      try {
+        now.mockReturnValue(second + 100);
+        const before = await login('testuser', 'password');
+        await revocationStore.revokeAllForUser('test-user-id', new Date(second + 400), new Date(second + 3600000));
+        now.mockReturnValue(second + 700);
+        const after = await login('testuser', 'password');
+
+        expect(rbacService.verifyToken(after!.token)?.iat).toBe(rbacService.verifyToken(before!.token)?.iat);
+        expect(await rbacService.validateToken(before!.token)).toBeNull();
+        expect(await rbacService.validateToken(after!.token)).not.toBeNull();
+      } finally {
+        now.mockRestore();
+      }
+    });
+  });
+
+  describe('Refresh Tokens', () => {
+    it('should issue a refresh token on login and rotate it on refresh', async () => {
+      const authResult = await login('testuser', 'password');
+      expect(authResult?.refreshToken).toBeDefined();
+
+      const refreshed = await rbacService.refreshAuthentication(authResult!.refreshToken);
+      expect(refreshed).not.toBeNull();
+      expect(refreshed?.user.id).toBe('test-user-id');
+      expect(refreshed?.refreshToken).not.toBe(authResult!.refreshToken);
+      expect(rbacService.verifyToken(refreshed!.token)?.userId).toBe('test-user-id');
+    });
+
+    it('should revoke the whole family when a used refresh token is replayed', async () => {
+      const authResult = await login('testuser', 'password');
+      const rotated = await rbacService.refreshAuthentication(authResult!.refreshToken);
+
+      const replayed = await rbacService.refreshAuthentication(authResult!.refreshToken);
+      expect(replayed).toBeNull();
+
+      const afterReuse = await rbacService.refreshAuthentication(rotated!.refreshToken);
+      expect(afterReuse).toBeNull();
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      const authResult = await login('testuser', 'password');
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 8 * 24 * 60 * 60 * 1000);
+      try {
+        expect(await rbacService.refreshAuthentication(authResult!.refreshToken)).toBeNull();
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      const refreshed = await rbacService.refreshAuthentication('unknown-refresh-token');
+      expect(refreshed).toBeNull();
+    });
+  });
+
+  describe('Login Throttling', () => {
+    it('should lock a username after repeated failures, whether it exists or not', async () => {
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        loginThrottling: { maxAttempts: 4, baseDelay: '0ms' }
+      });
+      await service.createUser({ username: 'guessed', email: 'guessed@example.com', password: 'password123', isActive: true });
+
+      for (const username of ['guessed', 'ghost']) {
+        for (let attempt = 0; attempt < 4; attempt++) {
+          expect(await service.authenticateUser(username, 'wrong')).toBeNull();
+        }
+        await expect(service.authenticateUser(username, 'password123')).rejects.toBeInstanceOf(LoginThrottledError);
+      }
+      // Changing the case does not get around the lockout
+      await expect(service.authenticateUser('GUESSED', 'password123')).rejects.toBeInstanceOf(LoginThrottledError);
+
+      const lockouts = await service.listLoginLockouts();
+      expect(lockouts.map(entry => entry.key)).toEqual(expect.arrayContaining(['guessed', 'ghost']));
+
+      expect(await service.clearLoginLockout('username', 'Guessed')).toBe(true);
+      expect(await service.authenticateUser('guessed', 'password123')).not.toBeNull();
+    });
+
+    it('should count every one of concurrent failures', async () => {
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        loginThrottling: { maxAttempts: 20, baseDelay: '0ms' }
+      });
+      await service.createUser({ username: 'hammered', email: 'hammered@example.com', password: 'password123', isActive: true });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 8 }, () => service.authenticateUser('hammered', 'wrong'))
+      );
+      const counted = results.filter(result => result.status === 'fulfilled').length;
+
+      const entry = await dbConnection.getKnex()('login_throttles').where({ key_type: 'username', key: 'hammered' }).first();
+      expect(counted).toBeGreaterThan(0);
+      expect(Number(entry.failures)).toBe(counted);
+    });
+
+    it('should delay attempts progressively and lock an IP address across usernames', async () => {
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        loginThrottling: { ipMaxAttempts: 3, baseDelay: '10s' }
+      });
+
+      expect(await service.authenticateUser('sprayed-1', 'wrong', undefined, '203.0.113.7')).toBeNull();
+      expect(await service.authenticateUser('sprayed-2', 'wrong', undefined, '203.0.113.7')).toBeNull();
+      expect(await service.authenticateUser('sprayed-3', 'wrong', undefined, '203.0.113.7')).toBeNull();
+      await expect(service.authenticateUser('testuser', 'password', undefined, '203.0.113.7'))
+        .rejects.toMatchObject({ retryAfter: 15 * 60 });
+      expect(await service.authenticateUser('testuser', 'password', undefined, '198.51.100.1')).not.toBeNull();
+
+      // The third failure of a username delays its next attempt
+      for (let attempt = 0; attempt < 3; attempt++) {
+        expect(await service.authenticateUser('slowed', 'wrong')).toBeNull();
+      }
+      await expect(service.authenticateUser('slowed', 'wrong')).rejects.toMatchObject({ retryAfter: 10 });
+    });
+  });
+
+  describe('Password Policy', () => {
+    const violationCodes = async (promise: Promise<unknown>) => {
+      const error = await promise.catch(caught => caught);
+      expect(error).toBeInstanceOf(PasswordPolicyError);
+      return (error as PasswordPolicyError).violations.map(violation => violation.code);
+    };
+
+    it('should reject weak, breached and reused passwords', async () => {
+      const breachedFile = path.join(os.tmpdir(), `breached-${crypto.randomUUID()}.txt`);
+      const breachedHash = crypto.createHash('sha1').update('Summer2024!').digest('hex').toUpperCase();
+      fs.writeFileSync(breachedFile, `0000000000000000000000000000000000000000:3\n${breachedHash}:42\n`);
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        passwordPolicy: {
+          minLength: 8,
+          requireUppercase: true,
+          requireDigit: true,
+          requireSymbol: true,
+          disallowUserInfo: true,
+          historySize: 2,
+          breachedPasswordsFile: breachedFile
+        }
+      });
+
+      try {
+        const userData = { username: 'careful', email: 'careful@example.com', isActive: true };
+        expect(await violationCodes(service.createUser({ ...userData, password: 'short' })))
+          .toEqual(['too_short', 'missing_uppercase', 'missing_digit', 'missing_symbol']);
+        expect(await violationCodes(service.createUser({ ...userData, password: 'Careful#2024' })))
+          .toEqual(['contains_user_info']);
+        expect(await violationCodes(service.createUser({ ...userData, password: 'Summer2024!' })))
+          .toEqual(['breached']);
+
+        const user = await service.createUser({ ...userData, password: 'First#Pass1' });
+        await service.updateUser(user.id, { password: 'Second#Pass2' });
+        expect(await violationCodes(service.updateUser(user.id, { password: 'Second#Pass2' }))).toEqual(['reused']);
+        expect(await violationCodes(service.updateUser(user.id, { password: 'First#Pass1' }))).toEqual(['reused']);
+
+        // Only the latest two passwords are remembered
+        await service.updateUser(user.id, { password: 'Third#Pass3' });
+        expect(await service.updateUser(user.id, { password: 'First#Pass1' })).not.toBeNull();
+      } finally {
+        fs.unlinkSync(breachedFile);
+      }
+    });
+
+    it('should flag logins with expired passwords', async () => {
+      const service = new RBACService(dbConnection.getKnex(), { ...testConfig, passwordPolicy: { maxAge: '90d' } });
+      const user = await service.createUser({ username: 'stale', email: 'stale@example.com', password: 'password123', isActive: true });
+
+      const fresh = await service.authenticateUser('stale', 'password123');
+      expect(fresh && 'passwordExpired' in fresh).toBe(false);
+
+      const longAgo = new Date(Date.now() - 91 * 24 * 60 * 60 * 1000).toISOString();
+      await dbConnection.getKnex()('users').where({ id: user.id }).update({ password_changed_at: longAgo });
+      expect(await service.authenticateUser('stale', 'password123')).toMatchObject({ passwordExpired: true });
+
+      await service.updateUser(user.id, { password: 'password456' });
+      const renewed = await service.authenticateUser('stale', 'password456');
+      expect(renewed && 'passwordExpired' in renewed).toBe(false);
+    });
+  });
+
+  describe('Password Hashing', () => {
+    it('should rehash outdated passwords on login without changing their age', async () => {
+      const knex = dbConnection.getKnex();
+      const legacyService = new RBACService(knex, { ...testConfig, passwordHashing: { bcrypt: { rounds: 4 } } });
+      const user = await legacyService.createUser({ username: 'upgraded', email: 'upgraded@example.com', password: 'password123', isActive: true });
+      const service = new RBACService(knex, {
+        ...testConfig,
+        passwordHashing: { algorithm: 'scrypt', scrypt: { cost: 1024 } },
+        passwordPolicy: { maxAge: '90d' }
+      });
+
+      const stored = () => knex('users').where({ id: user.id }).first();
+      const before = await stored();
+      expect(before.password.startsWith('$2')).toBe(true);
+
+      expect(await service.authenticateUser('upgraded', 'wrong')).toBeNull();
+      expect((await stored()).password).toBe(before.password);
+
+      expect(await service.authenticateUser('upgraded', 'password123')).not.toBeNull();
+      const after = await stored();
+      expect(after.password.startsWith('$scrypt$ln=10,')).toBe(true);
+      expect(after.password_changed_at).toEqual(before.password_changed_at);
+
+      expect(await service.authenticateUser('upgraded', 'password123')).not.toBeNull();
+      expect((await stored()).password).toBe(after.password);
+    });
+  });
+
+  describe('Password Reset and Email Verification', () => {
+    const sent: MailMessage[] = [];
+    const emailConfig = { ...testConfig, email: { mailer: { send: async (message: MailMessage) => { sent.push(message); } }, requireVerification: true } };
+    const lastToken = () => sent[sent.length - 1].text.split('\n')[4];
+
+    it('should reset a password with a single-use token', async () => {
+      const service = new RBACService(dbConnection.getKnex(), emailConfig);
+      const user = await service.createUser({
+        username: 'forgetful',
+        email: 'forgetful@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      await service.requestPasswordReset('nobody@example.com');
+      expect(sent).toHaveLength(0);
+      await service.requestPasswordReset('forgetful@example.com');
+      expect(sent[0].to).toBe('forgetful@example.com');
+      const resetToken = lastToken();
+
+      expect(await service.resetPassword('wrong-token', 'newpassword')).toBeNull();
+      const reset = await service.resetPassword(resetToken, 'newpassword');
+      expect(reset?.id).toBe(user.id);
+      expect(reset?.emailVerifiedAt).toBeDefined();
+      expect(await service.resetPassword(resetToken, 'otherpassword')).toBeNull();
+
+      expect(await service.authenticateUser('forgetful', 'password123')).toBeNull();
+      expect(await service.authenticateUser('forgetful', 'newpassword')).not.toBeNull();
+    });
+
+    it('should block unverified users until their address is verified', async () => {
+      const service = new RBACService(dbConnection.getKnex(), emailConfig);
+      const user = await service.createUser({
+        username: 'unverified',
+        email: 'unverified@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      expect(await service.sendEmailVerification(user.id)).toBe(true);
+      const verificationToken = lastToken();
+      expect(await service.authenticateUser('unverified', 'password123')).toBeNull();
+
+      expect((await service.verifyEmail(verificationToken))?.emailVerifiedAt).toBeDefined();
+      expect(await service.verifyEmail(verificationToken)).toBeNull();
+      expect(await service.authenticateUser('unverified', 'password123')).not.toBeNull();
+
+      // Changing the address requires verifying the new one
+      const updated = await service.updateUser(user.id, { email: 'changed@example.com' });
+      expect(updated?.emailVerifiedAt).toBeUndefined();
+      expect(await service.authenticateUser('unverified', 'password123')).toBeNull();
+    });
+  });
+
+  describe('Multi-factor Authentication', () => {
+    it('should require a TOTP or recovery code once enrolled', async () => {
+      const user = await rbacService.createUser({
+        username: 'mfauser',
+        email: 'mfauser@example.com',
+        password: 'password123',
+        isActive: true
+      });
+
+      const enrollment = await rbacService.beginMfaEnrollment(user.id);
+      expect(enrollment?.otpauthUri).toContain('mfauser');
+      expect(await rbacService.confirmMfaEnrollment(user.id, '000000')).toBeNull();
+      const recoveryCodes = await rbacService.confirmMfaEnrollment(user.id, generateTotp(enrollment!.secret));
+      expect(recoveryCodes).toHaveLength(10);
+      expect(await rbacService.beginMfaEnrollment(user.id)).toBeNull();
+
+      const challenge = await rbacService.authenticateUser('mfauser', 'password123');
+      expect(challenge).toMatchObject({ mfaRequired: true, enrollmentRequired: false });
+      expect(challenge).not.toHaveProperty('token');
+      const { challengeToken } = challenge as { challengeToken: string };
+
+      // The code used to confirm enrollment cannot be replayed
+      expect(await rbacService.completeMfaChallenge(challengeToken, generateTotp(enrollment!.secret))).toBeNull();
+      const nextCode = generateTotp(enrollment!.secret, getTotpStep() + 1);
+      const authResult = await rbacService.completeMfaChallenge(challengeToken, nextCode);
+      expect(rbacService.verifyToken(authResult!.token)?.userId).toBe(user.id);
+      expect(await rbacService.completeMfaChallenge(challengeToken, nextCode)).toBeNull();
+
+      // Recovery codes work once, ignoring case and dashes
+      const recoveryCode = recoveryCodes![0].replace('-', '').toUpperCase();
+      const second = await rbacService.authenticateUser('mfauser', 'password123') as { challengeToken: string };
+      expect(await rbacService.completeMfaChallenge(second.challengeToken, recoveryCode)).not.toBeNull();
+      const third = await rbacService.authenticateUser('mfauser', 'password123') as { challengeToken: string };
+      expect(await rbacService.completeMfaChallenge(third.challengeToken, recoveryCode)).toBeNull();
+    });
+
+    it('should make holders of an MFA role enroll before getting tokens', async () => {
+      const role = await rbacService.createRole({ name: 'mfa-admin', description: 'Test role', isActive: true, requiresMfa: true });
+      const user = await rbacService.createUser({
+        username: 'mfaadmin',
+        email: 'mfaadmin@example.com',
+        password: 'password123',
+        isActive: true
+      });
+      await rbacService.assignRoleToUser(user.id, role.id, 'test-user-id');
+
+      const challenge = await rbacService.authenticateUser('mfaadmin', 'password123');
+      expect(challenge).toMatchObject({ mfaRequired: true, enrollmentRequired: true });
+      const { challengeToken } = challenge as { challengeToken: string };
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        expect(await rbacService.completeMfaChallenge(challengeToken, '000000')).toBeNull();
+      }
+      const enrollment = await rbacService.beginChallengeEnrollment(challengeToken);
+      const authResult = await rbacService.completeMfaChallenge(challengeToken, generateTotp(enrollment!.secret));
+      expect(authResult?.recoveryCodes).toHaveLength(10);
+      expect(await rbacService.isMfaEnabled(user.id)).toBe(true);
+    });
+
+    it('should lock the username after wrong codes across new challenges', async () => {
+      const service = new RBACService(dbConnection.getKnex(), {
+        ...testConfig,
+        loginThrottling: { maxAttempts: 3, baseDelay: '0ms' }
+      });
+      const user = await service.createUser({ username: 'mfaguessed', email: 'mfaguessed@example.com', password: 'password123', isActive: true });
+      const enrollment = await service.beginMfaEnrollment(user.id);
+      await service.confirmMfaEnrollment(user.id, generateTotp(enrollment!.secret));
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const { challengeToken } = await service.authenticateUser('mfaguessed', 'password123') as { challengeToken: string };
+        expect(await service.completeMfaChallenge(challengeToken, '000000')).toBeNull();
+      }
+
+      await expect(service.authenticateUser('mfaguessed', 'password123')).rejects.toBeInstanceOf(LoginThrottledError);
+    });
+  });
 });
@@ -0,0 +1,47 @@
+import { ConditionEvaluationError, ConditionSyntaxError, evaluateCondition, validateCondition } from '../../src/utils/conditions';
+
+describe('grant conditions', () => {
+  const context = {
+    subject: { id: 'user-1', department: 'sales', level: 3 },
+    resource: { ownerId: 'user-1', department: 'sales', status: 'draft' },
+    environment: { hour: 10 }
+  };
+
+  describe('evaluateCondition', () => {
+    it('should compare attributes across roots', () => {
+      expect(evaluateCondition('resource.department == subject.department', context)).toBe(true);
+      expect(evaluateCondition('target.ownerId == subject.id', context)).toBe(true);
+      expect(evaluateCondition('resource.ownerId != subject.id', context)).toBe(false);
+    });
+
+    it('should support ordering, membership and boolean operators', () => {
+      expect(evaluateCondition('environment.hour >= 9 && environment.hour < 18', context)).toBe(true);
+      expect(evaluateCondition("resource.status in ['draft', 'review']", context)).toBe(true);
+      expect(evaluateCondition('subject.level > 5 || !(resource.status == "published")', context)).toBe(true);
+      expect(evaluateCondition('subject.level > 5 && environment.hour < 18', context)).toBe(false);
+    });
+
+    it('should refuse to evaluate missing attributes', () => {
+      expect(() => evaluateCondition('resource.region == subject.region', context)).toThrow(ConditionEvaluationError);
+      expect(() => evaluateCondition('subject.level < resource.level', context)).toThrow(ConditionEvaluationError);
+      expect(() => evaluateCondition('resource.constructor == subject.constructor', context)).toThrow(ConditionEvaluationError);
+      expect(() => evaluateCondition("resource.archivedAt != 'never'", context)).toThrow('resource.archivedAt');
+      expect(() => evaluateCondition("!(resource.archivedAt == 'never')", context)).toThrow(ConditionEvaluationError);
+      expect(evaluateCondition('subject.level > 2 || resource.region == "eu"', context)).toBe(true);
+    });
+  });
+
+  describe('validateCondition', () => {
+    it('should reject malformed expressions', () => {
+      expect(() => validateCondition('resource.ownerId ==')).toThrow(ConditionSyntaxError);
+      expect(() => validateCondition('process.exit(1)')).toThrow(ConditionSyntaxError);
+      expect(() => validateCondition("subject.id == 'unterminated")).toThrow(ConditionSyntaxError);
+      expect(() => validateCondition('subject.id; 1')).toThrow(ConditionSyntaxError);
+    });
+
+    it('should reject overly long or deeply nested expressions', () => {
+      expect(() => validateCondition(`subject.id == '${'a'.repeat(1000)}'`)).toThrow(ConditionSyntaxError);
+      expect(() => validateCondition(`${'('.repeat(40)}true${')'.repeat(40)}`)).toThrow(ConditionSyntaxError);
+    });
+  });
+});
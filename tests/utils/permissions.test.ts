@@ -0,0 +1,47 @@
+import { anyPermissionNameMatches, parsePermissionName, permissionMatches } from '../../src/utils/permissions';
+
+describe('permission patterns', () => {
+  describe('parsePermissionName', () => {
+    it('should parse colon and dot separated names', () => {
+      expect(parsePermissionName('users:read')).toEqual({ resource: 'users', action: 'read' });
+      expect(parsePermissionName('users.read')).toEqual({ resource: 'users', action: 'read' });
+      expect(parsePermissionName('projects/123/docs:read')).toEqual({ resource: 'projects/123/docs', action: 'read' });
+    });
+
+    it('should parse the super-wildcard', () => {
+      expect(parsePermissionName('*')).toEqual({ resource: '*', action: '*' });
+    });
+
+    it('should reject names without an action', () => {
+      expect(parsePermissionName('users')).toBeNull();
+      expect(parsePermissionName('users:')).toBeNull();
+    });
+  });
+
+  describe('permissionMatches', () => {
+    const check = { resource: 'users', action: 'delete' };
+
+    it('should match action, resource and super wildcards', () => {
+      expect(permissionMatches({ resource: 'users', action: '*' }, check)).toBe(true);
+      expect(permissionMatches({ resource: '*', action: 'delete' }, check)).toBe(true);
+      expect(permissionMatches({ resource: '*', action: '*' }, check)).toBe(true);
+      expect(permissionMatches({ resource: '*', action: 'read' }, check)).toBe(false);
+      expect(permissionMatches({ resource: 'roles', action: '*' }, check)).toBe(false);
+    });
+
+    it('should match hierarchical resources segment by segment', () => {
+      const docs = { resource: 'projects/123/docs', action: 'read' };
+
+      expect(permissionMatches({ resource: 'projects/*/docs', action: 'read' }, docs)).toBe(true);
+      expect(permissionMatches({ resource: 'projects/**', action: 'read' }, docs)).toBe(true);
+      expect(permissionMatches({ resource: 'projects/*', action: 'read' }, docs)).toBe(false);
+      expect(permissionMatches({ resource: 'projects/456/**', action: 'read' }, docs)).toBe(false);
+      expect(permissionMatches({ resource: '*', action: 'read' }, docs)).toBe(true);
+    });
+  });
+
+  it('should evaluate permission names from token claims', () => {
+    expect(anyPermissionNameMatches(['content:read', 'users:*'], { resource: 'users', action: 'update' })).toBe(true);
+    expect(anyPermissionNameMatches(['content:read'], { resource: 'users', action: 'update' })).toBe(false);
+  });
+});